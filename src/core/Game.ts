@@ -1,90 +1,67 @@
 import { Renderer } from '../graphics/Renderer';
 import { Camera } from '../graphics/Camera';
 import { InputManager } from '../input/InputManager';
-import { Player } from '../entities/Player';
-import { NPCManager } from '../entities/NPCManager';
-import { GameMap } from '../world/Map';
 import { Vector2 } from '../utils/Vector2';
-import { WeaponType, Bullet } from '../entities/Weapon';
-import { ItemManager } from '../entities/Item';
-import { BulletManager } from '../entities/Weapon';
-import { VehicleManager } from '../entities/Vehicle';
+import { WeaponType, weaponRegistry } from '../entities/Weapon';
+import { pickupRegistry } from '../entities/Pickup';
+import { Random } from '../utils/Random';
+import { SaveManager, SaveData } from './SaveGame';
+import { Simulation, InputCommand } from './Simulation';
+import { MenuAction } from './Shop';
+import { ObjectiveType } from './Mission';
+import { InputRecorder, ReplayPlayer, ReplayData, exportReplayToFile, importReplayFromFile } from './Replay';
 
 /**
- * 主游戏类
+ * 主游戏类 - 在浏览器中运行模拟，负责输入、渲染和HUD
  */
 export class Game {
   private renderer: Renderer;
   private camera: Camera;
   private inputManager: InputManager;
-  private player: Player;
-  private npcManager: NPCManager;
-  private gameMap: GameMap;
-  private itemManager: ItemManager;
-  private vehicleManager: VehicleManager; // 车辆管理器
+  private simulation: Simulation; // 游戏模拟核心
   private isRunning: boolean = false;
   private frameCount: number = 0;
   private lastFrameTime: number = 0;
+  private lastFpsUpdateTime: number = 0; // 上次刷新FPS的时间
   private fps: number = 0;
-  private itemSpawnTimer: number = 0;
-  private itemSpawnInterval: number = 3; // 每3秒尝试生成一个物品
-  private maxItems: number = 3; // 最多维持3个物品
-  private itemSpawnRange: number = 600; // 物品生成范围（玩家周围）
-  private score: number = 0; // 游戏得分
-  private gameOver: boolean = false; // 游戏是否结束
-  private npcBulletManager: BulletManager; // NPC子弹管理器
-
-  constructor() {
+  private readonly maxFrameTime: number = 0.25; // 单帧最多推进的时间，避免卡顿后追帧过多
+  private accumulator: number = 0; // 尚未模拟的累积时间
+  private saveManager: SaveManager = new SaveManager(); // 存档管理器
+  private recorder: InputRecorder = new InputRecorder(); // 输入录制器（从开局开始录制）
+  private replayPlayer: ReplayPlayer | null = null; // 回放中的录像（为null时是正常游戏）
+  private liveSimulation: Simulation | null = null; // 回放期间暂停的正常游戏
+  private replayPaused: boolean = false; // 回放是否暂停
+
+  constructor(seed?: number, hardcore: boolean = false) {
     this.renderer = new Renderer('game-canvas');
     this.camera = new Camera(this.renderer.getWidth(), this.renderer.getHeight());
     this.inputManager = new InputManager();
 
-    // 初始化游戏地图（无限延展）
-    this.gameMap = new GameMap(0, 0, 32);
+    // 初始化模拟（相同种子可复现相同的城市和生成结果）
+    this.simulation = new Simulation(seed ?? Random.generateSeed(), hardcore);
 
-    // 初始化NPC管理器
-    this.npcManager = new NPCManager();
-    this.npcManager.setCollisionSystem(this.gameMap.getCollisionSystem());
-
-    // 为NPC设置射击回调
-    this.setupNPCShootCallback();
-
-    // 初始化物品管理器
-    this.itemManager = new ItemManager();
-
-    // 初始化车辆管理器
-    this.vehicleManager = new VehicleManager();
-    this.vehicleManager.setCollisionSystem(this.gameMap.getCollisionSystem());
-
-    // 初始化NPC子弹管理器
-    this.npcBulletManager = new BulletManager();
-
-    // 初始化玩家（以(0,0)为中心）
-    this.player = new Player(new Vector2(0, 0));
-
-    // 为玩家设置碰撞系统
-    this.player.setCollisionSystem(this.gameMap.getCollisionSystem());
+    this.recorder.start(this.simulation.getSeed(), hardcore);
 
     // 设置摄像机初始位置
-    this.camera.setPosition(this.player.getPosition());
+    this.camera.setPosition(this.simulation.getPlayer().getPosition());
 
     // 监听窗口大小变化
     window.addEventListener('resize', () => {
       this.camera.updateSize(this.renderer.getWidth(), this.renderer.getHeight());
     });
 
-    // 监听鼠标按下和释放事件（用于全自动武器）
-    document.addEventListener('mousedown', (e) => {
-      if (e.button === 0) { // 左键
-        this.player.setMouseDown(true);
-      }
-    });
-
-    document.addEventListener('mouseup', (e) => {
-      if (e.button === 0) { // 左键
-        this.player.setMouseDown(false);
-      }
-    });
+    // 初始化存档面板和录像面板
+    this.setupSavePanel();
+    this.setupReplayPanel();
+
+    // 根据武器定义生成切换武器的按键提示
+    const weaponKeysElement = document.getElementById('weapon-keys');
+    if (weaponKeysElement) {
+      weaponKeysElement.textContent = weaponRegistry.getAll()
+        .filter(config => config.hotkey !== null)
+        .map(config => `${config.hotkey!.toUpperCase()} - ${config.name}`)
+        .join(' | ');
+    }
   }
 
   /**
@@ -94,6 +71,8 @@ export class Game {
     if (this.isRunning) return;
     this.isRunning = true;
     this.lastFrameTime = performance.now();
+    this.lastFpsUpdateTime = this.lastFrameTime;
+    this.accumulator = 0;
     this.gameLoop();
   }
 
@@ -105,129 +84,135 @@ export class Game {
   }
 
   /**
-   * 游戏主循环
+   * 获取世界种子
+   */
+  getSeed(): number {
+    return this.simulation.getSeed();
+  }
+
+  /**
+   * 获取游戏模拟核心
+   */
+  getSimulation(): Simulation {
+    return this.simulation;
+  }
+
+  /**
+   * 获取当前FPS
+   */
+  getFPS(): number {
+    return this.fps;
+  }
+
+  /**
+   * 游戏主循环（固定步长模拟 + 插值渲染）
    */
   private gameLoop = (): void => {
     if (!this.isRunning) return;
 
     const currentTime = performance.now();
-    const deltaTime = (currentTime - this.lastFrameTime) / 1000;
+    const frameTime = Math.min((currentTime - this.lastFrameTime) / 1000, this.maxFrameTime);
     this.lastFrameTime = currentTime;
 
-    // 更新
-    this.update(deltaTime);
+    // 按固定步长推进模拟，与显示器刷新率无关
+    const fixedDeltaTime = this.simulation.getFixedDeltaTime();
+    this.accumulator += frameTime;
+    while (this.accumulator >= fixedDeltaTime) {
+      this.camera.savePreviousState();
+      if (this.replayPlayer) {
+        // 回放时忽略玩家输入，改用录像中的输入
+        if (!this.replayPaused) {
+          this.replayPlayer.step();
+        }
+      } else {
+        const input = this.readInput();
+        this.recorder.record(input);
+        this.simulation.step(input);
+      }
+      this.inputManager.clearJustPressedKeys();
+      this.updateCamera();
+      this.accumulator -= fixedDeltaTime;
+    }
+
+    // 渲染（在上一步与当前步之间插值）
+    const alpha = this.accumulator / fixedDeltaTime;
+    this.render(alpha);
 
-    // 渲染
-    this.render();
+    // 更新HUD
+    this.updateHUD();
 
-    // 更新FPS
+    // 更新FPS（每秒统计一次）
     this.frameCount++;
-    if (currentTime - this.lastFrameTime > 1000) {
-      this.fps = this.frameCount;
+    if (currentTime - this.lastFpsUpdateTime >= 1000) {
+      this.fps = Math.round((this.frameCount * 1000) / (currentTime - this.lastFpsUpdateTime));
       this.frameCount = 0;
+      this.lastFpsUpdateTime = currentTime;
     }
 
     requestAnimationFrame(this.gameLoop);
   };
 
   /**
-   * 更新游戏逻辑
+   * 将键盘和鼠标状态转换为本步的输入指令
    */
-  private update(deltaTime: number): void {
-    // 如果游戏结束，检查重新开始
-    if (this.gameOver) {
-      if (this.inputManager.isKeyPressed('r')) {
-        this.restartGame();
-      }
-      return;
-    }
-
-    // 获取玩家输入
-    const movement = this.inputManager.getMovementInput();
+  private readInput(): InputCommand {
     const mousePos = this.inputManager.getMousePosition();
 
     // 将屏幕坐标转换为世界坐标
-    const worldMousePos = this.camera.screenToWorld(new Vector2(mousePos.x, mousePos.y));
-    this.player.setMousePosition(worldMousePos.x, worldMousePos.y);
-
-    // 处理射击输入（由鼠标事件监听器处理全自动，这里只是触发射击）
-    const currentTime = performance.now() / 1000;
-    this.player.fire(currentTime);
+    const aim = this.camera.screenToWorld(new Vector2(mousePos.x, mousePos.y));
 
-    // 处理装弹输入
-    if (this.inputManager.isKeyPressed('r')) {
-      this.player.reload(currentTime);
-    }
-
-    // 处理武器切换输入
-    if (this.inputManager.isKeyPressed('1')) {
-      this.player.switchWeapon(WeaponType.PISTOL);
-    }
-    if (this.inputManager.isKeyPressed('2')) {
-      this.player.switchWeapon(WeaponType.RIFLE);
-    }
-    if (this.inputManager.isKeyPressed('3')) {
-      this.player.switchWeapon(WeaponType.SHOTGUN);
+    // 同时按住多个武器键时，武器定义中靠后的优先
+    let switchWeapon: WeaponType | null = null;
+    for (const config of weaponRegistry.getAll()) {
+      if (config.hotkey !== null && this.inputManager.isKeyPressed(config.hotkey)) {
+        switchWeapon = config.type;
+      }
     }
 
-    // 更新玩家
-    this.player.update(deltaTime, movement, currentTime);
-
-    // 更新车辆
-    this.vehicleManager.update(deltaTime, this.player.getPosition());
-
-    // 处理车辆交互
-    this.handleVehicleInteraction();
-
-    // 更新NPC
-    this.npcManager.update(deltaTime, this.player.getPosition(), currentTime);
-
-    // 更新NPC子弹
-    this.npcBulletManager.update(deltaTime);
-
-    // 更新物品
-    this.itemManager.update(deltaTime);
-
-    // 生成物品（维持数量在3以内）
-    this.itemSpawnTimer += deltaTime;
-    if (this.itemSpawnTimer >= this.itemSpawnInterval) {
-      this.itemSpawnTimer = 0;
-      if (this.itemManager.getCount() < this.maxItems) {
-        this.spawnRandomItem();
+    // 商店菜单打开时：上下方向键选择，回车购买，Esc关闭
+    let menu: MenuAction | null = null;
+    if (this.simulation.getShopMenu()) {
+      if (this.inputManager.isKeyJustPressed('w') || this.inputManager.isKeyJustPressed('arrowup')) {
+        menu = MenuAction.UP;
+      } else if (this.inputManager.isKeyJustPressed('s') || this.inputManager.isKeyJustPressed('arrowdown')) {
+        menu = MenuAction.DOWN;
+      } else if (this.inputManager.isKeyJustPressed('enter')) {
+        menu = MenuAction.SELECT;
+      } else if (this.inputManager.isKeyJustPressed('escape')) {
+        menu = MenuAction.CLOSE;
       }
     }
 
-    // 清理超出范围的物品
-    this.cleanupFarItems();
-
-    // 检查玩家是否拾取物品
-    this.checkItemPickup();
-
-    // 检查子弹是否击中建筑物
-    this.checkBulletsHitBuildings();
-
-    // 检查子弹是否击中NPC
-    this.checkBulletHits();
-
-    // 检查NPC子弹是否击中玩家
-    this.checkNPCBulletHits();
-
-    // 清理超出范围的NPC子弹
-    this.cleanupNPCBullets();
-
-    // 检查车辆是否被摧毁
-    this.checkDestroyedVehicles();
+    return {
+      movement: this.inputManager.getMovementInput(),
+      aim: { x: Math.round(aim.x), y: Math.round(aim.y) }, // 取整让录像更紧凑
+      fireHeld: this.inputManager.isMouseButtonPressed(0),
+      firePressed: this.inputManager.isMouseButtonJustPressed(0),
+      meleeHeld: this.inputManager.isMouseButtonPressed(2),
+      meleePressed: this.inputManager.isMouseButtonJustPressed(2),
+      reload: this.inputManager.isKeyPressed('r'),
+      switchWeapon,
+      interact: this.inputManager.isKeyJustPressed('f'),
+      restart: this.simulation.isGameOver() && this.inputManager.isKeyJustPressed('enter'), // 只在游戏结束后读取，避免与装弹键冲突
+      menu,
+      handbrake: this.inputManager.isKeyPressed(' ')
+    };
+  }
 
-    // 检查玩家是否死亡
-    if (this.player.getIsDead()) {
-      this.gameOver = true;
+  /**
+   * 摄像机跟随玩家，并根据驾驶状态调整缩放
+   */
+  private updateCamera(): void {
+    // 游戏结束后摄像机停止移动
+    if (this.simulation.isGameOver()) {
+      return;
     }
 
-    // 摄像机跟随玩家
-    this.camera.follow(this.player.getPosition(), 0.1);
+    const player = this.simulation.getPlayer();
+    this.camera.follow(player.getPosition(), 0.1);
 
     // 根据驾驶状态调整摄像机缩放
-    const isInVehicle = this.player.isInVehicle();
+    const isInVehicle = player.isInVehicle();
     const targetZoom = isInVehicle ? 0.9 : 1.5;
     const currentZoom = this.camera.getZoom();
     const zoomDifference = targetZoom - currentZoom;
@@ -238,381 +223,217 @@ export class Game {
     } else {
       this.camera.setZoom(targetZoom);
     }
-
-    // 更新HUD
-    this.updateHUD();
-
-    // 清除本帧的刚按下键记录
-    this.inputManager.clearJustPressedKeys();
   }
 
   /**
-   * 生成随机物品
+   * 渲染游戏
    */
-  private spawnRandomItem(): void {
-    // 尝试生成物品，最多尝试5次以避免在建筑物内生成
-    for (let attempt = 0; attempt < 5; attempt++) {
-      const angle = Math.random() * Math.PI * 2;
-      const distance = 300 + Math.random() * 300;
-      const x = this.player.getPosition().x + Math.cos(angle) * distance;
-      const y = this.player.getPosition().y + Math.sin(angle) * distance;
-
-      // 检查位置是否在建筑物内
-      if (!this.isPositionInBuilding(new Vector2(x, y))) {
-        // 随机选择武器类型（不包括手枪）
-        const weaponTypes = [WeaponType.RIFLE, WeaponType.SHOTGUN];
-        const randomWeapon = weaponTypes[Math.floor(Math.random() * weaponTypes.length)];
-
-        this.itemManager.addItem(new Vector2(x, y), randomWeapon);
-        return;
-      }
-    }
-  }
+  private render(alpha: number): void {
+    // 摄像机插值
+    this.camera.interpolate(alpha);
 
-  /**
-   * 清理超出范围的物品
-   */
-  private cleanupFarItems(): void {
-    const playerPos = this.player.getPosition();
-    const items = this.itemManager.getAllItems();
-
-    for (const item of items) {
-      const distance = playerPos.distance(item.getPosition());
-      // 如果物品超出范围，删除它
-      if (distance > this.itemSpawnRange) {
-        this.itemManager.removeItem(item.getId());
-      }
-    }
-  }
+    // 清空画布
+    this.renderer.clear();
 
-  /**
-   * 检查位置是否在建筑物内
-   */
-  private isPositionInBuilding(position: Vector2): boolean {
-    const buildings = this.gameMap.getBuildings();
-    for (const building of buildings) {
-      if (
-        position.x >= building.x &&
-        position.x <= building.x + building.width &&
-        position.y >= building.y &&
-        position.y <= building.y + building.height
-      ) {
-        return true;
-      }
-    }
-    return false;
-  }
+    // 绘制地图
+    this.simulation.getGameMap().render(this.renderer, this.camera);
 
-  /**
-   * 处理车辆交互
-   */
-  private handleVehicleInteraction(): void {
-    // 如果玩家已在车辆中
-    if (this.player.isInVehicle()) {
-      // 按F键离开车辆
-      if (this.inputManager.isKeyJustPressed('f')) {
-        this.player.exitVehicle();
-      }
-      return;
-    }
+    // 绘制物品
+    this.simulation.getItemManager().render(this.renderer, this.camera);
 
-    // 检查玩家附近是否有车辆
-    const nearbyVehicles = this.vehicleManager.getNearbyVehicles(this.player.getPosition(), 100);
-    
-    if (nearbyVehicles.length > 0) {
-      // 按F键进入最近的车辆
-      if (this.inputManager.isKeyJustPressed('f')) {
-        const vehicle = nearbyVehicles[0];
-        this.player.enterVehicle(vehicle);
-      }
-    }
-  }
+    // 绘制车辆
+    this.simulation.getVehicleManager().render(this.renderer, this.camera, alpha);
 
-  /**
-   * 检查玩家是否拾取物品
-   */
-  private checkItemPickup(): void {
-    const playerPos = this.player.getPosition();
-    const playerRadius = this.player.getRadius();
-
-    for (const item of this.itemManager.getAllItems()) {
-      const distance = playerPos.distance(item.getPosition());
-      if (distance < playerRadius + item.getRadius()) {
-        // 拾取物品
-        this.player.pickupWeapon(item.getWeaponType());
-        this.itemManager.removeItem(item.getId());
-      }
-    }
-  }
+    // 绘制NPC
+    this.simulation.getNPCManager().render(this.renderer, this.camera, alpha);
 
-  /**
-   * 为NPC设置射击回调
-   */
-  private setupNPCShootCallback(): void {
-    // 在NPCManager中为每个新创建的NPC设置射击回调
-    const originalCreateNPC = this.npcManager.createNPC.bind(this.npcManager);
-    this.npcManager.createNPC = (id: string, position: Vector2) => {
-      const npc = originalCreateNPC(id, position);
-      npc.setOnShoot((npcPos: Vector2, direction: Vector2) => {
-        // NPC射击，创建子弹
-        const bullet = new Bullet(
-          npcPos,
-          direction,
-          10, // NPC手枪伤害
-          500, // 子弹速度
-          300, // 射程
-          3, // 子弹大小
-          id // NPC ID
-        );
-        this.npcBulletManager.addBullet(bullet);
-      });
-      return npc;
-    };
-  }
+    // 绘制NPC子弹
+    this.simulation.getNPCBulletManager().render(this.renderer, this.camera, alpha);
 
-  /**
-   * 重新开始游戏
-   */
-  private restartGame(): void {
-    this.score = 0;
-    this.gameOver = false;
-    this.npcBulletManager.clear();
-    
-    // 重新初始化玩家
-    this.player = new Player(new Vector2(0, 0));
-    this.player.setCollisionSystem(this.gameMap.getCollisionSystem());
-    
-    // 重新初始化NPC管理器
-    this.npcManager = new NPCManager();
-    this.npcManager.setCollisionSystem(this.gameMap.getCollisionSystem());
-    
-    // 为NPC设置射击回调
-    this.setupNPCShootCallback();
-    
-    // 重新初始化物品管理器
-    this.itemManager = new ItemManager();
-  }
+    // 绘制手雷、火箭弹和爆炸
+    this.simulation.getExplosiveManager().render(this.renderer, this.camera, alpha);
 
-  /**
-   * 检查子弹是否击中建筑物
-   */
-  private checkBulletsHitBuildings(): void {
-    // 检查玩家子弹
-    const playerBullets = this.player.getBulletManager().getBullets();
-    for (let i = playerBullets.length - 1; i >= 0; i--) {
-      const bullet = playerBullets[i];
-      if (this.gameMap.isPointInBuilding(bullet.getPosition())) {
-        this.player.getBulletManager().removeBullet(i);
-      }
-    }
+    // 绘制玩家
+    this.simulation.getPlayer().render(this.renderer, this.camera, this.simulation.getSimulationTime(), alpha);
 
-    // 检查NPC子弹
-    const npcBullets = this.npcBulletManager.getBullets();
-    for (let i = npcBullets.length - 1; i >= 0; i--) {
-      const bullet = npcBullets[i];
-      if (this.gameMap.isPointInBuilding(bullet.getPosition())) {
-        this.npcBulletManager.removeBullet(i);
-      }
+    // 绘制网格（调试用）
+    this.drawDebugGrid();
+
+    // 绘制任务标记、目标和结果
+    this.drawMissions();
+
+    // 绘制商店提示和菜单
+    this.drawShop();
+
+    // 绘制死亡和复活的淡入淡出
+    this.drawScreenFade();
+
+    // 绘制游戏结束画面
+    if (this.simulation.isGameOver()) {
+      this.drawGameOverScreen();
     }
   }
 
   /**
-   * 检查子弹是否击中NPC和车辆
+   * 绘制死亡后的淡出（提示即将在医院复活）和复活后的淡入（提示扣除的医药费）
    */
-  private checkBulletHits(): void {
-    const bullets = this.player.getBulletManager().getBullets();
-    const npcs = this.npcManager.getAllNPCs();
-    const vehicles = this.vehicleManager.getVehicles();
-    const playerVehicle = this.player.getCurrentVehicle(); // 获取玩家所在的车辆
-
-    // 遍历所有子弹
-    for (let i = bullets.length - 1; i >= 0; i--) {
-      const bullet = bullets[i];
-      const bulletPos = bullet.getPosition();
-      const bulletRadius = bullet.getSize();
-      let bulletHit = false;
-
-      // 检查是否击中NPC
-      for (const npc of npcs) {
-        if (npc.getIsDead()) {
-          continue;
-        }
-
-        const npcPos = npc.getPosition();
-        const npcRadius = npc.getRadius();
-        const distance = bulletPos.distance(npcPos);
-
-        if (distance < bulletRadius + npcRadius) {
-          // 子弹击中NPC
-          const damage = bullet.getDamage();
-          npc.takeDamage(damage, this.player.getPosition());
-          
-          // 如果NPC死亡，增加得分
-          if (npc.getIsDead()) {
-            this.score++;
-          }
-          
-          bulletHit = true;
-          break;
-        }
-      }
+  private drawScreenFade(): void {
+    const fade = this.simulation.getScreenFade();
+    if (fade <= 0) {
+      return;
+    }
 
-      // 如果子弹还没击中，检查是否击中车辆
-      if (!bulletHit) {
-        for (const vehicle of vehicles) {
-          if (vehicle.getIsDead()) {
-            continue;
-          }
-
-          // 如果玩家在这辆车里，跳过这辆车（不能击中自己的车）
-          if (playerVehicle === vehicle) {
-            continue;
-          }
-
-          const vehiclePos = vehicle.getPosition();
-          const vehicleRadius = vehicle.getRadius();
-          const distance = bulletPos.distance(vehiclePos);
-
-          if (distance < bulletRadius + vehicleRadius) {
-            // 子弹击中车辆
-            const damage = bullet.getDamage();
-            vehicle.takeDamage(damage);
-            bulletHit = true;
-            break;
-          }
-        }
-      }
+    const ctx = this.renderer.getContext();
+    const width = this.renderer.getWidth();
+    const height = this.renderer.getHeight();
+    ctx.fillStyle = `rgba(0, 0, 0, ${fade})`;
+    ctx.fillRect(0, 0, width, height);
 
-      // 如果子弹击中任何目标，删除子弹
-      if (bulletHit) {
-        this.player.getBulletManager().removeBullet(i);
-      }
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    if (this.simulation.getPlayer().getIsDead()) {
+      ctx.fillStyle = '#e53935';
+      ctx.font = 'bold 48px Arial';
+      ctx.fillText('你挂了', width / 2, height / 2 - 20);
+      ctx.fillStyle = '#ffffff';
+      ctx.font = '20px Arial';
+      ctx.fillText('正在送往最近的医院...', width / 2, height / 2 + 30);
+    } else {
+      ctx.fillStyle = `rgba(255, 255, 255, ${fade})`;
+      ctx.font = '20px Arial';
+      ctx.fillText(`医药费 -$${this.simulation.getLastHospitalFee()}`, width / 2, height / 2);
     }
   }
 
   /**
-   * 检查NPC子弹是否击中玩家和车辆
+   * 绘制任务起始标记、当前目标（触发区域和指向箭头）以及任务结果
    */
-  private checkNPCBulletHits(): void {
-    const bullets = this.npcBulletManager.getBullets();
-    const playerPos = this.player.getPosition();
-    const playerRadius = this.player.getRadius();
-    const vehicles = this.vehicleManager.getVehicles();
-
-    // 遍历所有NPC子弹
-    for (let i = bullets.length - 1; i >= 0; i--) {
-      const bullet = bullets[i];
-      const bulletPos = bullet.getPosition();
-      const bulletRadius = bullet.getSize();
-      let bulletHit = false;
-
-      // 首先检查是否击中玩家（如果玩家不在车辆中）
-      if (!this.player.isInVehicle()) {
-        const distance = bulletPos.distance(playerPos);
-        if (distance < bulletRadius + playerRadius) {
-          // 子弹击中玩家
-          const damage = bullet.getDamage();
-          this.player.takeDamage(damage);
-          bulletHit = true;
-        }
-      }
+  private drawMissions(): void {
+    const ctx = this.renderer.getContext();
+    const zoom = this.camera.getZoom();
+    const missionManager = this.simulation.getMissionManager();
 
-      // 如果子弹还没击中，检查是否击中车辆
-      if (!bulletHit) {
-        for (const vehicle of vehicles) {
-          if (vehicle.getIsDead()) {
-            continue;
-          }
-
-          const vehiclePos = vehicle.getPosition();
-          const vehicleRadius = vehicle.getRadius();
-          const distance = bulletPos.distance(vehiclePos);
-
-          if (distance < bulletRadius + vehicleRadius) {
-            // 子弹击中车辆
-            const damage = bullet.getDamage();
-            vehicle.takeDamage(damage);
-            bulletHit = true;
-            break;
-          }
-        }
+    // 任务起始标记
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (const marker of missionManager.getMarkers()) {
+      const screenPos = this.camera.worldToScreen(marker.position);
+      this.renderer.drawCircle(screenPos, 14 * zoom, 'rgba(255, 214, 0, 0.35)', true);
+      this.renderer.drawCircle(screenPos, 14 * zoom, '#ffd600', false);
+      ctx.fillStyle = '#ffd600';
+      ctx.font = 'bold 16px Arial';
+      ctx.fillText('!', screenPos.x, screenPos.y);
+      ctx.font = '12px Arial';
+      ctx.fillText(marker.mission.name, screenPos.x, screenPos.y - 24 * zoom);
+    }
+
+    const active = missionManager.getActiveMission();
+    const objective = missionManager.getCurrentObjective();
+    if (active && objective) {
+      // 到达和送车目标的触发区域
+      if (active.objectivePosition && (objective.type === ObjectiveType.GO_TO || objective.type === ObjectiveType.DELIVER_VEHICLE)) {
+        const screenPos = this.camera.worldToScreen(active.objectivePosition);
+        this.renderer.drawCircle(screenPos, objective.radius * zoom, 'rgba(255, 214, 0, 0.2)', true);
+        this.renderer.drawCircle(screenPos, objective.radius * zoom, '#ffd600', false);
       }
 
-      // 如果子弹击中任何目标，删除子弹
-      if (bulletHit) {
-        this.npcBulletManager.removeBullet(i);
+      // 在玩家身边画一个指向目标的箭头
+      const target = missionManager.getObjectiveTarget(this.simulation);
+      if (target) {
+        const playerPos = this.simulation.getPlayer().getPosition();
+        const direction = target.subtract(playerPos);
+        if (direction.length() > 1) {
+          const unit = direction.normalize();
+          const side = new Vector2(-unit.y, unit.x);
+          const tip = this.camera.worldToScreen(playerPos.add(unit.multiply(44)));
+          const base = this.camera.worldToScreen(playerPos.add(unit.multiply(32)));
+          const offset = side.multiply(6 * zoom);
+          ctx.fillStyle = '#ffd600';
+          ctx.beginPath();
+          ctx.moveTo(tip.x, tip.y);
+          ctx.lineTo(base.x + offset.x, base.y + offset.y);
+          ctx.lineTo(base.x - offset.x, base.y - offset.y);
+          ctx.closePath();
+          ctx.fill();
+        }
+        this.renderer.drawCircle(this.camera.worldToScreen(target), 18 * zoom, '#ffd600', false);
       }
     }
-  }
 
-  /**
-   * 清理超出范围的NPC子弹
-   */
-  private cleanupNPCBullets(): void {
-    const bullets = this.npcBulletManager.getBullets();
-    const playerPos = this.player.getPosition();
-
-    // 遍历所有NPC子弹，删除超出范围的
-    for (let i = bullets.length - 1; i >= 0; i--) {
-      const bullet = bullets[i];
-      const bulletPos = bullet.getPosition();
-      const distance = bulletPos.distance(playerPos);
-
-      // 如果子弹超出1000像素范围，删除它
-      if (distance > 1000) {
-        this.npcBulletManager.removeBullet(i);
-      }
+    // 任务完成或失败的提示
+    const result = missionManager.getResult();
+    if (result) {
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.font = 'bold 28px Arial';
+      ctx.fillStyle = result.passed ? '#43a047' : '#e53935';
+      ctx.fillText(result.message, this.renderer.getWidth() / 2, this.renderer.getHeight() / 4);
     }
   }
 
   /**
-   * 检查被摧毁的车辆，如果玩家在车辆中则强制离开
+   * 绘制商店门口的进入提示，以及打开中的商店菜单
    */
-  private checkDestroyedVehicles(): void {
-    // 如果玩家在车辆中
-    if (this.player.isInVehicle()) {
-      const playerVehicle = this.vehicleManager.getPlayerVehicle('player');
-      // 如果玩家所在的车辆被摧毁
-      if (playerVehicle && playerVehicle.getIsDead()) {
-        // 强制玩家离开车辆
-        this.player.exitVehicle();
+  private drawShop(): void {
+    const ctx = this.renderer.getContext();
+    const menu = this.simulation.getShopMenu();
+
+    if (!menu) {
+      const nearby = this.simulation.getNearbyShop();
+      if (nearby) {
+        const screenPos = this.camera.worldToScreen(nearby.location.position);
+        ctx.fillStyle = '#ffb300';
+        ctx.font = 'bold 14px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(`F - 进入${nearby.shop.name}`, screenPos.x, screenPos.y - 20);
       }
+      return;
     }
-  }
-
-  /**
-   * 渲染游戏
-   */
-  private render(): void {
-    // 清空画布
-    this.renderer.clear();
-
-    // 绘制地图
-    this.gameMap.render(this.renderer, this.camera);
-
-    // 绘制物品
-    this.itemManager.render(this.renderer, this.camera);
-
-    // 绘制车辆
-    this.vehicleManager.render(this.renderer, this.camera);
-
-    // 绘制NPC
-    this.npcManager.render(this.renderer, this.camera);
-
-    // 绘制NPC子弹
-    this.npcBulletManager.render(this.renderer, this.camera);
-
-    // 绘制玩家
-    const currentTime = performance.now() / 1000;
-    this.player.render(this.renderer, this.camera, currentTime);
 
-    // 绘制网格（调试用）
-    this.drawDebugGrid();
+    const width = 320;
+    const lineHeight = 26;
+    const height = 90 + menu.shop.stock.length * lineHeight;
+    const x = (this.renderer.getWidth() - width) / 2;
+    const y = (this.renderer.getHeight() - height) / 2;
+
+    // 背景和标题
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+    ctx.fillRect(x, y, width, height);
+    ctx.strokeStyle = '#ffb300';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, width, height);
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+    ctx.fillStyle = '#ffb300';
+    ctx.font = 'bold 18px Arial';
+    ctx.fillText(menu.shop.name, x + 16, y + 22);
+    ctx.textAlign = 'right';
+    ctx.fillStyle = '#43a047';
+    ctx.fillText(`$${this.simulation.getPlayer().getMoney()}`, x + width - 16, y + 22);
+
+    // 商品列表（选中项高亮，买不起的变灰）
+    ctx.font = '15px Arial';
+    menu.shop.stock.forEach((item, index) => {
+      const itemY = y + 52 + index * lineHeight;
+      if (index === menu.selected) {
+        ctx.fillStyle = 'rgba(255, 179, 0, 0.25)';
+        ctx.fillRect(x + 8, itemY - lineHeight / 2, width - 16, lineHeight);
+      }
+      ctx.fillStyle = item.price <= this.simulation.getPlayer().getMoney() ? '#ffffff' : '#888888';
+      ctx.textAlign = 'left';
+      ctx.fillText(item.name, x + 16, itemY);
+      ctx.textAlign = 'right';
+      ctx.fillText(`$${item.price}`, x + width - 16, itemY);
+    });
 
-    // 绘制游戏结束画面
-    if (this.gameOver) {
-      this.drawGameOverScreen();
-    }
+    // 购买结果和操作提示
+    ctx.textAlign = 'center';
+    ctx.font = '13px Arial';
+    ctx.fillStyle = '#ffeb3b';
+    ctx.fillText(menu.message ?? '', x + width / 2, y + height - 34);
+    ctx.fillStyle = '#aaaaaa';
+    ctx.fillText('W/S - 选择 | 回车 - 购买 | Esc/F - 离开', x + width / 2, y + height - 14);
   }
 
   /**
@@ -637,12 +458,12 @@ export class Game {
     // 绘制得分
     ctx.fillStyle = '#ffff00';
     ctx.font = 'bold 36px Arial';
-    ctx.fillText(`最终得分: ${this.score}`, width / 2, height / 2 + 20);
+    ctx.fillText(`最终得分: ${this.simulation.getScore()}`, width / 2, height / 2 + 20);
 
     // 绘制重新开始提示
     ctx.fillStyle = '#00ff00';
     ctx.font = '24px Arial';
-    ctx.fillText('按 R 键重新开始', width / 2, height / 2 + 80);
+    ctx.fillText('按回车键重新开始', width / 2, height / 2 + 80);
   }
 
   /**
@@ -670,34 +491,397 @@ export class Game {
     }
   }
 
+  /**
+   * 绑定存档面板的按钮
+   */
+  private setupSavePanel(): void {
+    const panel = document.getElementById('save-panel');
+    const slotSelect = document.getElementById('save-slot') as HTMLSelectElement | null;
+    const fileInput = document.getElementById('import-file') as HTMLInputElement | null;
+    if (!panel || !slotSelect || !fileInput) {
+      return;
+    }
+
+    // 点击面板时不触发射击
+    panel.addEventListener('mousedown', (e) => e.stopPropagation());
+    slotSelect.addEventListener('change', () => slotSelect.blur());
+
+    const getSlot = (): number => Number(slotSelect.value);
+    const bind = (id: string, action: () => void): void => {
+      const button = document.getElementById(id);
+      button?.addEventListener('click', () => {
+        action();
+        // 移除焦点，避免之后的按键触发按钮
+        button.blur();
+      });
+    };
+
+    bind('save-button', () => {
+      // localStorage已满或被禁用时写入会抛出异常
+      try {
+        this.saveManager.save(getSlot(), this.simulation.createSaveData());
+        this.refreshSaveSlots();
+        this.setSaveStatus(`已保存到槽位 ${getSlot()}`);
+      } catch (error) {
+        this.setSaveStatus(`保存失败: ${(error as Error).message}`);
+      }
+    });
+
+    bind('load-button', () => {
+      try {
+        const data = this.saveManager.load(getSlot());
+        if (!data) {
+          this.setSaveStatus(`槽位 ${getSlot()} 为空`);
+          return;
+        }
+        this.loadSave(data);
+        this.setSaveStatus(`已读取槽位 ${getSlot()}`);
+      } catch (error) {
+        this.setSaveStatus(`读取失败: ${(error as Error).message}`);
+      }
+    });
+
+    bind('export-button', () => {
+      this.saveManager.exportToFile(this.simulation.createSaveData());
+    });
+
+    bind('import-button', () => {
+      fileInput.click();
+    });
+
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (!file) {
+        return;
+      }
+      this.saveManager.importFromFile(file)
+        .then(data => {
+          this.loadSave(data);
+          this.setSaveStatus(`已导入 ${file.name}`);
+        })
+        .catch(error => {
+          this.setSaveStatus(`导入失败: ${(error as Error).message}`);
+        });
+    });
+
+    this.refreshSaveSlots();
+  }
+
+  /**
+   * 读取存档并将摄像机移到玩家位置
+   */
+  private loadSave(data: SaveData): void {
+    this.exitReplay();
+    this.simulation.loadSaveData(data);
+
+    // 读档后的状态无法从种子重现，停止录制
+    this.recorder.stop();
+    this.accumulator = 0;
+    this.camera.setPosition(this.simulation.getPlayer().getPosition());
+  }
+
+  /**
+   * 刷新存档槽位列表
+   */
+  private refreshSaveSlots(): void {
+    const slotSelect = document.getElementById('save-slot') as HTMLSelectElement | null;
+    if (!slotSelect) {
+      return;
+    }
+
+    const selected = slotSelect.value || '1';
+    slotSelect.innerHTML = '';
+    for (let slot = 1; slot <= this.saveManager.getSlotCount(); slot++) {
+      const info = this.saveManager.getSlotInfo(slot);
+      const option = document.createElement('option');
+      option.value = String(slot);
+      option.textContent = info
+        ? `槽位 ${slot} - 得分 ${info.score} (${new Date(info.savedAt).toLocaleString()})`
+        : `槽位 ${slot} - 空`;
+      slotSelect.appendChild(option);
+    }
+    slotSelect.value = selected;
+  }
+
+  /**
+   * 显示存档操作结果
+   */
+  private setSaveStatus(message: string): void {
+    const statusElement = document.getElementById('save-status');
+    if (statusElement) {
+      statusElement.textContent = message;
+    }
+  }
+
+  /**
+   * 绑定录像面板的按钮和进度条
+   */
+  private setupReplayPanel(): void {
+    const panel = document.getElementById('replay-panel');
+    const scrubber = document.getElementById('replay-scrubber') as HTMLInputElement | null;
+    const fileInput = document.getElementById('replay-file') as HTMLInputElement | null;
+    if (!panel || !scrubber || !fileInput) {
+      return;
+    }
+
+    // 点击面板时不触发射击
+    panel.addEventListener('mousedown', (e) => e.stopPropagation());
+
+    const bind = (id: string, action: () => void): void => {
+      const button = document.getElementById(id);
+      button?.addEventListener('click', () => {
+        action();
+        // 移除焦点，避免之后的按键触发按钮
+        button.blur();
+      });
+    };
+
+    bind('replay-play-button', () => {
+      if (this.replayPlayer) {
+        // 播放完毕后从头开始
+        if (this.replayPlayer.isFinished()) {
+          this.seekReplay(0);
+          this.replayPaused = false;
+        } else {
+          this.replayPaused = !this.replayPaused;
+        }
+      } else if (this.recorder.getFrameCount() > 0) {
+        this.enterReplay(this.recorder.toReplayData());
+      } else {
+        this.setReplayStatus('没有可回放的录像');
+      }
+    });
+
+    bind('replay-exit-button', () => {
+      this.exitReplay();
+    });
+
+    bind('replay-export-button', () => {
+      if (this.recorder.getFrameCount() === 0) {
+        this.setReplayStatus('没有可导出的录像');
+        return;
+      }
+      exportReplayToFile(this.recorder.toReplayData());
+    });
+
+    bind('replay-import-button', () => {
+      fileInput.click();
+    });
+
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      fileInput.value = '';
+      if (!file) {
+        return;
+      }
+      importReplayFromFile(file)
+        .then(data => {
+          this.enterReplay(data);
+          this.setReplayStatus(`已导入 ${file.name}`);
+        })
+        .catch(error => {
+          this.setReplayStatus(`导入失败: ${(error as Error).message}`);
+        });
+    });
+
+    // 拖动时只更新显示，松开后才跳转（倒退需要从头重新模拟）
+    scrubber.addEventListener('input', () => {
+      this.setReplayFrameText(Number(scrubber.value));
+    });
+    scrubber.addEventListener('change', () => {
+      this.seekReplay(Number(scrubber.value));
+      scrubber.blur();
+    });
+  }
+
+  /**
+   * 开始回放录像（正常游戏暂停）
+   */
+  private enterReplay(data: ReplayData): void {
+    if (!this.liveSimulation) {
+      this.liveSimulation = this.simulation;
+    }
+    this.replayPlayer = new ReplayPlayer(data);
+    this.replayPaused = false;
+    this.simulation = this.replayPlayer.getSimulation();
+    this.accumulator = 0;
+    this.camera.setPosition(this.simulation.getPlayer().getPosition());
+    this.setReplayStatus(`回放中（种子 ${data.seed}）`);
+  }
+
+  /**
+   * 跳转到录像的指定步
+   */
+  private seekReplay(frame: number): void {
+    if (!this.replayPlayer) {
+      return;
+    }
+    this.replayPlayer.seek(frame);
+    this.simulation = this.replayPlayer.getSimulation();
+    this.camera.setPosition(this.simulation.getPlayer().getPosition());
+  }
+
+  /**
+   * 退出回放，回到正常游戏
+   */
+  private exitReplay(): void {
+    if (!this.replayPlayer || !this.liveSimulation) {
+      return;
+    }
+    this.simulation = this.liveSimulation;
+    this.liveSimulation = null;
+    this.replayPlayer = null;
+    this.accumulator = 0;
+    this.camera.setPosition(this.simulation.getPlayer().getPosition());
+    this.setReplayStatus('');
+  }
+
+  /**
+   * 更新录像面板的进度条和按钮
+   */
+  private updateReplayPanel(): void {
+    const scrubber = document.getElementById('replay-scrubber') as HTMLInputElement | null;
+    const playButton = document.getElementById('replay-play-button');
+    const exitButton = document.getElementById('replay-exit-button');
+    if (!scrubber || !playButton || !exitButton) {
+      return;
+    }
+
+    if (this.replayPlayer) {
+      scrubber.disabled = false;
+      scrubber.max = String(this.replayPlayer.getFrameCount());
+      // 拖动进度条时不覆盖用户选择的位置
+      if (document.activeElement !== scrubber) {
+        scrubber.value = String(this.replayPlayer.getFrame());
+        this.setReplayFrameText(this.replayPlayer.getFrame());
+      }
+      playButton.textContent = this.replayPaused || this.replayPlayer.isFinished() ? '播放' : '暂停';
+      exitButton.style.display = '';
+    } else {
+      scrubber.disabled = true;
+      scrubber.max = String(this.recorder.getFrameCount());
+      scrubber.value = scrubber.max;
+      this.setReplayFrameText(this.recorder.getFrameCount());
+      playButton.textContent = '回放';
+      exitButton.style.display = 'none';
+    }
+  }
+
+  /**
+   * 显示录像进度（步数和时间）
+   */
+  private setReplayFrameText(frame: number): void {
+    const frameElement = document.getElementById('replay-frame');
+    if (frameElement) {
+      const seconds = frame * this.simulation.getFixedDeltaTime();
+      const recording = !this.replayPlayer && this.recorder.isRecording() ? ' ●' : '';
+      frameElement.textContent = `${frame} (${seconds.toFixed(1)}s)${recording}`;
+    }
+  }
+
+  /**
+   * 显示录像操作结果
+   */
+  private setReplayStatus(message: string): void {
+    const statusElement = document.getElementById('replay-status');
+    if (statusElement) {
+      statusElement.textContent = message;
+    }
+  }
+
   /**
    * 更新HUD显示
    */
   private updateHUD(): void {
+    const fpsElement = document.getElementById('fps');
+    const seedElement = document.getElementById('seed');
     const scoreElement = document.getElementById('score');
     const weaponElement = document.getElementById('weapon');
     const ammoElement = document.getElementById('ammo');
+    const meleeElement = document.getElementById('melee');
+    const armorElement = document.getElementById('armor');
+    const moneyElement = document.getElementById('money');
+    const powerUpsElement = document.getElementById('power-ups');
+    const wantedElement = document.getElementById('wanted');
+    const missionElement = document.getElementById('mission');
+    const player = this.simulation.getPlayer();
+
+    if (fpsElement) {
+      fpsElement.textContent = `FPS: ${this.fps}`;
+    }
+
+    if (seedElement) {
+      seedElement.textContent = `种子: ${this.simulation.getSeed()}`;
+    }
 
     if (scoreElement) {
-      scoreElement.textContent = `得分: ${this.score}`;
+      scoreElement.textContent = `得分: ${this.simulation.getScore()}`;
     }
 
     if (weaponElement) {
-      const weapon = this.player.getWeapon();
+      const weapon = player.getWeapon();
       const weaponName = weapon.getName();
-      const isReloading = this.player.isReloading() ? ' [装弹中]' : '';
+      const isReloading = player.isReloading() ? ' [装弹中]' : '';
       weaponElement.textContent = `武器: ${weaponName}${isReloading}`;
     }
 
     if (ammoElement) {
-      const weapon = this.player.getWeapon();
+      const weapon = player.getWeapon();
       const currentAmmo = weapon.getCurrentAmmo();
       const reserveAmmo = weapon.getReserveAmmo();
       ammoElement.textContent = `弹药: ${currentAmmo}/${reserveAmmo}`;
     }
 
+    if (meleeElement) {
+      const meleeWeapon = player.getMeleeWeapon();
+      const charging = meleeWeapon.isCharging() ? ' [蓄力中]' : '';
+      meleeElement.textContent = `近战: ${meleeWeapon.getName()}${charging}`;
+    }
+
+    if (armorElement) {
+      armorElement.textContent = `护甲: ${Math.ceil(player.getArmor())}`;
+    }
+
+    if (moneyElement) {
+      moneyElement.textContent = `现金: $${player.getMoney()}`;
+    }
+
+    if (powerUpsElement) {
+      // 显示生效中的加成及剩余秒数
+      const powerUps = player.getActivePowerUps(this.simulation.getSimulationTime());
+      powerUpsElement.textContent = powerUps
+        .map(powerUp => {
+          const config = pickupRegistry.getAll().find(pickup => pickup.powerUp === powerUp.type);
+          return `${config ? config.name : powerUp.type} ${Math.ceil(powerUp.remaining)}s`;
+        })
+        .join(' | ');
+    }
+
+    if (wantedElement) {
+      const wantedSystem = this.simulation.getWantedSystem();
+      const level = wantedSystem.getLevel();
+      const maxLevel = wantedSystem.getMaxLevel();
+      wantedElement.textContent = `通缉: ${'★'.repeat(level)}${'☆'.repeat(maxLevel - level)}`;
+      // 警察搜索中（未看到玩家）时星星变灰
+      wantedElement.style.color = wantedSystem.isSearching() ? '#888888' : level > 0 ? '#ffd700' : '';
+    }
+
+    if (missionElement) {
+      // 显示当前任务目标和剩余时间
+      const missionManager = this.simulation.getMissionManager();
+      const active = missionManager.getActiveMission();
+      const objective = missionManager.getCurrentObjective();
+      const remaining = missionManager.getTimeRemaining();
+      const timer = remaining !== null ? ` (${Math.ceil(remaining)}s)` : '';
+      missionElement.textContent = active && objective ? `任务 ${active.mission.name}: ${objective.text}${timer}` : '';
+    }
+
     // 更新控制提示
     this.updateControlsDisplay();
+
+    // 更新录像面板
+    this.updateReplayPanel();
   }
 
   /**
@@ -711,7 +895,7 @@ export class Game {
       return;
     }
 
-    if (this.player.isInVehicle()) {
+    if (this.simulation.getPlayer().isInVehicle()) {
       // 驾驶模式
       walkingControls.style.display = 'none';
       drivingControls.style.display = 'block';
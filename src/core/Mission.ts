@@ -0,0 +1,587 @@
+import { Vector2 } from '../utils/Vector2';
+import { DataReader } from '../utils/DataReader';
+import { Player } from '../entities/Player';
+import { NPCManager } from '../entities/NPCManager';
+import { VehicleManager } from '../entities/Vehicle';
+import { npcArchetypeRegistry } from '../entities/NPCArchetype';
+import { vehicleArchetypeRegistry } from '../entities/VehicleArchetype';
+import { GameMap } from '../world/Map';
+import { WantedSystem } from './Wanted';
+import missionDefinitions from '../data/missions.json';
+
+/**
+ * 任务目标类型
+ */
+export enum ObjectiveType {
+  GO_TO = 'go_to', // 到达触发区域
+  KILL = 'kill', // 杀死目标NPC
+  STEAL_VEHICLE = 'steal_vehicle', // 坐进指定车辆
+  DELIVER_VEHICLE = 'deliver_vehicle', // 把偷到的车开进触发区域
+  SURVIVE = 'survive' // 坚持指定时间
+}
+
+/**
+ * 圆形触发区域
+ */
+export interface TriggerZone {
+  position: Vector2;
+  radius: number;
+}
+
+/**
+ * 点是否在触发区域内
+ */
+export function isInTriggerZone(zone: TriggerZone, point: Vector2): boolean {
+  return zone.position.distance(point) <= zone.radius;
+}
+
+/**
+ * 任务目标定义
+ */
+export interface ObjectiveConfig {
+  type: ObjectiveType;
+  text: string; // HUD上显示的目标说明
+  position: Vector2 | null; // 触发区域中心或目标生成位置（坚持目标为null）
+  radius: number; // 触发区域半径
+  archetype: string | null; // 目标NPC或车辆的原型（仅杀死目标、偷车）
+  rotation: number; // 目标车辆朝向（仅偷车）
+  color: string | null; // 目标车辆颜色（仅偷车，null表示默认颜色）
+  duration: number; // 需要坚持的时间（秒，仅坚持目标）
+  wantedLevel: number; // 目标开始时至少提升到的通缉星级
+}
+
+/**
+ * 任务定义（从JSON加载）
+ */
+export interface MissionConfig {
+  id: string;
+  name: string;
+  requires: string | null; // 需要先完成的任务
+  marker: Vector2; // 起始标记位置
+  reward: number; // 完成奖励（现金）
+  timeLimit: number | null; // 整个任务的时间限制（秒，null表示不限时）
+  objectives: ObjectiveConfig[];
+}
+
+/**
+ * 任务注册表 - 加载并检查任务定义
+ */
+export class MissionRegistry {
+  private configs: Map<string, MissionConfig> = new Map();
+
+  constructor(definitions: unknown) {
+    if (!Array.isArray(definitions)) {
+      throw new Error('Mission definitions must be an array');
+    }
+
+    for (const definition of definitions) {
+      const config = this.parseDefinition(definition);
+      if (this.configs.has(config.id)) {
+        throw new Error(`Duplicate mission id ${config.id}`);
+      }
+      this.configs.set(config.id, config);
+    }
+
+    // 前置任务必须存在，且不能形成循环
+    for (const config of this.configs.values()) {
+      const visited = new Set<string>([config.id]);
+      let required = config.requires;
+      while (required !== null) {
+        const requiredConfig = this.configs.get(required);
+        if (!requiredConfig) {
+          throw new Error(`Mission ${config.id} requires unknown mission ${required}`);
+        }
+        if (visited.has(required)) {
+          throw new Error(`Mission ${config.id} has circular requirements`);
+        }
+        visited.add(required);
+        required = requiredConfig.requires;
+      }
+    }
+  }
+
+  /**
+   * 检查并补全单个任务定义
+   */
+  private parseDefinition(raw: unknown): MissionConfig {
+    const reader = DataReader.forDefinition(raw, 'Mission');
+    const id = reader.string('id');
+
+    const objectives = reader.array('objectives', true).map(objective => this.parseObjective(id, objective));
+    // 送车目标送的是本任务之前偷到的车
+    objectives.forEach((objective, index) => {
+      const stolenBefore = objectives.slice(0, index).some(previous => previous.type === ObjectiveType.STEAL_VEHICLE);
+      if (objective.type === ObjectiveType.DELIVER_VEHICLE && !stolenBefore) {
+        reader.fail('delivers a vehicle before stealing one');
+      }
+    });
+
+    const marker = reader.point('marker');
+    return {
+      id,
+      name: reader.string('name'),
+      requires: reader.optionalString('requires') ?? null,
+      marker: new Vector2(marker.x, marker.y),
+      reward: reader.number('reward', { min: 0, integer: true }),
+      timeLimit: reader.optionalNumber('timeLimit', { positive: true }) ?? null,
+      objectives
+    };
+  }
+
+  /**
+   * 检查并补全单个任务目标定义
+   */
+  private parseObjective(missionId: string, raw: unknown): ObjectiveConfig {
+    const reader = new DataReader(raw, `Mission ${missionId} objective`);
+    const type = reader.enumValue('type', ObjectiveType);
+
+    const text = reader.string('text');
+    if (text === '') {
+      reader.fail('has empty text');
+    }
+    // 只有坚持目标可以省略位置
+    const position = type === ObjectiveType.SURVIVE ? reader.optionalPoint('position') : reader.point('position');
+    const needsZone = type === ObjectiveType.GO_TO || type === ObjectiveType.DELIVER_VEHICLE;
+
+    // 杀死目标使用NPC原型，偷车目标使用车辆原型
+    let archetype: string | null = null;
+    if (type === ObjectiveType.KILL || type === ObjectiveType.STEAL_VEHICLE) {
+      archetype = reader.optionalString('archetype') ?? null;
+      const registry = type === ObjectiveType.KILL ? npcArchetypeRegistry : vehicleArchetypeRegistry;
+      if (archetype !== null && !registry.has(archetype)) {
+        reader.fail(`has unknown archetype ${archetype}`);
+      }
+    }
+
+    return {
+      type,
+      text,
+      position: position ? new Vector2(position.x, position.y) : null,
+      radius: needsZone ? reader.number('radius', { positive: true }) : reader.optionalNumber('radius') ?? 0,
+      archetype,
+      rotation: reader.optionalNumber('rotation') ?? 0,
+      color: reader.optionalString('color') ?? null,
+      duration: type === ObjectiveType.SURVIVE
+        ? reader.number('duration', { positive: true })
+        : reader.optionalNumber('duration') ?? 0,
+      wantedLevel: reader.optionalNumber('wantedLevel', { min: 0, integer: true }) ?? 0
+    };
+  }
+
+  /**
+   * 是否存在该任务
+   */
+  has(id: string): boolean {
+    return this.configs.has(id);
+  }
+
+  /**
+   * 获取任务定义
+   */
+  get(id: string): MissionConfig {
+    const config = this.configs.get(id);
+    if (!config) {
+      throw new Error(`Unknown mission ${id}`);
+    }
+    return config;
+  }
+
+  /**
+   * 获取所有任务定义（按JSON中的顺序）
+   */
+  getAll(): MissionConfig[] {
+    return Array.from(this.configs.values());
+  }
+}
+
+/**
+ * 全局任务注册表
+ */
+export const missionRegistry = new MissionRegistry(missionDefinitions);
+
+/**
+ * 任务系统访问游戏世界的接口（由Simulation实现）
+ */
+export interface MissionWorld {
+  getPlayer(): Player;
+  getNPCManager(): NPCManager;
+  getVehicleManager(): VehicleManager;
+  getWantedSystem(): WantedSystem;
+  getGameMap(): GameMap;
+  getFlag(name: string): boolean | number | string | undefined;
+  setFlag(name: string, value: boolean | number | string): void;
+}
+
+/**
+ * 地图上可以开始的任务
+ */
+export interface MissionMarker {
+  mission: MissionConfig;
+  position: Vector2;
+}
+
+/**
+ * 进行中的任务
+ */
+export interface ActiveMission {
+  mission: MissionConfig;
+  objectiveIndex: number; // 当前目标序号
+  elapsed: number; // 任务已进行的时间（秒）
+  objectiveElapsed: number; // 当前目标已进行的时间（秒）
+  objectivePosition: Vector2 | null; // 当前目标的实际位置（已避开建筑物）
+  targetNPCId: string | null; // 当前要杀死的NPC
+  vehicleId: string | null; // 偷到（或要偷）的任务车辆
+}
+
+/**
+ * 任务结束的结果（在HUD上显示一段时间）
+ */
+export interface MissionResult {
+  mission: MissionConfig;
+  passed: boolean;
+  message: string;
+}
+
+/**
+ * 目标检查结果
+ */
+enum ObjectiveStatus {
+  PENDING,
+  COMPLETE,
+  FAILED
+}
+
+/**
+ * 任务管理器 - 从起始标记开始任务，按顺序推进目标，处理成功和失败
+ */
+export class MissionManager {
+  private active: ActiveMission | null = null;
+  private failReason: string = ''; // 当前目标失败的原因
+  private markers: MissionMarker[] = []; // 当前可以开始的任务标记
+  private markerPositions: Map<string, Vector2> = new Map(); // 任务ID -> 已避开建筑物的标记位置
+  private markerRadius: number = 20; // 走进标记多近开始任务
+  private blockedMarkerId: string | null = null; // 任务刚结束时玩家所站的标记（离开后才能再次触发）
+  private result: MissionResult | null = null;
+  private resultTimer: number = 0; // 结果剩余显示时间（秒）
+  private resultDuration: number = 4;
+  private walkableSearchRadius: number = 8; // 任务位置落在建筑物内时，向外寻找空地的范围（瓦片）
+
+  /**
+   * 获取任务完成标记的名称
+   */
+  static getCompletedFlag(missionId: string): string {
+    return `mission_${missionId}_done`;
+  }
+
+  /**
+   * 更新任务系统
+   */
+  update(deltaTime: number, world: MissionWorld): void {
+    if (this.resultTimer > 0) {
+      this.resultTimer -= deltaTime;
+      if (this.resultTimer <= 0) {
+        this.result = null;
+      }
+    }
+
+    const playerPos = world.getPlayer().getPosition();
+    this.markers = this.active ? [] : this.findAvailableMarkers(world);
+
+    if (!this.active) {
+      const marker = this.markers.find(candidate => candidate.position.distance(playerPos) <= this.markerRadius);
+      if (!marker) {
+        this.blockedMarkerId = null;
+      } else if (marker.mission.id !== this.blockedMarkerId) {
+        this.startMission(marker.mission, world);
+      }
+      return;
+    }
+
+    const active = this.active;
+    active.elapsed += deltaTime;
+    active.objectiveElapsed += deltaTime;
+
+    if (world.getPlayer().getIsDead()) {
+      this.failMission('你死了', world);
+      return;
+    }
+    if (active.mission.timeLimit !== null && active.elapsed >= active.mission.timeLimit) {
+      this.failMission('时间到了', world);
+      return;
+    }
+
+    // 一步内可以连续完成多个目标（如同时满足的到达条件）
+    let status = this.checkObjective(world);
+    while (status === ObjectiveStatus.COMPLETE) {
+      if (active.objectiveIndex + 1 >= active.mission.objectives.length) {
+        this.passMission(world);
+        return;
+      }
+      active.objectiveIndex++;
+      this.enterObjective(world);
+      status = this.checkObjective(world);
+    }
+    if (status === ObjectiveStatus.FAILED) {
+      this.failMission(this.failReason, world);
+    }
+  }
+
+  /**
+   * 找出前置任务已完成、自身尚未完成的任务标记
+   */
+  private findAvailableMarkers(world: MissionWorld): MissionMarker[] {
+    return missionRegistry
+      .getAll()
+      .filter(mission =>
+        world.getFlag(MissionManager.getCompletedFlag(mission.id)) !== true &&
+        (mission.requires === null || world.getFlag(MissionManager.getCompletedFlag(mission.requires)) === true)
+      )
+      .map(mission => {
+        let position = this.markerPositions.get(mission.id);
+        if (!position) {
+          position = this.resolvePosition(mission.marker, world);
+          this.markerPositions.set(mission.id, position);
+        }
+        return { mission, position };
+      });
+  }
+
+  /**
+   * 把定义中的位置挪到最近的可行走处（城市由种子生成，固定坐标可能落在建筑物内）
+   */
+  private resolvePosition(position: Vector2, world: MissionWorld): Vector2 {
+    return world.getGameMap().getPathfinder().findNearestWalkable(position, this.walkableSearchRadius) ?? position.clone();
+  }
+
+  /**
+   * 开始任务
+   */
+  private startMission(mission: MissionConfig, world: MissionWorld): void {
+    this.active = {
+      mission,
+      objectiveIndex: 0,
+      elapsed: 0,
+      objectiveElapsed: 0,
+      objectivePosition: null,
+      targetNPCId: null,
+      vehicleId: null
+    };
+    this.result = null;
+    this.resultTimer = 0;
+    this.markers = [];
+    this.enterObjective(world);
+  }
+
+  /**
+   * 进入当前目标：生成目标NPC或车辆，提升通缉等级
+   */
+  private enterObjective(world: MissionWorld): void {
+    const active = this.active!;
+    const objective = active.mission.objectives[active.objectiveIndex];
+    active.objectiveElapsed = 0;
+    active.objectivePosition = objective.position ? this.resolvePosition(objective.position, world) : null;
+
+    if (objective.wantedLevel > 0) {
+      world.getWantedSystem().raiseTo(objective.wantedLevel, world.getPlayer().getPosition());
+    }
+
+    if (objective.type === ObjectiveType.KILL) {
+      const npcManager = world.getNPCManager();
+      const npc = npcManager.spawnNPC(active.objectivePosition!, objective.archetype ?? undefined);
+      npcManager.setPersistent(npc.getId(), true);
+      active.targetNPCId = npc.getId();
+    } else if (objective.type === ObjectiveType.STEAL_VEHICLE) {
+      // 任务只跟踪最后一辆要偷的车
+      this.releaseVehicle(world);
+      const vehicleManager = world.getVehicleManager();
+      const vehicle = vehicleManager.addVehicle(active.objectivePosition!, objective.rotation, objective.archetype ?? undefined);
+      if (objective.color) {
+        vehicle.setColor(objective.color);
+      }
+      vehicleManager.setPersistent(vehicle.getId(), true);
+      active.vehicleId = vehicle.getId();
+    }
+  }
+
+  /**
+   * 检查当前目标的进度
+   */
+  private checkObjective(world: MissionWorld): ObjectiveStatus {
+    const active = this.active!;
+    const objective = active.mission.objectives[active.objectiveIndex];
+    const player = world.getPlayer();
+
+    switch (objective.type) {
+      case ObjectiveType.GO_TO:
+        return isInTriggerZone({ position: active.objectivePosition!, radius: objective.radius }, player.getPosition())
+          ? ObjectiveStatus.COMPLETE
+          : ObjectiveStatus.PENDING;
+
+      case ObjectiveType.KILL: {
+        // 死亡的NPC会被移除，找不到即视为已被杀死（常驻NPC不会因距离消失）
+        const npc = active.targetNPCId ? world.getNPCManager().getNPC(active.targetNPCId) : undefined;
+        if (!npc || npc.getIsDead()) {
+          active.targetNPCId = null;
+          return ObjectiveStatus.COMPLETE;
+        }
+        return ObjectiveStatus.PENDING;
+      }
+
+      case ObjectiveType.STEAL_VEHICLE:
+      case ObjectiveType.DELIVER_VEHICLE: {
+        const vehicle = active.vehicleId ? world.getVehicleManager().getVehicle(active.vehicleId) : undefined;
+        if (!vehicle || vehicle.getIsDead()) {
+          this.failReason = '任务车辆被摧毁';
+          return ObjectiveStatus.FAILED;
+        }
+        if (player.getCurrentVehicle() !== vehicle) {
+          return ObjectiveStatus.PENDING;
+        }
+        if (objective.type === ObjectiveType.STEAL_VEHICLE) {
+          return ObjectiveStatus.COMPLETE;
+        }
+        return isInTriggerZone({ position: active.objectivePosition!, radius: objective.radius }, vehicle.getPosition())
+          ? ObjectiveStatus.COMPLETE
+          : ObjectiveStatus.PENDING;
+      }
+
+      case ObjectiveType.SURVIVE:
+        return active.objectiveElapsed >= objective.duration ? ObjectiveStatus.COMPLETE : ObjectiveStatus.PENDING;
+    }
+  }
+
+  /**
+   * 任务成功：发放奖励并记录完成标记
+   */
+  private passMission(world: MissionWorld): void {
+    const mission = this.active!.mission;
+    world.getPlayer().addMoney(mission.reward);
+    world.setFlag(MissionManager.getCompletedFlag(mission.id), true);
+    this.endMission(world, { mission, passed: true, message: `任务完成: ${mission.name} +$${mission.reward}` });
+  }
+
+  /**
+   * 任务失败（可以回到标记重新开始）
+   */
+  private failMission(reason: string, world: MissionWorld): void {
+    const mission = this.active!.mission;
+    this.endMission(world, { mission, passed: false, message: `任务失败: ${reason}` });
+  }
+
+  /**
+   * 结束任务，让任务生成的NPC和车辆恢复为普通实体
+   */
+  private endMission(world: MissionWorld, result: MissionResult): void {
+    const active = this.active!;
+    if (active.targetNPCId) {
+      world.getNPCManager().setPersistent(active.targetNPCId, false);
+    }
+    this.releaseVehicle(world);
+
+    this.active = null;
+    this.result = result;
+    this.resultTimer = this.resultDuration;
+
+    // 玩家站在标记上结束任务时，需要先离开才能再次触发
+    const markerPosition = this.markerPositions.get(result.mission.id);
+    const onMarker = markerPosition && markerPosition.distance(world.getPlayer().getPosition()) <= this.markerRadius;
+    this.blockedMarkerId = onMarker ? result.mission.id : null;
+  }
+
+  /**
+   * 取消任务车辆的常驻
+   */
+  private releaseVehicle(world: MissionWorld): void {
+    if (this.active && this.active.vehicleId) {
+      world.getVehicleManager().setPersistent(this.active.vehicleId, false);
+      this.active.vehicleId = null;
+    }
+  }
+
+  /**
+   * 放弃进行中的任务并清空状态（重新开始、读档用；任务进度不保存，完成标记随存档保存）
+   */
+  reset(): void {
+    this.active = null;
+    this.failReason = '';
+    this.markers = [];
+    this.markerPositions.clear();
+    this.blockedMarkerId = null;
+    this.result = null;
+    this.resultTimer = 0;
+  }
+
+  /**
+   * 获取进行中的任务
+   */
+  getActiveMission(): ActiveMission | null {
+    return this.active;
+  }
+
+  /**
+   * 获取当前目标定义
+   */
+  getCurrentObjective(): ObjectiveConfig | null {
+    return this.active ? this.active.mission.objectives[this.active.objectiveIndex] : null;
+  }
+
+  /**
+   * 获取玩家当前应该前往的位置（目标NPC、任务车辆或触发区域，坚持目标返回null）
+   */
+  getObjectiveTarget(world: MissionWorld): Vector2 | null {
+    const objective = this.getCurrentObjective();
+    if (!this.active || !objective) {
+      return null;
+    }
+
+    switch (objective.type) {
+      case ObjectiveType.KILL: {
+        const npc = this.active.targetNPCId ? world.getNPCManager().getNPC(this.active.targetNPCId) : undefined;
+        return npc ? npc.getPosition() : null;
+      }
+      case ObjectiveType.STEAL_VEHICLE:
+      case ObjectiveType.DELIVER_VEHICLE: {
+        // 还没坐进任务车辆时先指向车辆
+        const vehicle = this.active.vehicleId ? world.getVehicleManager().getVehicle(this.active.vehicleId) : undefined;
+        if (vehicle && (objective.type === ObjectiveType.STEAL_VEHICLE || world.getPlayer().getCurrentVehicle() !== vehicle)) {
+          return vehicle.getPosition();
+        }
+        return this.active.objectivePosition;
+      }
+      default:
+        return this.active.objectivePosition;
+    }
+  }
+
+  /**
+   * 获取当前目标的剩余时间（取任务时限和坚持时间中较短的，不限时返回null）
+   */
+  getTimeRemaining(): number | null {
+    const objective = this.getCurrentObjective();
+    if (!this.active || !objective) {
+      return null;
+    }
+    const remaining: number[] = [];
+    if (this.active.mission.timeLimit !== null) {
+      remaining.push(this.active.mission.timeLimit - this.active.elapsed);
+    }
+    if (objective.type === ObjectiveType.SURVIVE) {
+      remaining.push(objective.duration - this.active.objectiveElapsed);
+    }
+    return remaining.length > 0 ? Math.max(0, Math.min(...remaining)) : null;
+  }
+
+  /**
+   * 获取当前可以开始的任务标记
+   */
+  getMarkers(): MissionMarker[] {
+    return this.markers;
+  }
+
+  /**
+   * 获取最近结束的任务结果（显示时间结束后为null）
+   */
+  getResult(): MissionResult | null {
+    return this.result;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Simulation, InputCommand, createIdleInput } from './Simulation';
+import { InputRecorder, ReplayPlayer, parseReplayData } from './Replay';
+
+/**
+ * 录制用的输入脚本：步行、边走边开枪、按交互键、斜向来回折返
+ */
+function scriptedInput(frame: number): InputCommand {
+  const input = createIdleInput({ x: 400, y: 40 });
+  if (frame < 120) {
+    input.movement = { x: 1, y: 0 };
+  } else if (frame < 300) {
+    input.movement = { x: 0, y: 1 };
+    input.fireHeld = true;
+    input.firePressed = frame === 120;
+  } else if (frame === 300) {
+    input.interact = true;
+  } else if (frame < 700) {
+    input.movement = { x: frame % 200 < 100 ? 1 : -1, y: -1 };
+  }
+  return input;
+}
+
+/**
+ * 获取用于比较的模拟结果
+ */
+function snapshot(simulation: Simulation): { x: number; y: number; health: number; score: number } {
+  const player = simulation.getPlayer();
+  return {
+    x: player.getPosition().x,
+    y: player.getPosition().y,
+    health: player.getHealth(),
+    score: simulation.getScore()
+  };
+}
+
+describe('Replay', () => {
+  const seed = 12345;
+  const frameCount = 900;
+
+  // 边录制边模拟，并经过JSON导出和导入
+  const recorder = new InputRecorder();
+  const recorded = new Simulation(seed);
+  recorder.start(seed);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const input = scriptedInput(frame);
+    recorder.record(input);
+    recorded.step(input);
+  }
+  const replayData = parseReplayData(JSON.parse(JSON.stringify(recorder.toReplayData())));
+
+  it('回放录像得到与录制时相同的玩家位置、血量和得分', () => {
+    const replay = new ReplayPlayer(replayData);
+    while (replay.step()) {
+      // 逐步回放到结尾
+    }
+
+    expect(replay.getFrame()).toBe(frameCount);
+    expect(snapshot(replay.getSimulation())).toEqual(snapshot(recorded));
+  });
+
+  it('倒退跳转后重新模拟到结尾，结果不变', () => {
+    const replay = new ReplayPlayer(replayData);
+    replay.seek(frameCount / 2);
+    replay.seek(frameCount / 4);
+    replay.seek(frameCount);
+
+    expect(snapshot(replay.getSimulation())).toEqual(snapshot(recorded));
+  });
+});
@@ -0,0 +1,329 @@
+import { WeaponType, weaponRegistry } from '../entities/Weapon';
+import { Simulation, InputCommand } from './Simulation';
+import { MenuAction } from './Shop';
+import { isFiniteNumber, isRecord } from '../utils/TypeGuards';
+
+/**
+ * 当前录像格式版本
+ */
+export const REPLAY_VERSION = 1;
+
+/**
+ * 一段连续相同的输入：[帧数, 按键位, 移动X, 移动Y, 瞄准X, 瞄准Y, 切换武器]
+ */
+export type ReplayRun = [number, number, number, number, number, number, WeaponType | null];
+
+/**
+ * 录像数据（世界种子 + 每一步的输入，用游程编码压缩）
+ */
+export interface ReplayData {
+  version: typeof REPLAY_VERSION;
+  recordedAt: string; // 录制时间（ISO格式）
+  seed: number; // 世界种子
+  hardcore: boolean; // 是否为硬核模式（缺省为false）
+  frameCount: number; // 总步数
+  runs: ReplayRun[];
+}
+
+/**
+ * 输入中各按键在按键位中的位置
+ */
+enum InputBit {
+  FIRE_HELD = 1,
+  FIRE_PRESSED = 2,
+  RELOAD = 4,
+  INTERACT = 8,
+  RESTART = 16,
+  MELEE_HELD = 32,
+  MELEE_PRESSED = 64,
+  MENU_UP = 128,
+  MENU_DOWN = 256,
+  MENU_SELECT = 512,
+  MENU_CLOSE = 1024,
+  HANDBRAKE = 2048
+}
+
+/**
+ * 商店菜单操作对应的按键位
+ */
+const menuBits: [MenuAction, InputBit][] = [
+  [MenuAction.UP, InputBit.MENU_UP],
+  [MenuAction.DOWN, InputBit.MENU_DOWN],
+  [MenuAction.SELECT, InputBit.MENU_SELECT],
+  [MenuAction.CLOSE, InputBit.MENU_CLOSE]
+];
+
+/**
+ * 将输入编码为一段长度为1的游程
+ */
+function encodeInput(input: InputCommand): ReplayRun {
+  let buttons = 0;
+  if (input.fireHeld) buttons |= InputBit.FIRE_HELD;
+  if (input.firePressed) buttons |= InputBit.FIRE_PRESSED;
+  if (input.reload) buttons |= InputBit.RELOAD;
+  if (input.interact) buttons |= InputBit.INTERACT;
+  if (input.restart) buttons |= InputBit.RESTART;
+  if (input.meleeHeld) buttons |= InputBit.MELEE_HELD;
+  if (input.meleePressed) buttons |= InputBit.MELEE_PRESSED;
+  if (input.handbrake) buttons |= InputBit.HANDBRAKE;
+  for (const [action, bit] of menuBits) {
+    if (input.menu === action) buttons |= bit;
+  }
+  return [1, buttons, input.movement.x, input.movement.y, input.aim.x, input.aim.y, input.switchWeapon];
+}
+
+/**
+ * 将游程还原为输入
+ */
+function decodeInput(run: ReplayRun): InputCommand {
+  const [, buttons, moveX, moveY, aimX, aimY, switchWeapon] = run;
+  const menuBit = menuBits.find(([, bit]) => (buttons & bit) !== 0);
+  return {
+    movement: { x: moveX, y: moveY },
+    aim: { x: aimX, y: aimY },
+    fireHeld: (buttons & InputBit.FIRE_HELD) !== 0,
+    firePressed: (buttons & InputBit.FIRE_PRESSED) !== 0,
+    meleeHeld: (buttons & InputBit.MELEE_HELD) !== 0,
+    meleePressed: (buttons & InputBit.MELEE_PRESSED) !== 0,
+    reload: (buttons & InputBit.RELOAD) !== 0,
+    switchWeapon,
+    interact: (buttons & InputBit.INTERACT) !== 0,
+    restart: (buttons & InputBit.RESTART) !== 0,
+    menu: menuBit ? menuBit[0] : null,
+    handbrake: (buttons & InputBit.HANDBRAKE) !== 0
+  };
+}
+
+/**
+ * 两段游程的输入是否相同（不比较帧数）
+ */
+function isSameInput(a: ReplayRun, b: ReplayRun): boolean {
+  for (let i = 1; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * 是否为合法的游程（帧数为正整数，按键和坐标为有限数值，切换武器为null或已注册的武器）
+ */
+function isReplayRun(value: unknown): value is ReplayRun {
+  if (!Array.isArray(value) || value.length !== 7) {
+    return false;
+  }
+  const [frames, ...rest] = value;
+  const switchWeapon: unknown = rest.pop();
+  return (
+    Number.isInteger(frames) && frames >= 1 &&
+    rest.every(isFiniteNumber) &&
+    (switchWeapon === null || (typeof switchWeapon === 'string' && weaponRegistry.has(switchWeapon)))
+  );
+}
+
+/**
+ * 检查录像数据的版本和必需字段
+ */
+export function parseReplayData(raw: unknown): ReplayData {
+  if (!isRecord(raw)) {
+    throw new Error('Replay data is not an object');
+  }
+  if (raw.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${String(raw.version)}`);
+  }
+  const { recordedAt, seed, hardcore, frameCount, runs } = raw;
+  if (typeof recordedAt !== 'string' || !isFiniteNumber(seed) || !isFiniteNumber(frameCount) || !Array.isArray(runs)) {
+    throw new Error('Replay data is missing recordedAt, seed, frameCount or runs');
+  }
+
+  let total = 0;
+  runs.forEach((run, index) => {
+    if (!isReplayRun(run)) {
+      throw new Error(`Replay data has an invalid run at index ${index}`);
+    }
+    total += run[0];
+  });
+  if (total !== frameCount) {
+    throw new Error(`Replay runs cover ${total} frames but frameCount is ${frameCount}`);
+  }
+  if (hardcore !== undefined && typeof hardcore !== 'boolean') {
+    throw new Error('Replay data has invalid hardcore flag');
+  }
+
+  return { version: REPLAY_VERSION, recordedAt, seed, hardcore: hardcore ?? false, frameCount, runs };
+}
+
+/**
+ * 导出录像为JSON文件
+ */
+export function exportReplayToFile(data: ReplayData, fileName: string = `gta-replay-${data.seed}.json`): void {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 从JSON文件导入录像
+ */
+export async function importReplayFromFile(file: File): Promise<ReplayData> {
+  const json = await file.text();
+  return parseReplayData(JSON.parse(json));
+}
+
+/**
+ * 输入录制器 - 从模拟第0步开始记录每一步的输入
+ */
+export class InputRecorder {
+  private seed: number = 0;
+  private hardcore: boolean = false;
+  private runs: ReplayRun[] = [];
+  private frameCount: number = 0;
+  private recording: boolean = false;
+
+  /**
+   * 开始录制（会清除之前的录像）
+   */
+  start(seed: number, hardcore: boolean = false): void {
+    this.seed = seed;
+    this.hardcore = hardcore;
+    this.runs = [];
+    this.frameCount = 0;
+    this.recording = true;
+  }
+
+  /**
+   * 停止录制（已录制的内容仍可导出）
+   */
+  stop(): void {
+    this.recording = false;
+  }
+
+  /**
+   * 是否正在录制
+   */
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * 获取已录制的步数
+   */
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  /**
+   * 记录一步的输入
+   */
+  record(input: InputCommand): void {
+    if (!this.recording) {
+      return;
+    }
+
+    const run = encodeInput(input);
+    const last = this.runs[this.runs.length - 1];
+    if (last && isSameInput(last, run)) {
+      last[0]++;
+    } else {
+      this.runs.push(run);
+    }
+    this.frameCount++;
+  }
+
+  /**
+   * 生成录像数据
+   */
+  toReplayData(): ReplayData {
+    return {
+      version: REPLAY_VERSION,
+      recordedAt: new Date().toISOString(),
+      seed: this.seed,
+      hardcore: this.hardcore,
+      frameCount: this.frameCount,
+      runs: this.runs.map(run => [...run] as ReplayRun)
+    };
+  }
+}
+
+/**
+ * 录像播放器 - 用录像中的种子创建模拟，并逐步回放输入
+ */
+export class ReplayPlayer {
+  private data: ReplayData;
+  private simulation: Simulation;
+  private runIndex: number = 0; // 下一步输入所在的游程
+  private runOffset: number = 0; // 下一步输入在游程中的位置
+
+  constructor(data: ReplayData) {
+    this.data = data;
+    this.simulation = new Simulation(data.seed, data.hardcore);
+  }
+
+  /**
+   * 获取回放中的模拟（倒退跳转后会换成新的实例）
+   */
+  getSimulation(): Simulation {
+    return this.simulation;
+  }
+
+  /**
+   * 获取当前步数
+   */
+  getFrame(): number {
+    return this.simulation.getFrame();
+  }
+
+  /**
+   * 获取录像总步数
+   */
+  getFrameCount(): number {
+    return this.data.frameCount;
+  }
+
+  /**
+   * 是否已播放完毕
+   */
+  isFinished(): boolean {
+    return this.getFrame() >= this.data.frameCount;
+  }
+
+  /**
+   * 回放一步，已播放完毕时返回false
+   */
+  step(): boolean {
+    if (this.isFinished()) {
+      return false;
+    }
+
+    const run = this.data.runs[this.runIndex];
+    this.simulation.step(decodeInput(run));
+
+    this.runOffset++;
+    if (this.runOffset >= run[0]) {
+      this.runIndex++;
+      this.runOffset = 0;
+    }
+    return true;
+  }
+
+  /**
+   * 跳转到指定步（倒退时从第0步重新模拟）
+   */
+  seek(frame: number): void {
+    const target = Math.max(0, Math.min(this.data.frameCount, Math.floor(frame)));
+    if (target < this.getFrame()) {
+      this.simulation = new Simulation(this.data.seed, this.data.hardcore);
+      this.runIndex = 0;
+      this.runOffset = 0;
+    }
+
+    while (this.getFrame() < target) {
+      this.step();
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { SAVE_VERSION, SaveData, migrateSaveData } from './SaveGame';
+
+/**
+ * 创建一份当前版本的存档（经过JSON，与localStorage中读出的一致）
+ */
+function createSave(): SaveData {
+  return JSON.parse(JSON.stringify({
+    version: SAVE_VERSION,
+    savedAt: '2024-01-01T00:00:00.000Z',
+    seed: 12345,
+    randomState: 678,
+    simulationTime: 42.5,
+    score: 3,
+    player: {
+      position: { x: 10, y: -20 },
+      health: 80,
+      armor: 25,
+      money: 150,
+      currentWeapon: 'rifle',
+      weapons: [
+        { type: 'pistol', currentAmmo: 12, reserveAmmo: null },
+        { type: 'rifle', currentAmmo: 30, reserveAmmo: 90 }
+      ],
+      vehicleIndex: 1,
+      meleeWeapon: 'bat'
+    },
+    vehicles: [
+      { position: { x: 100, y: 0 }, rotation: 0, health: 100, color: '#ff0000', archetype: 'bike' },
+      { position: { x: 10, y: -20 }, rotation: 1.5, health: 60, color: '#1e3a8a', archetype: 'police_cruiser' }
+    ],
+    wanted: { level: 2, heat: 35, lastKnownPosition: { x: 5, y: 5 } },
+    flags: { tutorialDone: true, visits: 2, lastShop: 'ammu' }
+  }));
+}
+
+/**
+ * 创建一份版本1的存档（玩家没有近战武器、护甲和现金，车辆只记录是否为警车）
+ */
+function createSaveV1(): unknown {
+  const save = createSave();
+  const { meleeWeapon, armor, money, ...player } = save.player;
+  const vehicles = save.vehicles.map(({ archetype, ...vehicle }) => ({
+    ...vehicle,
+    police: archetype === 'police_cruiser'
+  }));
+  return { ...save, version: 1, player, vehicles };
+}
+
+/**
+ * 修改存档中的字段后读取（用Object.assign写入类型错误的值）
+ */
+function migrateWith(change: (save: SaveData) => void): () => void {
+  const save = createSave();
+  change(save);
+  return () => migrateSaveData(save);
+}
+
+describe('migrateSaveData', () => {
+  it('当前版本的存档原样读取', () => {
+    expect(migrateSaveData(createSave())).toEqual(createSave());
+  });
+
+  it('版本1的存档升级到当前版本，玩家使用默认近战武器，没有护甲和现金', () => {
+    const expected = createSave();
+    Object.assign(expected.player, { meleeWeapon: 'fists', armor: 0, money: 0 });
+    // 旧存档的普通车辆使用默认原型
+    Object.assign(expected.vehicles[0], { archetype: 'sedan' });
+    expect(migrateSaveData(createSaveV1())).toEqual(expected);
+  });
+
+  it('拒绝非对象和缺少版本号的存档', () => {
+    expect(() => migrateSaveData(null)).toThrow('Save data is not an object');
+    expect(() => migrateSaveData([])).toThrow('Save data is not an object');
+    expect(migrateWith(save => Object.assign(save, { version: undefined }))).toThrow('Save data has no version');
+  });
+
+  it('拒绝比当前版本更新的存档', () => {
+    expect(migrateWith(save => Object.assign(save, { version: SAVE_VERSION + 1 })))
+      .toThrow(`Save version ${SAVE_VERSION + 1} is newer than supported version ${SAVE_VERSION}`);
+  });
+
+  it('拒绝未知的武器类型', () => {
+    expect(migrateWith(save => Object.assign(save.player.weapons[1], { type: 'laser' })))
+      .toThrow('unknown weapon type laser');
+    expect(migrateWith(save => Object.assign(save.player, { currentWeapon: 'laser' })))
+      .toThrow('unknown weapon type laser');
+  });
+
+  it('拒绝未知的近战武器类型', () => {
+    expect(migrateWith(save => Object.assign(save.player, { meleeWeapon: 'sword' })))
+      .toThrow('Save data has unknown melee weapon type sword');
+    expect(migrateWith(save => Object.assign(save.player, { meleeWeapon: undefined })))
+      .toThrow('Save data has unknown melee weapon type undefined');
+  });
+
+  it('拒绝未知的车辆原型', () => {
+    expect(migrateWith(save => Object.assign(save.vehicles[0], { archetype: 'tank' })))
+      .toThrow('Save data has unknown vehicle archetype tank');
+    expect(migrateWith(save => Object.assign(save.vehicles[1], { archetype: undefined, police: true })))
+      .toThrow('Save data has unknown vehicle archetype undefined');
+  });
+
+  it('拒绝类型错误的字段', () => {
+    expect(migrateWith(save => Object.assign(save.player, { health: '80' })))
+      .toThrow('Save data has invalid player health');
+    expect(migrateWith(save => Object.assign(save.player, { money: undefined })))
+      .toThrow('Save data has invalid player money');
+    expect(migrateWith(save => Object.assign(save.vehicles[0], { position: { x: 1 } })))
+      .toThrow('Save data has invalid vehicle position');
+    expect(migrateWith(save => Object.assign(save.player.weapons[0], { reserveAmmo: 'infinite' })))
+      .toThrow('Save data has an invalid weapon');
+    expect(migrateWith(save => Object.assign(save.wanted, { lastKnownPosition: 'here' })))
+      .toThrow('Save data has invalid wanted position');
+    expect(migrateWith(save => Object.assign(save, { seed: null }))).toThrow('Save data has invalid seed');
+  });
+
+  it('拒绝不合法的标记取值', () => {
+    expect(migrateWith(save => Object.assign(save.flags, { visits: { count: 2 } })))
+      .toThrow('Save data has invalid value for flag visits');
+    expect(migrateWith(save => Object.assign(save, { flags: [] }))).toThrow('Save data has invalid flags');
+  });
+
+  it('拒绝指向不存在车辆的玩家车辆索引', () => {
+    expect(migrateWith(save => Object.assign(save.player, { vehicleIndex: 2 })))
+      .toThrow('Save data has invalid player vehicleIndex 2');
+    expect(migrateWith(save => Object.assign(save.player, { vehicleIndex: -1 })))
+      .toThrow('Save data has an invalid player');
+  });
+});
@@ -0,0 +1,463 @@
+import { WeaponType, weaponRegistry } from '../entities/Weapon';
+import { MeleeType, meleeRegistry } from '../entities/Melee';
+import { vehicleArchetypeRegistry } from '../entities/VehicleArchetype';
+import { isFiniteNumber, isRecord } from '../utils/TypeGuards';
+
+/**
+ * 当前存档格式版本（修改存档结构时加1，保留旧版本的存档结构，并添加解析和升级函数）
+ */
+export const SAVE_VERSION = 4;
+
+/**
+ * 存档中的坐标
+ */
+export interface SavedPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * 存档中的武器
+ */
+export interface SavedWeapon {
+  type: WeaponType;
+  currentAmmo: number;
+  reserveAmmo: number | null; // null表示无限备弹（JSON无法保存Infinity）
+}
+
+/**
+ * 存档中的玩家
+ */
+export interface SavedPlayer {
+  position: SavedPoint;
+  health: number;
+  armor: number; // 护甲
+  money: number; // 现金
+  currentWeapon: WeaponType;
+  weapons: SavedWeapon[];
+  vehicleIndex: number | null; // 所在车辆在vehicles中的索引
+  meleeWeapon: MeleeType; // 近战武器
+}
+
+/**
+ * 存档中的车辆
+ */
+export interface SavedVehicle {
+  position: SavedPoint;
+  rotation: number;
+  health: number;
+  color: string;
+  archetype: string; // 车辆原型ID
+}
+
+/**
+ * 存档中的通缉状态
+ */
+export interface SavedWanted {
+  level: number;
+  heat: number;
+  lastKnownPosition: SavedPoint | null;
+}
+
+/**
+ * 存档数据
+ */
+export interface SaveData {
+  version: typeof SAVE_VERSION;
+  savedAt: string; // 保存时间（ISO格式）
+  seed: number; // 世界种子
+  randomState: number; // 随机数生成器状态
+  simulationTime: number; // 模拟时钟（秒）
+  score: number;
+  player: SavedPlayer;
+  vehicles: SavedVehicle[];
+  wanted: SavedWanted;
+  flags: Record<string, boolean | number | string>; // 持久化的游戏标记
+}
+
+/**
+ * 存档槽位信息
+ */
+export interface SaveSlotInfo {
+  slot: number;
+  savedAt: string;
+  score: number;
+  seed: number;
+}
+
+/**
+ * 版本1-2的玩家（没有护甲和现金；版本1还没有近战武器）
+ */
+type SavedPlayerV1 = Omit<SavedPlayer, 'meleeWeapon' | 'armor' | 'money'>;
+type SavedPlayerV2 = Omit<SavedPlayer, 'armor' | 'money'>;
+
+/**
+ * 版本1-3的车辆（只记录是否为警车，没有原型）
+ */
+interface SavedVehicleV1 extends Omit<SavedVehicle, 'archetype'> {
+  police: boolean;
+}
+
+/**
+ * 各旧版本的存档结构
+ */
+interface SaveDataV1 extends Omit<SaveData, 'version' | 'player' | 'vehicles'> {
+  version: 1;
+  player: SavedPlayerV1;
+  vehicles: SavedVehicleV1[];
+}
+interface SaveDataV2 extends Omit<SaveDataV1, 'version' | 'player'> {
+  version: 2;
+  player: SavedPlayerV2;
+}
+interface SaveDataV3 extends Omit<SaveDataV1, 'version' | 'player'> {
+  version: 3;
+  player: SavedPlayer;
+}
+
+/**
+ * 任意版本的存档
+ */
+type VersionedSaveData = SaveDataV1 | SaveDataV2 | SaveDataV3 | SaveData;
+
+/**
+ * 是否为游戏标记的取值
+ */
+function isFlagValue(value: unknown): value is boolean | number | string {
+  return typeof value === 'boolean' || isFiniteNumber(value) || typeof value === 'string';
+}
+
+/**
+ * 是否为非负整数
+ */
+function isIndex(value: unknown): value is number {
+  return isFiniteNumber(value) && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * 读取数值字段
+ */
+function parseNumber(value: unknown, field: string): number {
+  if (!isFiniteNumber(value)) {
+    throw new Error(`Save data has invalid ${field}`);
+  }
+  return value;
+}
+
+/**
+ * 读取坐标字段
+ */
+function parsePoint(value: unknown, field: string): SavedPoint {
+  if (!isRecord(value) || !isFiniteNumber(value.x) || !isFiniteNumber(value.y)) {
+    throw new Error(`Save data has invalid ${field}`);
+  }
+  return { x: value.x, y: value.y };
+}
+
+/**
+ * 读取武器类型字段
+ */
+function parseWeaponType(value: unknown): WeaponType {
+  if (typeof value !== 'string' || !weaponRegistry.has(value)) {
+    throw new Error(`Save data has unknown weapon type ${String(value)}`);
+  }
+  return value;
+}
+
+/**
+ * 读取近战武器类型字段
+ */
+function parseMeleeType(value: unknown): MeleeType {
+  if (typeof value !== 'string' || !meleeRegistry.has(value)) {
+    throw new Error(`Save data has unknown melee weapon type ${String(value)}`);
+  }
+  return value;
+}
+
+/**
+ * 解析存档中的武器
+ */
+function parseWeapon(value: unknown): SavedWeapon {
+  if (!isRecord(value) || !isIndex(value.currentAmmo) || !(value.reserveAmmo === null || isIndex(value.reserveAmmo))) {
+    throw new Error('Save data has an invalid weapon');
+  }
+  return { type: parseWeaponType(value.type), currentAmmo: value.currentAmmo, reserveAmmo: value.reserveAmmo };
+}
+
+/**
+ * 解析版本1的玩家
+ */
+function parsePlayerV1(value: Record<string, unknown>): SavedPlayerV1 {
+  if (!Array.isArray(value.weapons) || (value.vehicleIndex !== null && !isIndex(value.vehicleIndex))) {
+    throw new Error('Save data has an invalid player');
+  }
+  return {
+    position: parsePoint(value.position, 'player position'),
+    health: parseNumber(value.health, 'player health'),
+    currentWeapon: parseWeaponType(value.currentWeapon),
+    weapons: value.weapons.map(parseWeapon),
+    vehicleIndex: value.vehicleIndex
+  };
+}
+
+/**
+ * 解析版本2的玩家
+ */
+function parsePlayerV2(value: Record<string, unknown>): SavedPlayerV2 {
+  return { ...parsePlayerV1(value), meleeWeapon: parseMeleeType(value.meleeWeapon) };
+}
+
+/**
+ * 解析版本3及以后的玩家
+ */
+function parsePlayer(value: Record<string, unknown>): SavedPlayer {
+  return {
+    ...parsePlayerV2(value),
+    armor: parseNumber(value.armor, 'player armor'),
+    money: parseNumber(value.money, 'player money')
+  };
+}
+
+/**
+ * 解析各版本车辆共有的字段
+ */
+function parseVehicleBase(value: Record<string, unknown>): Omit<SavedVehicle, 'archetype'> {
+  if (typeof value.color !== 'string') {
+    throw new Error('Save data has an invalid vehicle');
+  }
+  return {
+    position: parsePoint(value.position, 'vehicle position'),
+    rotation: parseNumber(value.rotation, 'vehicle rotation'),
+    health: parseNumber(value.health, 'vehicle health'),
+    color: value.color
+  };
+}
+
+/**
+ * 解析版本1-3的车辆
+ */
+function parseVehicleV1(value: unknown): SavedVehicleV1 {
+  if (!isRecord(value) || typeof value.police !== 'boolean') {
+    throw new Error('Save data has an invalid vehicle');
+  }
+  return { ...parseVehicleBase(value), police: value.police };
+}
+
+/**
+ * 解析版本4及以后的车辆
+ */
+function parseVehicle(value: unknown): SavedVehicle {
+  if (!isRecord(value)) {
+    throw new Error('Save data has an invalid vehicle');
+  }
+  if (typeof value.archetype !== 'string' || !vehicleArchetypeRegistry.has(value.archetype)) {
+    throw new Error(`Save data has unknown vehicle archetype ${String(value.archetype)}`);
+  }
+  return { ...parseVehicleBase(value), archetype: value.archetype };
+}
+
+/**
+ * 解析存档中的通缉状态
+ */
+function parseWanted(value: unknown): SavedWanted {
+  if (!isRecord(value) || !isIndex(value.level)) {
+    throw new Error('Save data has an invalid wanted state');
+  }
+  return {
+    level: value.level,
+    heat: parseNumber(value.heat, 'wanted heat'),
+    lastKnownPosition: value.lastKnownPosition === null ? null : parsePoint(value.lastKnownPosition, 'wanted position')
+  };
+}
+
+/**
+ * 解析存档中的游戏标记
+ */
+function parseFlags(value: unknown): Record<string, boolean | number | string> {
+  if (!isRecord(value)) {
+    throw new Error('Save data has invalid flags');
+  }
+  const flags: Record<string, boolean | number | string> = {};
+  for (const [name, flag] of Object.entries(value)) {
+    if (!isFlagValue(flag)) {
+      throw new Error(`Save data has invalid value for flag ${name}`);
+    }
+    flags[name] = flag;
+  }
+  return flags;
+}
+
+/**
+ * 按存档中的版本号解析为对应版本的存档结构
+ */
+function parseVersionedSaveData(raw: unknown): VersionedSaveData {
+  if (!isRecord(raw)) {
+    throw new Error('Save data is not an object');
+  }
+  if (!isIndex(raw.version) || raw.version < 1) {
+    throw new Error('Save data has no version');
+  }
+  if (raw.version > SAVE_VERSION) {
+    throw new Error(`Save version ${raw.version} is newer than supported version ${SAVE_VERSION}`);
+  }
+  if (typeof raw.savedAt !== 'string' || !Array.isArray(raw.vehicles)) {
+    throw new Error('Save data is missing savedAt or vehicles');
+  }
+  if (!isRecord(raw.player)) {
+    throw new Error('Save data has an invalid player');
+  }
+
+  const common = {
+    savedAt: raw.savedAt,
+    seed: parseNumber(raw.seed, 'seed'),
+    randomState: parseNumber(raw.randomState, 'randomState'),
+    simulationTime: parseNumber(raw.simulationTime, 'simulationTime'),
+    score: parseNumber(raw.score, 'score'),
+    wanted: parseWanted(raw.wanted),
+    flags: parseFlags(raw.flags)
+  };
+  switch (raw.version) {
+    case 1:
+      return { ...common, version: 1, player: parsePlayerV1(raw.player), vehicles: raw.vehicles.map(parseVehicleV1) };
+    case 2:
+      return { ...common, version: 2, player: parsePlayerV2(raw.player), vehicles: raw.vehicles.map(parseVehicleV1) };
+    case 3:
+      return { ...common, version: 3, player: parsePlayer(raw.player), vehicles: raw.vehicles.map(parseVehicleV1) };
+    default:
+      return { ...common, version: SAVE_VERSION, player: parsePlayer(raw.player), vehicles: raw.vehicles.map(parseVehicle) };
+  }
+}
+
+/**
+ * 版本2：玩家增加近战武器，旧存档使用默认近战武器
+ */
+function migrateV1(data: SaveDataV1): SaveDataV2 {
+  return { ...data, version: 2, player: { ...data.player, meleeWeapon: meleeRegistry.getDefaultType() } };
+}
+
+/**
+ * 版本3：玩家增加护甲和现金
+ */
+function migrateV2(data: SaveDataV2): SaveDataV3 {
+  return { ...data, version: 3, player: { ...data.player, armor: 0, money: 0 } };
+}
+
+/**
+ * 版本4：车辆改为保存原型，旧存档的警车使用警车原型，其余使用默认原型
+ */
+function migrateV3(data: SaveDataV3): SaveData {
+  const vehicles = data.vehicles.map(({ police, ...vehicle }) => ({
+    ...vehicle,
+    archetype: police ? vehicleArchetypeRegistry.getPoliceId() : vehicleArchetypeRegistry.getDefaultId()
+  }));
+  return { ...data, version: 4, vehicles };
+}
+
+/**
+ * 检查任意版本的存档并升级到当前版本
+ */
+export function migrateSaveData(raw: unknown): SaveData {
+  let data = parseVersionedSaveData(raw);
+  if (data.version === 1) {
+    data = migrateV1(data);
+  }
+  if (data.version === 2) {
+    data = migrateV2(data);
+  }
+  if (data.version === 3) {
+    data = migrateV3(data);
+  }
+
+  if (data.player.vehicleIndex !== null && data.player.vehicleIndex >= data.vehicles.length) {
+    throw new Error(`Save data has invalid player vehicleIndex ${data.player.vehicleIndex}`);
+  }
+  return data;
+}
+
+/**
+ * 存档管理器 - 管理localStorage中的存档槽位和文件导入导出
+ */
+export class SaveManager {
+  private storage: Storage;
+  private keyPrefix: string = 'gta-save-slot-';
+  private slotCount: number = 3;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * 获取槽位数量
+   */
+  getSlotCount(): number {
+    return this.slotCount;
+  }
+
+  /**
+   * 保存到槽位
+   */
+  save(slot: number, data: SaveData): void {
+    this.storage.setItem(this.getKey(slot), JSON.stringify(data));
+  }
+
+  /**
+   * 读取槽位（空槽位返回null）
+   */
+  load(slot: number): SaveData | null {
+    const json = this.storage.getItem(this.getKey(slot));
+    if (json === null) {
+      return null;
+    }
+    return migrateSaveData(JSON.parse(json));
+  }
+
+  /**
+   * 删除槽位中的存档
+   */
+  delete(slot: number): void {
+    this.storage.removeItem(this.getKey(slot));
+  }
+
+  /**
+   * 获取槽位信息（空槽位或存档损坏时返回null）
+   */
+  getSlotInfo(slot: number): SaveSlotInfo | null {
+    try {
+      const data = this.load(slot);
+      return data ? { slot, savedAt: data.savedAt, score: data.score, seed: data.seed } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 导出存档为JSON文件
+   */
+  exportToFile(data: SaveData, fileName: string = `gta-save-${data.seed}.json`): void {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * 从JSON文件导入存档
+   */
+  async importFromFile(file: File): Promise<SaveData> {
+    const json = await file.text();
+    return migrateSaveData(JSON.parse(json));
+  }
+
+  /**
+   * 获取槽位在localStorage中的key
+   */
+  private getKey(slot: number): string {
+    if (!Number.isInteger(slot) || slot < 1 || slot > this.slotCount) {
+      throw new Error(`Invalid save slot ${slot}`);
+    }
+    return `${this.keyPrefix}${slot}`;
+  }
+}
@@ -0,0 +1,171 @@
+import { WeaponConfig, WeaponType, weaponRegistry } from '../entities/Weapon';
+import { DataReader } from '../utils/DataReader';
+import shopDefinitions from '../data/shops.json';
+
+/**
+ * 商品类型
+ */
+export enum ShopItemKind {
+  WEAPON = 'weapon', // 武器（附带备弹）
+  AMMO = 'ammo', // 已有武器的弹药
+  ARMOR = 'armor', // 护甲
+  REPAIR = 'repair' // 修理商店门口的车辆
+}
+
+/**
+ * 商品定义
+ */
+export interface ShopItemConfig {
+  id: string;
+  kind: ShopItemKind;
+  name: string; // 显示名称（武器默认使用武器名称）
+  price: number;
+  weapon: WeaponType | null; // 对应的武器（仅武器和弹药）
+  amount: number; // 弹药数或护甲值（武器默认一个弹夹）
+}
+
+/**
+ * 商店种类定义（从JSON加载）
+ */
+export interface ShopConfig {
+  id: string;
+  name: string;
+  weight: number; // 地图上商店选择此种类的权重
+  stock: ShopItemConfig[];
+}
+
+/**
+ * 商店菜单中的操作
+ */
+export enum MenuAction {
+  UP = 'up',
+  DOWN = 'down',
+  SELECT = 'select',
+  CLOSE = 'close'
+}
+
+/**
+ * 商店注册表 - 加载并检查商店种类和价格
+ */
+export class ShopRegistry {
+  private configs: Map<string, ShopConfig> = new Map();
+
+  constructor(definitions: unknown) {
+    if (!Array.isArray(definitions) || definitions.length === 0) {
+      throw new Error('Shop definitions must be a non-empty array');
+    }
+
+    for (const definition of definitions) {
+      const config = this.parseDefinition(definition);
+      if (this.configs.has(config.id)) {
+        throw new Error(`Duplicate shop id ${config.id}`);
+      }
+      this.configs.set(config.id, config);
+    }
+  }
+
+  /**
+   * 检查并补全单个商店定义
+   */
+  private parseDefinition(raw: unknown): ShopConfig {
+    const reader = DataReader.forDefinition(raw, 'Shop');
+    const id = reader.string('id');
+
+    const stock = reader.array('stock', true).map(item => this.parseItem(id, item));
+    const itemIds = new Set<string>();
+    for (const item of stock) {
+      if (itemIds.has(item.id)) {
+        reader.fail(`has duplicate item ${item.id}`);
+      }
+      itemIds.add(item.id);
+    }
+
+    return {
+      id,
+      name: reader.string('name'),
+      weight: reader.number('weight', { positive: true }),
+      stock
+    };
+  }
+
+  /**
+   * 检查并补全单个商品定义
+   */
+  private parseItem(shopId: string, raw: unknown): ShopItemConfig {
+    const reader = DataReader.forDefinition(raw, `Shop ${shopId} item`);
+    const kind = reader.enumValue('kind', ShopItemKind);
+
+    let weaponConfig: WeaponConfig | null = null;
+    if (kind === ShopItemKind.WEAPON || kind === ShopItemKind.AMMO) {
+      const weapon = reader.string('weapon');
+      if (!weaponRegistry.has(weapon)) {
+        reader.fail(`has unknown weapon ${weapon}`);
+      }
+      weaponConfig = weaponRegistry.get(weapon);
+    }
+    // 弹药和护甲必须填写数量，武器默认一个弹夹
+    const needsAmount = kind === ShopItemKind.AMMO || kind === ShopItemKind.ARMOR;
+    const amount = needsAmount
+      ? reader.number('amount', { positive: true })
+      : reader.optionalNumber('amount', { positive: true }) ?? (weaponConfig ? weaponConfig.magazineCapacity : 0);
+    // 武器可省略名称（使用武器名称），其他商品必须填写
+    const name = weaponConfig && kind === ShopItemKind.WEAPON
+      ? reader.optionalString('name') ?? weaponConfig.name
+      : reader.string('name');
+
+    return {
+      id: reader.string('id'),
+      kind,
+      name,
+      price: reader.number('price', { min: 0, integer: true }),
+      weapon: weaponConfig ? weaponConfig.type : null,
+      amount
+    };
+  }
+
+  /**
+   * 是否存在该商店种类
+   */
+  has(id: string): boolean {
+    return this.configs.has(id);
+  }
+
+  /**
+   * 获取商店种类定义
+   */
+  get(id: string): ShopConfig {
+    const config = this.configs.get(id);
+    if (!config) {
+      throw new Error(`Unknown shop ${id}`);
+    }
+    return config;
+  }
+
+  /**
+   * 获取所有商店种类（按JSON中的顺序）
+   */
+  getAll(): ShopConfig[] {
+    return Array.from(this.configs.values());
+  }
+
+  /**
+   * 按权重选择商店种类（roll为[0, 1)的随机数）
+   */
+  pickShop(roll: number): ShopConfig {
+    const shops = this.getAll();
+    const totalWeight = shops.reduce((sum, shop) => sum + shop.weight, 0);
+    let remaining = roll * totalWeight;
+    for (const shop of shops) {
+      remaining -= shop.weight;
+      if (remaining < 0) {
+        return shop;
+      }
+    }
+    return shops[shops.length - 1];
+  }
+}
+
+/**
+ * 全局商店注册表
+ */
+export const shopRegistry = new ShopRegistry(shopDefinitions);
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Simulation, InputCommand, createIdleInput } from './Simulation';
+
+/**
+ * 创建按住某个方向移动的输入
+ */
+function moveInput(x: number, y: number): InputCommand {
+  return { ...createIdleInput(), movement: { x, y } };
+}
+
+/**
+ * 用同一个输入推进多步
+ */
+function stepMany(simulation: Simulation, input: InputCommand, steps: number): void {
+  for (let i = 0; i < steps; i++) {
+    simulation.step(input);
+  }
+}
+
+describe('Simulation', () => {
+  it('不渲染也会在玩家周围生成城市和道路网络', () => {
+    const simulation = new Simulation(12345);
+    stepMany(simulation, createIdleInput(), 60);
+
+    const gameMap = simulation.getGameMap();
+    expect(gameMap.getLoadedChunkCount()).toBeGreaterThan(0);
+    expect(gameMap.getBuildings().length).toBeGreaterThan(0);
+    expect(gameMap.getRoadNetwork().getNodes().length).toBeGreaterThan(0);
+  });
+
+  it('交通车辆在道路上生成', () => {
+    const simulation = new Simulation(12345);
+    const spawned = new Set<string>();
+
+    // 在车辆出现的那一步检查位置（之后转弯时可能短暂驶出路面）
+    for (let i = 0; i < 600; i++) {
+      simulation.step(createIdleInput());
+      for (const vehicle of simulation.getVehicleManager().getVehicles()) {
+        if (!spawned.has(vehicle.getId())) {
+          spawned.add(vehicle.getId());
+          expect(simulation.getGameMap().isPointOnRoad(vehicle.getPosition())).toBe(true);
+        }
+      }
+    }
+    expect(spawned.size).toBeGreaterThan(0);
+  });
+
+  it('玩家沿道路步行1秒，移动距离接近步行速度', () => {
+    const simulation = new Simulation(12345);
+    stepMany(simulation, moveInput(1, 0), 60);
+
+    const position = simulation.getPlayer().getPosition();
+    expect(position.x).toBeGreaterThan(120);
+    expect(position.x).toBeLessThanOrEqual(150);
+    expect(position.y).toBeCloseTo(0, 5);
+  });
+
+  it('玩家无法穿过建筑', () => {
+    const simulation = new Simulation(12345);
+    const gameMap = simulation.getGameMap();
+    const input = moveInput(1, 1);
+
+    // 朝(0,0)号chunk中的建筑斜向走3秒
+    for (let i = 0; i < 180; i++) {
+      simulation.step(input);
+      expect(gameMap.isPointInBuilding(simulation.getPlayer().getPosition())).toBe(false);
+    }
+    const position = simulation.getPlayer().getPosition();
+    expect(position.length()).toBeLessThan(150 * 3);
+  });
+});
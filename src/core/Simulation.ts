@@ -0,0 +1,1483 @@
+import { Player } from '../entities/Player';
+import { NPCManager } from '../entities/NPCManager';
+import { NPC, NPCBehavior } from '../entities/NPC';
+import { GameMap, ShopLocation } from '../world/Map';
+import { Vector2 } from '../utils/Vector2';
+import { Weapon, WeaponType, createShotBullets, weaponRegistry } from '../entities/Weapon';
+import { Item, ItemManager, ItemSpawnTable, ItemType } from '../entities/Item';
+import { PickupConfig, PickupKind, pickupRegistry } from '../entities/Pickup';
+import { BulletManager } from '../entities/Weapon';
+import { Vehicle, VehicleManager } from '../entities/Vehicle';
+import { ExplosiveManager, Explosion, getExplosionFalloff } from '../entities/Explosive';
+import { MeleeAttack, isInMeleeArc } from '../entities/Melee';
+import { Random } from '../utils/Random';
+import { CollisionLayer } from '../world/Collision';
+import { WantedSystem, CrimeType } from './Wanted';
+import { SaveData, SAVE_VERSION } from './SaveGame';
+import { MenuAction, ShopConfig, ShopItemConfig, ShopItemKind, shopRegistry } from './Shop';
+import { npcArchetypeRegistry } from '../entities/NPCArchetype';
+import { MissionManager } from './Mission';
+
+/**
+ * 单个模拟步的玩家输入
+ */
+export interface InputCommand {
+  movement: { x: number; y: number }; // 移动方向（各分量为-1、0或1）
+  aim: { x: number; y: number }; // 瞄准点（世界坐标）
+  fireHeld: boolean; // 射击键是否按住
+  firePressed: boolean; // 上一步之后是否按下过射击键
+  meleeHeld: boolean; // 近战键是否按住
+  meleePressed: boolean; // 上一步之后是否按下过近战键
+  reload: boolean; // 是否按住装弹键
+  switchWeapon: WeaponType | null; // 要切换到的武器
+  interact: boolean; // 是否刚按下交互键（上下车）
+  restart: boolean; // 游戏结束后是否请求重新开始
+  menu: MenuAction | null; // 商店菜单操作
+  handbrake: boolean; // 是否按住手刹
+}
+
+/**
+ * 打开中的商店菜单
+ */
+export interface ShopMenu {
+  shop: ShopConfig;
+  location: ShopLocation;
+  selected: number; // 选中的商品索引
+  message: string | null; // 上一次购买的结果
+}
+
+/**
+ * 创建一个没有任何操作的输入
+ */
+export function createIdleInput(aim: { x: number; y: number } = { x: 0, y: 0 }): InputCommand {
+  return {
+    movement: { x: 0, y: 0 },
+    aim: { ...aim },
+    fireHeld: false,
+    firePressed: false,
+    meleeHeld: false,
+    meleePressed: false,
+    reload: false,
+    switchWeapon: null,
+    interact: false,
+    restart: false,
+    menu: null,
+    handbrake: false
+  };
+}
+
+/**
+ * 游戏模拟核心 - 不依赖Canvas和DOM，按输入指令逐步推进，可在Node中运行
+ */
+export class Simulation {
+  private player: Player;
+  private npcManager: NPCManager;
+  private gameMap: GameMap;
+  private itemManager: ItemManager;
+  private vehicleManager: VehicleManager; // 车辆管理器
+  private readonly fixedDeltaTime: number = 1 / 60; // 固定模拟步长（秒）
+  private simulationTime: number = 0; // 模拟时钟（秒），供射速、装弹等计时使用
+  private frame: number = 0; // 已模拟的步数
+  private itemSpawnTimer: number = 0;
+  private itemSpawnInterval: number = 3; // 每3秒尝试生成一个物品
+  private maxItems: number = 3; // 最多维持3个物品
+  private itemSpawnRange: number = 600; // 物品生成范围（玩家周围）
+  private itemSpawnTable: ItemSpawnTable = new ItemSpawnTable(); // 随机物品的生成权重和冷却
+  private score: number = 0; // 游戏得分
+  private gameOver: boolean = false; // 游戏是否结束
+  private npcBulletManager: BulletManager; // NPC子弹管理器
+  private explosiveManager: ExplosiveManager = new ExplosiveManager(); // 手雷、火箭弹和爆炸
+  private seed: number; // 世界种子
+  private random: Random; // 整个模拟共用的随机数生成器
+  private wantedSystem: WantedSystem = new WantedSystem(); // 通缉系统
+  private policeSpawnTimer: number = 0;
+  private policeSpawnInterval: number = 3; // 每3秒最多增援一次
+  private readonly policeOfficersByLevel: number[] = [0, 1, 2, 3, 4, 6]; // 各星级的步行警察数量
+  private readonly policeVehiclesByLevel: number[] = [0, 0, 1, 2, 3, 4]; // 各星级的警车数量
+  private policeSightRange: number = 250; // 警车内警察的视野范围
+  private resprayColors: string[] = ['#ff0000', '#ffffff', '#2e7d32', '#f9a825', '#6a1b9a', '#00838f']; // 喷漆可选颜色
+  private flags: Map<string, boolean | number | string> = new Map(); // 随存档保存的游戏标记
+  private fireHeld: boolean = false; // 上一步射击键是否按住
+  private meleeHeld: boolean = false; // 上一步近战键是否按住
+  private shopMenu: ShopMenu | null = null; // 打开中的商店菜单
+  private shopEnterRange: number = 24; // 距离商店门口多近可以进入
+  private garageRange: number = 100; // 修车铺修理门口多大范围内的车辆
+  private missionManager: MissionManager = new MissionManager(); // 任务系统
+  private hardcore: boolean; // 硬核模式：死亡后游戏结束，而不是在医院复活
+  private deathTimer: number = 0; // 玩家已死亡的时间（秒）
+  private respawnDelay: number = 3; // 死亡后画面淡出多久在医院复活（秒）
+  private respawnFadeTimer: number = 0; // 复活后画面淡入的剩余时间（秒）
+  private respawnFadeDuration: number = 1; // 复活后画面淡入的时间（秒）
+  private hospitalFeeRate: number = 0.2; // 复活时扣除的现金比例（医药费）
+  private burningVehicleDamage: number = 10; // 留在着火车辆里每秒受到的伤害
+  private runOverMinSpeed: number = 60; // 低于此接近速度的碰撞只会把人推开
+  private runOverDamageFactor: number = 0.3; // 撞人伤害 = (接近速度 - 最低速度) * 车辆质量 * 此系数
+  private runOverRestitution: number = 0.3; // 撞人时的回弹系数
+  private pedestrianMass: number = 0.1; // 行人的质量（车辆默认质量为1）
+  private vehicleHitCooldown: number = 0.5; // 同一辆车再次撞伤同一个人的最小间隔（秒）
+  private vehicleHitTimes: Map<string, number> = new Map(); // "车辆ID:角色ID" -> 冷却结束的时间
+  private diveRange: number = 160; // 行人察觉来车的距离
+  private diveSpeedThreshold: number = 150; // 车速高于此值时行人才会扑开躲避
+  private diveMargin: number = 12; // 行人与车辆行进路线的横向距离小于车身半宽加此值时会扑开
+  private lastHospitalFee: number = 0; // 最近一次复活扣除的医药费
+
+  constructor(seed: number, hardcore: boolean = false) {
+    this.hardcore = hardcore;
+
+    // 初始化随机数生成器（相同种子可复现相同的城市和生成结果）
+    this.seed = seed;
+    this.random = new Random(this.seed);
+
+    // 初始化游戏地图（无限延展）
+    this.gameMap = new GameMap(0, 0, 32, this.seed);
+
+    // 初始化NPC管理器
+    this.npcManager = new NPCManager(this.random);
+    this.npcManager.setCollisionSystem(this.gameMap.getCollisionSystem());
+    this.npcManager.setPathfinder(this.gameMap.getPathfinder());
+
+    // 为NPC设置射击、近战和死亡回调
+    this.setupNPCAttackCallbacks();
+    this.setupNPCDeathCallback();
+
+    // 初始化物品管理器
+    this.itemManager = new ItemManager();
+
+    // 初始化车辆管理器
+    this.vehicleManager = new VehicleManager(this.random);
+    this.vehicleManager.setCollisionSystem(this.gameMap.getCollisionSystem());
+    this.vehicleManager.setRoadNetwork(this.gameMap.getRoadNetwork());
+    this.vehicleManager.setDistrictLookup(position => this.gameMap.getDistrict(position));
+    this.setupVehicleCallbacks();
+
+    // 初始化NPC子弹管理器
+    this.npcBulletManager = new BulletManager();
+
+    // 初始化玩家（以(0,0)为中心）
+    this.player = new Player(new Vector2(0, 0), this.random);
+
+    // 为玩家设置碰撞系统
+    this.player.setCollisionSystem(this.gameMap.getCollisionSystem());
+    this.player.setExplosiveManager(this.explosiveManager);
+  }
+
+  /**
+   * 推进一个固定步长
+   */
+  step(input: InputCommand): void {
+    this.savePreviousState();
+    this.update(this.fixedDeltaTime, input);
+    this.simulationTime += this.fixedDeltaTime;
+    this.frame++;
+  }
+
+  /**
+   * 获取固定模拟步长（秒）
+   */
+  getFixedDeltaTime(): number {
+    return this.fixedDeltaTime;
+  }
+
+  /**
+   * 获取模拟时钟（秒）
+   */
+  getSimulationTime(): number {
+    return this.simulationTime;
+  }
+
+  /**
+   * 获取已模拟的步数
+   */
+  getFrame(): number {
+    return this.frame;
+  }
+
+  /**
+   * 获取世界种子
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * 获取玩家
+   */
+  getPlayer(): Player {
+    return this.player;
+  }
+
+  /**
+   * 获取NPC管理器
+   */
+  getNPCManager(): NPCManager {
+    return this.npcManager;
+  }
+
+  /**
+   * 获取车辆管理器
+   */
+  getVehicleManager(): VehicleManager {
+    return this.vehicleManager;
+  }
+
+  /**
+   * 获取物品管理器
+   */
+  getItemManager(): ItemManager {
+    return this.itemManager;
+  }
+
+  /**
+   * 获取NPC子弹管理器
+   */
+  getNPCBulletManager(): BulletManager {
+    return this.npcBulletManager;
+  }
+
+  /**
+   * 获取爆炸物管理器
+   */
+  getExplosiveManager(): ExplosiveManager {
+    return this.explosiveManager;
+  }
+
+  /**
+   * 获取游戏地图
+   */
+  getGameMap(): GameMap {
+    return this.gameMap;
+  }
+
+  /**
+   * 获取通缉系统
+   */
+  getWantedSystem(): WantedSystem {
+    return this.wantedSystem;
+  }
+
+  /**
+   * 获取得分
+   */
+  getScore(): number {
+    return this.score;
+  }
+
+  /**
+   * 游戏是否结束
+   */
+  isGameOver(): boolean {
+    return this.gameOver;
+  }
+
+  /**
+   * 是否为硬核模式（死亡后游戏结束）
+   */
+  isHardcore(): boolean {
+    return this.hardcore;
+  }
+
+  /**
+   * 获取死亡和复活时画面变黑的程度（0为正常，1为全黑）
+   */
+  getScreenFade(): number {
+    if (this.player.getIsDead() && !this.hardcore) {
+      return Math.min(1, this.deathTimer / (this.respawnDelay * 0.6));
+    }
+    return this.respawnFadeTimer / this.respawnFadeDuration;
+  }
+
+  /**
+   * 获取最近一次在医院复活扣除的医药费
+   */
+  getLastHospitalFee(): number {
+    return this.lastHospitalFee;
+  }
+
+  /**
+   * 获取打开中的商店菜单
+   */
+  getShopMenu(): ShopMenu | null {
+    return this.shopMenu;
+  }
+
+  /**
+   * 获取步行玩家附近可以进入的商店
+   */
+  getNearbyShop(): { shop: ShopConfig; location: ShopLocation } | null {
+    if (this.player.isInVehicle()) {
+      return null;
+    }
+    const location = this.gameMap.findShopNear(this.player.getPosition(), this.shopEnterRange);
+    return location ? { shop: shopRegistry.pickShop(location.roll), location } : null;
+  }
+
+  /**
+   * 获取任务管理器
+   */
+  getMissionManager(): MissionManager {
+    return this.missionManager;
+  }
+
+  /**
+   * 设置持久化的游戏标记
+   */
+  setFlag(name: string, value: boolean | number | string): void {
+    this.flags.set(name, value);
+  }
+
+  /**
+   * 获取持久化的游戏标记
+   */
+  getFlag(name: string): boolean | number | string | undefined {
+    return this.flags.get(name);
+  }
+
+  /**
+   * 生成当前游戏状态的存档数据
+   */
+  createSaveData(): SaveData {
+    // 残骸不保存
+    const vehicles = this.vehicleManager.getVehicles().filter(vehicle => !vehicle.isWreck());
+    const playerVehicle = this.player.getCurrentVehicle();
+    const vehicleIndex = playerVehicle ? vehicles.indexOf(playerVehicle) : -1;
+    const lastKnownPosition = this.wantedSystem.getLastKnownPosition();
+
+    return {
+      version: SAVE_VERSION,
+      savedAt: new Date().toISOString(),
+      seed: this.seed,
+      randomState: this.random.getState(),
+      simulationTime: this.simulationTime,
+      score: this.score,
+      player: {
+        position: { x: this.player.getPosition().x, y: this.player.getPosition().y },
+        health: this.player.getHealth(),
+        armor: this.player.getArmor(),
+        money: this.player.getMoney(),
+        currentWeapon: this.player.getCurrentWeaponType(),
+        weapons: this.player.getWeapons().map(weapon => ({
+          type: weapon.getType(),
+          currentAmmo: weapon.getCurrentAmmo(),
+          reserveAmmo: isFinite(weapon.getReserveAmmo()) ? weapon.getReserveAmmo() : null
+        })),
+        vehicleIndex: vehicleIndex >= 0 ? vehicleIndex : null,
+        meleeWeapon: this.player.getMeleeWeapon().getType()
+      },
+      vehicles: vehicles.map(vehicle => ({
+        position: { x: vehicle.getPosition().x, y: vehicle.getPosition().y },
+        rotation: vehicle.getRotation(),
+        health: vehicle.getHealth(),
+        color: vehicle.getColor(),
+        archetype: vehicle.getArchetype()
+      })),
+      wanted: {
+        level: this.wantedSystem.getLevel(),
+        heat: this.wantedSystem.getHeat(),
+        lastKnownPosition: lastKnownPosition ? { x: lastKnownPosition.x, y: lastKnownPosition.y } : null
+      },
+      flags: Object.fromEntries(this.flags)
+    };
+  }
+
+  /**
+   * 从存档数据恢复游戏状态（NPC、物品和子弹不保存，会重新生成）
+   */
+  loadSaveData(data: SaveData): void {
+    this.score = data.score;
+    this.gameOver = false;
+    this.simulationTime = data.simulationTime;
+    this.policeSpawnTimer = 0;
+    this.fireHeld = false;
+    this.meleeHeld = false;
+    this.shopMenu = null;
+    this.missionManager.reset();
+    this.deathTimer = 0;
+    this.respawnFadeTimer = 0;
+    this.vehicleHitTimes.clear();
+    this.flags = new Map(Object.entries(data.flags));
+    this.gameMap.getCollisionSystem().unregister('player');
+
+    // 种子不同时重新生成城市
+    if (data.seed !== this.seed) {
+      this.seed = data.seed;
+      this.random = new Random(this.seed);
+      this.gameMap = new GameMap(0, 0, 32, this.seed);
+    }
+    this.random.setState(data.randomState);
+
+    // 重新初始化NPC和物品
+    this.npcManager.clear();
+    this.npcManager = new NPCManager(this.random);
+    this.npcManager.setCollisionSystem(this.gameMap.getCollisionSystem());
+    this.npcManager.setPathfinder(this.gameMap.getPathfinder());
+    this.setupNPCAttackCallbacks();
+    this.setupNPCDeathCallback();
+    this.itemManager = new ItemManager();
+    this.itemSpawnTable.reset();
+    this.npcBulletManager.clear();
+    this.explosiveManager.clear();
+
+    // 恢复车辆（均为无人驾驶）
+    this.vehicleManager.clear();
+    this.vehicleManager = new VehicleManager(this.random);
+    this.vehicleManager.setCollisionSystem(this.gameMap.getCollisionSystem());
+    this.vehicleManager.setRoadNetwork(this.gameMap.getRoadNetwork());
+    this.vehicleManager.setDistrictLookup(position => this.gameMap.getDistrict(position));
+    this.setupVehicleCallbacks();
+    const vehicles = data.vehicles.map(saved => {
+      const vehicle = this.vehicleManager.addVehicle(
+        new Vector2(saved.position.x, saved.position.y),
+        saved.rotation,
+        saved.archetype
+      );
+      vehicle.setColor(saved.color);
+      vehicle.setHealth(saved.health);
+      return vehicle;
+    });
+
+    // 恢复玩家
+    const savedPlayer = data.player;
+    this.player = new Player(new Vector2(savedPlayer.position.x, savedPlayer.position.y), this.random);
+    this.player.setCollisionSystem(this.gameMap.getCollisionSystem());
+    this.player.setExplosiveManager(this.explosiveManager);
+    this.player.setHealth(savedPlayer.health);
+    this.player.setArmor(savedPlayer.armor);
+    this.player.setMoney(savedPlayer.money);
+    this.player.setWeapons(
+      savedPlayer.weapons.map(saved => {
+        const weapon = new Weapon(saved.type);
+        weapon.setAmmo(saved.currentAmmo, saved.reserveAmmo ?? Infinity);
+        return weapon;
+      }),
+      savedPlayer.currentWeapon
+    );
+    this.player.setMeleeWeapon(savedPlayer.meleeWeapon);
+    if (savedPlayer.vehicleIndex !== null && vehicles[savedPlayer.vehicleIndex]) {
+      this.player.enterVehicle(vehicles[savedPlayer.vehicleIndex]);
+    }
+
+    // 恢复通缉状态
+    const lastKnown = data.wanted.lastKnownPosition;
+    this.wantedSystem.restore(
+      data.wanted.level,
+      data.wanted.heat,
+      lastKnown ? new Vector2(lastKnown.x, lastKnown.y) : null
+    );
+  }
+
+
+  /**
+   * 记录所有实体当前状态，作为渲染插值的起点
+   */
+  private savePreviousState(): void {
+    this.player.savePreviousState();
+    this.npcManager.savePreviousStates();
+    this.vehicleManager.savePreviousStates();
+    this.npcBulletManager.savePreviousStates();
+    this.explosiveManager.savePreviousStates();
+  }
+  /**
+   * 更新游戏逻辑
+   */
+  private update(deltaTime: number, input: InputCommand): void {
+    // 生成玩家附近的chunk，卸载远处的chunk（只依赖玩家位置，与渲染无关）
+    this.gameMap.updateChunks(this.player.getPosition());
+
+    // 如果游戏结束，检查重新开始
+    if (this.gameOver) {
+      if (input.restart) {
+        this.restartGame();
+      }
+      return;
+    }
+
+    // 死亡后画面淡出，世界暂停，结束后在最近的医院复活
+    if (this.player.getIsDead() && !this.hardcore) {
+      this.deathTimer += deltaTime;
+      if (this.deathTimer >= this.respawnDelay) {
+        this.respawnAtHospital();
+      }
+      return;
+    }
+    this.respawnFadeTimer = Math.max(0, this.respawnFadeTimer - deltaTime);
+
+    // 商店菜单打开时输入只用于操作菜单，玩家原地不动
+    if (this.shopMenu) {
+      this.updateShopMenu(input);
+      input = createIdleInput(input.aim);
+    }
+
+    // 设置瞄准点（世界坐标）
+    this.player.setMousePosition(input.aim.x, input.aim.y);
+
+    // 处理射击键的按下和松开（半自动武器只在按下时射击一次）
+    if (input.firePressed || (input.fireHeld && !this.fireHeld)) {
+      this.player.setMouseDown(true);
+    }
+    if (!input.fireHeld && (this.fireHeld || input.firePressed)) {
+      this.player.setMouseDown(false);
+    }
+    this.fireHeld = input.fireHeld;
+
+    // 处理射击输入
+    const currentTime = this.simulationTime;
+    if (this.player.fire(currentTime)) {
+      this.checkShotsWitnessed();
+    }
+
+    // 处理近战键：按下时开始蓄力，松开时出手
+    if (input.meleePressed || (input.meleeHeld && !this.meleeHeld)) {
+      this.player.startMelee(currentTime);
+    }
+    if (!input.meleeHeld && (this.meleeHeld || input.meleePressed)) {
+      const attack = this.player.releaseMelee(currentTime);
+      if (attack) {
+        this.resolvePlayerMelee(attack);
+      }
+    }
+    this.meleeHeld = input.meleeHeld;
+
+    // 处理装弹输入
+    if (input.reload) {
+      this.player.reload(currentTime);
+    }
+
+    // 处理武器切换输入
+    if (input.switchWeapon !== null) {
+      this.player.switchWeapon(input.switchWeapon);
+    }
+
+    // 更新玩家
+    this.player.update(deltaTime, input.movement, currentTime, input.handbrake);
+
+    // 更新车辆
+    this.vehicleManager.update(deltaTime, this.player.getPosition());
+
+    // 结算车辆撞人，看到来车的行人扑开躲避
+    this.checkVehicleImpacts(currentTime);
+    this.updatePedestrianDives(currentTime);
+
+    // 处理商店和车辆交互（在商店门口时优先进入商店）
+    if (!this.handleShopInteraction(input.interact)) {
+      this.handleVehicleInteraction(input.interact);
+    }
+
+    // 更新NPC
+    this.npcManager.update(deltaTime, this.player.getPosition(), currentTime);
+
+    // 更新NPC子弹
+    this.npcBulletManager.update(deltaTime);
+
+    // 更新物品（靠近玩家的拾取物会被吸过来）
+    this.itemManager.update(deltaTime, this.player.getPosition());
+    this.itemSpawnTable.update(deltaTime);
+
+    // 生成物品（维持数量在3以内）
+    this.itemSpawnTimer += deltaTime;
+    if (this.itemSpawnTimer >= this.itemSpawnInterval) {
+      this.itemSpawnTimer = 0;
+      if (this.itemManager.getCount() < this.maxItems) {
+        this.spawnRandomItem();
+      }
+    }
+
+    // 清理超出范围的物品
+    this.cleanupFarItems();
+
+    // 检查玩家是否拾取物品
+    this.checkItemPickup();
+
+    // 检查子弹是否击中建筑物
+    this.checkBulletsHitBuildings();
+
+    // 检查子弹是否击中NPC
+    this.checkBulletHits();
+
+    // 检查NPC子弹是否击中玩家
+    this.checkNPCBulletHits();
+
+    // 清理超出范围的NPC子弹
+    this.cleanupNPCBullets();
+
+    // 更新手雷和火箭弹，结算本步的爆炸
+    const explosions = this.explosiveManager.update(deltaTime, this.gameMap.getCollisionSystem());
+    for (const explosion of explosions) {
+      this.applyExplosion(explosion);
+    }
+
+    // 留在着火车辆里的玩家会被烧伤
+    this.updateBurningPlayerVehicle(deltaTime);
+
+    // 更新通缉等级和警察
+    this.updateWanted(deltaTime);
+
+    // 推进任务（开始、目标检查、成功和失败）
+    this.missionManager.update(deltaTime, this);
+
+    // 检查玩家是否死亡（硬核模式直接结束游戏）
+    if (this.player.getIsDead()) {
+      this.deathTimer = 0;
+      this.shopMenu = null;
+      if (this.hardcore) {
+        this.gameOver = true;
+      }
+    }
+  }
+
+  /**
+   * 在离死亡地点最近的医院复活：扣除医药费，失去武器，清除通缉，世界保持原样
+   */
+  private respawnAtHospital(): void {
+    const deathPos = this.player.getPosition();
+    const hospital = this.gameMap.findNearestHospital(deathPos);
+    const position = hospital
+      ? hospital.position
+      : this.gameMap.getPathfinder().findNearestWalkable(deathPos, 8) ?? deathPos;
+
+    this.lastHospitalFee = Math.floor(this.player.getMoney() * this.hospitalFeeRate);
+    this.player.spendMoney(this.lastHospitalFee);
+    this.player.respawn(position);
+
+    this.wantedSystem.clear();
+    this.npcManager.setPoliceTarget(null);
+    this.vehicleManager.setPoliceTarget(null);
+    this.npcBulletManager.clear();
+    this.fireHeld = false;
+    this.meleeHeld = false;
+    this.deathTimer = 0;
+    this.respawnFadeTimer = this.respawnFadeDuration;
+  }
+  /**
+   * 生成随机物品
+   */
+  private spawnRandomItem(): void {
+    // 尝试生成物品，最多尝试5次以避免在建筑物内生成
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const angle = this.random.next() * Math.PI * 2;
+      const distance = this.random.range(300, 600);
+      const x = this.player.getPosition().x + Math.cos(angle) * distance;
+      const y = this.player.getPosition().y + Math.sin(angle) * distance;
+
+      // 检查位置是否在建筑物内
+      if (!this.gameMap.isPointInBuilding(new Vector2(x, y))) {
+        // 按生成表的权重随机选择（权重为0或冷却中的不会生成）
+        const entry = this.itemSpawnTable.pick(this.random.next());
+        if (entry) {
+          this.itemManager.addItem(new Vector2(x, y), entry.key, entry.type);
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * 清理超出范围的物品
+   */
+  private cleanupFarItems(): void {
+    const playerPos = this.player.getPosition();
+    const items = this.itemManager.getAllItems();
+
+    for (const item of items) {
+      const distance = playerPos.distance(item.getPosition());
+      // 如果物品超出范围，删除它
+      if (distance > this.itemSpawnRange) {
+        this.itemManager.removeItem(item.getId());
+      }
+    }
+  }
+
+  /**
+   * 在商店门口按交互键时打开商店菜单（返回是否打开）
+   */
+  private handleShopInteraction(interact: boolean): boolean {
+    if (!interact) {
+      return false;
+    }
+    const nearby = this.getNearbyShop();
+    if (!nearby) {
+      return false;
+    }
+    this.shopMenu = { shop: nearby.shop, location: nearby.location, selected: 0, message: null };
+    return true;
+  }
+
+  /**
+   * 处理商店菜单操作
+   */
+  private updateShopMenu(input: InputCommand): void {
+    const menu = this.shopMenu!;
+    if (input.interact || input.menu === MenuAction.CLOSE) {
+      this.shopMenu = null;
+      return;
+    }
+
+    const count = menu.shop.stock.length;
+    switch (input.menu) {
+      case MenuAction.UP:
+        menu.selected = (menu.selected - 1 + count) % count;
+        break;
+      case MenuAction.DOWN:
+        menu.selected = (menu.selected + 1) % count;
+        break;
+      case MenuAction.SELECT:
+        menu.message = this.purchaseShopItem(menu.shop.stock[menu.selected], menu.location);
+        break;
+    }
+  }
+
+  /**
+   * 购买商品，返回显示给玩家的结果
+   */
+  private purchaseShopItem(item: ShopItemConfig, location: ShopLocation): string {
+    if (this.player.getMoney() < item.price) {
+      return '现金不足';
+    }
+
+    switch (item.kind) {
+      case ShopItemKind.WEAPON:
+        this.player.pickupWeapon(item.weapon!, item.amount);
+        break;
+      case ShopItemKind.AMMO:
+        if (!this.player.addAmmo(item.weapon!, item.amount)) {
+          return '没有对应的武器';
+        }
+        break;
+      case ShopItemKind.ARMOR:
+        if (this.player.getArmor() >= this.player.getMaxArmor()) {
+          return '护甲已满';
+        }
+        this.player.addArmor(item.amount);
+        break;
+      case ShopItemKind.REPAIR: {
+        // 修理门口最近的受损车辆
+        const damaged = this.vehicleManager.getNearbyVehicles(location.position, this.garageRange)
+          .filter(vehicle => !vehicle.getIsDead() && vehicle.getHealth() < vehicle.getMaxHealth())
+          .sort((a, b) => a.getPosition().distance(location.position) - b.getPosition().distance(location.position));
+        if (damaged.length === 0) {
+          return '门口没有需要修理的车辆';
+        }
+        damaged[0].setHealth(damaged[0].getMaxHealth());
+        break;
+      }
+    }
+
+    this.player.spendMoney(item.price);
+    return `已购买: ${item.name}`;
+  }
+
+  /**
+   * 处理车辆交互
+   */
+  private handleVehicleInteraction(interact: boolean): void {
+    // 如果玩家已在车辆中
+    if (this.player.isInVehicle()) {
+      // 按F键离开车辆
+      if (interact) {
+        this.player.exitVehicle();
+      }
+      return;
+    }
+
+    // 检查玩家附近是否有车辆
+    const nearbyVehicles = this.vehicleManager.getNearbyVehicles(this.player.getPosition(), 100);
+    
+    if (nearbyVehicles.length > 0) {
+      // 按F键进入最近的车辆
+      if (interact) {
+        const vehicle = nearbyVehicles[0];
+
+        // 如果车上有AI司机，先把司机拖下车，司机下车后逃跑
+        const driverExitPos = this.vehicleManager.ejectDriver(vehicle);
+        if (driverExitPos) {
+          const driver = this.npcManager.spawnNPC(driverExitPos);
+          driver.setBehavior(NPCBehavior.FLEE);
+        }
+
+        this.player.enterVehicle(vehicle);
+      }
+    }
+  }
+
+  /**
+   * 玩家开枪时，如果被NPC看到则记为犯罪
+   */
+  private checkShotsWitnessed(): void {
+    const playerPos = this.player.getPosition();
+    const witnessed = this.npcManager.getAllNPCs().some(npc => npc.isPointInVision(playerPos));
+    if (witnessed) {
+      this.wantedSystem.reportCrime(CrimeType.SHOTS_FIRED, playerPos);
+    }
+  }
+
+  /**
+   * 玩家当前是否被警察看到
+   */
+  private isPlayerSeenByPolice(): boolean {
+    const playerPos = this.player.getPosition();
+
+    // 步行警察使用视野圆锥
+    if (this.npcManager.getPoliceNPCs().some(npc => npc.isPointInVision(playerPos))) {
+      return true;
+    }
+
+    // 警车内的警察环顾四周，但视线会被建筑遮挡
+    const collisionSystem = this.gameMap.getCollisionSystem();
+    return this.vehicleManager.getVehicles().some(vehicle =>
+      vehicle.isPolice() &&
+      this.vehicleManager.hasDriver(vehicle) &&
+      vehicle.getPosition().distance(playerPos) < this.policeSightRange &&
+      collisionSystem.raycast(vehicle.getPosition(), playerPos, CollisionLayer.BUILDING) === null
+    );
+  }
+
+  /**
+   * 更新通缉等级，派出警察追捕，处理喷漆
+   */
+  private updateWanted(deltaTime: number): void {
+    const playerPos = this.player.getPosition();
+    const seen = this.isPlayerSeenByPolice();
+
+    // 没被看到时在喷漆店给车喷漆可以消除通缉
+    const vehicle = this.player.getCurrentVehicle();
+    if (vehicle && !seen && this.wantedSystem.getLevel() > 0 && this.gameMap.isPointInRespray(vehicle.getPosition())) {
+      this.wantedSystem.clear();
+      const colors = this.resprayColors.filter(color => color !== vehicle.getColor());
+      vehicle.setColor(this.random.pick(colors));
+    }
+
+    this.wantedSystem.update(deltaTime, playerPos, seen);
+
+    // 警察前往玩家最后出现的位置
+    const target = this.wantedSystem.getLastKnownPosition();
+    this.npcManager.setPoliceTarget(target);
+    this.vehicleManager.setPoliceTarget(target);
+
+    // 警车到达后车上的警察下车步行追捕（步行警察已满时留在车内）
+    for (const policeVehicle of this.vehicleManager.getArrivedPoliceVehicles()) {
+      const room = this.getPoliceOfficerRoom();
+      if (room > 0 && this.vehicleManager.ejectDriver(policeVehicle)) {
+        this.spawnPoliceCrew(policeVehicle, room, target);
+      }
+    }
+
+    // 按通缉等级增援
+    const level = this.wantedSystem.getLevel();
+    if (level === 0) {
+      this.policeSpawnTimer = 0;
+      return;
+    }
+    this.policeSpawnTimer += deltaTime;
+    if (this.policeSpawnTimer < this.policeSpawnInterval) {
+      return;
+    }
+    this.policeSpawnTimer = 0;
+
+    if (this.vehicleManager.getPoliceVehicleCount() < this.policeVehiclesByLevel[level]) {
+      this.vehicleManager.spawnPoliceVehicle(playerPos);
+    } else if (this.getPoliceOfficerRoom() > 0) {
+      this.spawnPoliceOfficer(playerPos, target);
+    }
+  }
+
+  /**
+   * 当前通缉等级下还能增加的步行警察数量
+   */
+  private getPoliceOfficerRoom(): number {
+    const limit = this.policeOfficersByLevel[this.wantedSystem.getLevel()];
+    return Math.max(0, limit - this.npcManager.getPoliceNPCs().length);
+  }
+
+  /**
+   * 警车上的警察按座位依次下车，最多count名
+   */
+  private spawnPoliceCrew(vehicle: Vehicle, count: number, target: Vector2 | null): void {
+    const crew = Math.min(count, vehicle.getSeats());
+    for (let seat = 0; seat < crew; seat++) {
+      this.npcManager.spawnPolice(vehicle.getSeatExitPosition(seat)).setPursuitTarget(target);
+    }
+  }
+
+  /**
+   * 在玩家附近的可通行位置生成一名步行警察
+   */
+  private spawnPoliceOfficer(playerPos: Vector2, target: Vector2 | null): void {
+    const angle = this.random.next() * Math.PI * 2;
+    const distance = this.random.range(400, 550);
+    const position = playerPos.add(new Vector2(Math.cos(angle), Math.sin(angle)).multiply(distance));
+    const spawnPos = this.gameMap.getPathfinder().findNearestWalkable(position);
+    if (spawnPos) {
+      this.npcManager.spawnPolice(spawnPos).setPursuitTarget(target);
+    }
+  }
+
+  /**
+   * 检查玩家是否拾取物品
+   */
+  private checkItemPickup(): void {
+    const playerPos = this.player.getPosition();
+    const playerRadius = this.player.getRadius();
+
+    for (const item of this.itemManager.getAllItems()) {
+      const distance = playerPos.distance(item.getPosition());
+      if (distance < playerRadius + item.getRadius() && this.applyItem(item)) {
+        // 拾取物品，该种类开始冷却
+        this.itemSpawnTable.markCollected(item.getType(), item.getKey());
+        this.itemManager.removeItem(item.getId());
+      }
+    }
+  }
+
+  /**
+   * 让玩家获得物品，无法拾取时返回false（如满血时的医疗包）
+   */
+  private applyItem(item: Item): boolean {
+    switch (item.getType()) {
+      case ItemType.MELEE:
+        // 近战武器直接替换当前近战武器
+        this.player.setMeleeWeapon(item.getKey());
+        return true;
+      case ItemType.PICKUP:
+        return this.applyPickup(pickupRegistry.get(item.getKey()));
+      default:
+        this.player.pickupWeapon(item.getKey(), item.getAmmo() ?? undefined);
+        return true;
+    }
+  }
+
+  /**
+   * 应用拾取物效果，效果无意义时返回false
+   */
+  private applyPickup(config: PickupConfig): boolean {
+    switch (config.kind) {
+      case PickupKind.HEALTH:
+        if (this.player.getHealth() >= this.player.getMaxHealth()) {
+          return false;
+        }
+        this.player.heal(config.amount);
+        return true;
+      case PickupKind.ARMOR:
+        if (this.player.getArmor() >= this.player.getMaxArmor()) {
+          return false;
+        }
+        this.player.addArmor(config.amount);
+        return true;
+      case PickupKind.AMMO:
+        // 只有拥有对应武器时才能拾取弹药
+        return config.weapon !== null && this.player.addAmmo(config.weapon, config.amount);
+      case PickupKind.MONEY:
+        this.player.addMoney(config.amount);
+        return true;
+      case PickupKind.POWER_UP:
+        if (config.powerUp === null) {
+          return false;
+        }
+        this.player.applyPowerUp(config.powerUp, config.amount, config.duration, this.simulationTime);
+        return true;
+    }
+  }
+
+  /**
+   * 为NPC设置射击和近战回调
+   */
+  private setupNPCAttackCallbacks(): void {
+    // 在NPCManager中为每个新创建的NPC设置射击和近战回调
+    const originalCreateNPC = this.npcManager.createNPC.bind(this.npcManager);
+    this.npcManager.createNPC = (id: string, position: Vector2, archetype?: string) => {
+      const npc = originalCreateNPC(id, position, archetype);
+      npc.setOnShoot((npcPos: Vector2, direction: Vector2, weapon: Weapon) => {
+        // 按NPC所持武器的弹丸数、散射和伤害生成子弹
+        for (const bullet of createShotBullets(weapon.getConfig(), npcPos, direction, this.random, id)) {
+          this.npcBulletManager.addBullet(bullet);
+        }
+      });
+      npc.setOnMelee((npcPos: Vector2, _direction: Vector2, damage: number) => {
+        // 只能打到步行且仍在近战距离内的玩家
+        if (!this.player.isInVehicle() && npcPos.distance(this.player.getPosition()) <= npc.getMeleeRange()) {
+          this.player.takeDamage(damage);
+        }
+      });
+      return npc;
+    };
+  }
+
+  /**
+   * NPC死亡时在原地掉落所持武器和剩余弹药
+   */
+  private setupNPCDeathCallback(): void {
+    this.npcManager.setOnNPCDied(npc => {
+      const weapon = npc.getWeapon();
+      if (weapon) {
+        this.itemManager.addItem(npc.getPosition(), weapon.getType(), ItemType.WEAPON, weapon.getTotalAmmo());
+      }
+    });
+  }
+
+  /**
+   * 重新开始游戏
+   */
+  restartGame(): void {
+    this.score = 0;
+    this.gameOver = false;
+    this.npcBulletManager.clear();
+    this.explosiveManager.clear();
+    this.wantedSystem.clear();
+    this.policeSpawnTimer = 0;
+    this.fireHeld = false;
+    this.meleeHeld = false;
+    this.shopMenu = null;
+    this.missionManager.reset();
+    this.deathTimer = 0;
+    this.respawnFadeTimer = 0;
+    this.vehicleHitTimes.clear();
+    this.flags.clear();
+
+    // 从种子重新播种随机数生成器（地图和模拟时间沿用当前局，之后的生成不保证与首局相同）
+    this.random.setState(this.seed);
+    
+    // 重新初始化玩家
+    this.player = new Player(new Vector2(0, 0), this.random);
+    this.player.setCollisionSystem(this.gameMap.getCollisionSystem());
+    this.player.setExplosiveManager(this.explosiveManager);
+    
+    // 重新初始化NPC管理器（先清理旧NPC的碰撞体）
+    this.npcManager.clear();
+    this.npcManager = new NPCManager(this.random);
+    this.npcManager.setCollisionSystem(this.gameMap.getCollisionSystem());
+    this.npcManager.setPathfinder(this.gameMap.getPathfinder());
+    
+    // 为NPC设置射击、近战和死亡回调
+    this.setupNPCAttackCallbacks();
+    this.setupNPCDeathCallback();
+    
+    // 重新初始化物品管理器
+    this.itemManager = new ItemManager();
+    this.itemSpawnTable.reset();
+
+    // 重新初始化车辆管理器（先清理旧车辆的碰撞体）
+    this.vehicleManager.clear();
+    this.vehicleManager = new VehicleManager(this.random);
+    this.vehicleManager.setCollisionSystem(this.gameMap.getCollisionSystem());
+    this.vehicleManager.setRoadNetwork(this.gameMap.getRoadNetwork());
+    this.vehicleManager.setDistrictLookup(position => this.gameMap.getDistrict(position));
+    this.setupVehicleCallbacks();
+  }
+
+  /**
+   * 检查子弹是否击中建筑物
+   */
+  private checkBulletsHitBuildings(): void {
+    // 检查玩家子弹
+    const playerBullets = this.player.getBulletManager().getBullets();
+    for (let i = playerBullets.length - 1; i >= 0; i--) {
+      const bullet = playerBullets[i];
+      if (this.gameMap.isPointInBuilding(bullet.getPosition())) {
+        this.player.getBulletManager().removeBullet(i);
+      }
+    }
+
+    // 检查NPC子弹
+    const npcBullets = this.npcBulletManager.getBullets();
+    for (let i = npcBullets.length - 1; i >= 0; i--) {
+      const bullet = npcBullets[i];
+      if (this.gameMap.isPointInBuilding(bullet.getPosition())) {
+        this.npcBulletManager.removeBullet(i);
+      }
+    }
+  }
+
+  /**
+   * 检查子弹是否击中NPC和车辆
+   */
+  private checkBulletHits(): void {
+    const bullets = this.player.getBulletManager().getBullets();
+    const collisionSystem = this.gameMap.getCollisionSystem();
+    const playerVehicle = this.player.getCurrentVehicle(); // 获取玩家所在的车辆
+
+    // 遍历所有子弹
+    for (let i = bullets.length - 1; i >= 0; i--) {
+      const bullet = bullets[i];
+      // 通过碰撞系统查询子弹附近的碰撞体
+      const hitIds = collisionSystem.queryRadius(bullet.getPosition(), bullet.getSize());
+      let bulletHit = false;
+
+      // 检查是否击中NPC
+      for (const id of hitIds) {
+        const npc = this.npcManager.getNPC(id);
+        if (!npc || npc.getIsDead()) {
+          continue;
+        }
+
+        // 子弹击中NPC
+        const damage = bullet.getDamage();
+        npc.takeDamage(damage, this.player.getPosition());
+        this.reportNPCHitByPlayer(npc);
+
+        bulletHit = true;
+        break;
+      }
+
+      // 如果子弹还没击中，检查是否击中车辆
+      if (!bulletHit) {
+        for (const id of hitIds) {
+          const vehicle = this.vehicleManager.getVehicle(id);
+          if (!vehicle) {
+            continue;
+          }
+
+          // 残骸挡住子弹但不会再受伤
+          if (vehicle.isWreck()) {
+            bulletHit = true;
+            break;
+          }
+          if (vehicle.getIsDead()) {
+            continue;
+          }
+
+          // 如果玩家在这辆车里，跳过这辆车（不能击中自己的车）
+          if (playerVehicle === vehicle) {
+            continue;
+          }
+
+          // 子弹击中车辆
+          const damage = bullet.getDamage();
+          vehicle.takeDamage(damage, this.player.getPosition(), 'player');
+          this.wantedSystem.reportCrime(CrimeType.VEHICLE_DAMAGE, this.player.getPosition());
+          bulletHit = true;
+          break;
+        }
+      }
+
+      // 如果子弹击中任何目标，删除子弹
+      if (bulletHit) {
+        this.player.getBulletManager().removeBullet(i);
+      }
+    }
+  }
+
+  /**
+   * 结算玩家的近战攻击：伤害并击退扇形内的NPC，把扇形内车辆的AI司机拖下车
+   */
+  private resolvePlayerMelee(attack: MeleeAttack): void {
+    const origin = this.player.getPosition();
+    const direction = this.player.getDirection();
+    const reach = this.player.getRadius() + attack.range;
+
+    for (const npc of this.npcManager.getAllNPCs()) {
+      if (npc.getIsDead() ||
+        !isInMeleeArc(origin, direction, npc.getPosition(), npc.getRadius(), reach, attack.arcAngle)) {
+        continue;
+      }
+      npc.takeDamage(attack.damage, origin);
+      const offset = npc.getPosition().subtract(origin);
+      npc.applyKnockback((offset.length() > 0 ? offset.normalize() : direction).multiply(attack.knockback));
+      this.reportNPCHitByPlayer(npc);
+    }
+
+    for (const vehicle of this.vehicleManager.getVehicles()) {
+      if (vehicle.getIsDead() || !this.vehicleManager.hasDriver(vehicle) ||
+        !isInMeleeArc(origin, direction, vehicle.getPosition(), vehicle.getRadius(), reach, attack.arcAngle)) {
+        continue;
+      }
+      const driverExitPos = this.vehicleManager.ejectDriver(vehicle);
+      if (!driverExitPos) {
+        continue;
+      }
+      // 警察被拖下车后继续追捕，普通司机逃跑
+      if (vehicle.isPolice()) {
+        this.npcManager.spawnPolice(driverExitPos).setPursuitTarget(origin);
+      } else {
+        const driver = this.npcManager.spawnNPC(driverExitPos);
+        driver.setBehavior(NPCBehavior.FLEE);
+        const offset = driverExitPos.subtract(origin);
+        driver.applyKnockback((offset.length() > 0 ? offset.normalize() : direction).multiply(attack.knockback));
+      }
+      this.wantedSystem.reportCrime(CrimeType.ASSAULT, origin);
+    }
+  }
+
+  /**
+   * 玩家伤害NPC后结算得分和犯罪
+   */
+  private reportNPCHitByPlayer(npc: NPC): void {
+    // 如果NPC死亡，增加得分和现金
+    if (npc.getIsDead()) {
+      this.score++;
+      this.player.addMoney(npcArchetypeRegistry.get(npc.getArchetype()).reward);
+      this.wantedSystem.reportCrime(
+        npc.isPolice() ? CrimeType.COP_KILLER : CrimeType.MURDER,
+        this.player.getPosition()
+      );
+    } else {
+      this.wantedSystem.reportCrime(CrimeType.ASSAULT, this.player.getPosition());
+    }
+  }
+
+  /**
+   * 车辆被摧毁时爆炸（玩家在车内时先被弹出，随后承受爆炸伤害）；车辆着火时AI司机跳车
+   */
+  private setupVehicleCallbacks(): void {
+    this.vehicleManager.setOnVehicleDestroyed(vehicle => {
+      if (this.player.getCurrentVehicle() === vehicle) {
+        this.player.exitVehicle();
+      }
+      this.explosiveManager.addExplosion(vehicle.getExplosion());
+    });
+
+    // 警察跳车后步行追捕（司机总会跳车，其他座位的警察只在步行警察未满时下车），普通司机逃跑
+    this.vehicleManager.setOnDriverBailOut((vehicle, exitPosition) => {
+      if (vehicle.isPolice()) {
+        const crew = Math.max(1, this.getPoliceOfficerRoom());
+        this.spawnPoliceCrew(vehicle, crew, this.wantedSystem.getLastKnownPosition());
+      } else {
+        this.npcManager.spawnNPC(exitPosition).setBehavior(NPCBehavior.FLEE);
+      }
+    });
+  }
+
+  /**
+   * 结算爆炸：对范围内未被建筑物遮挡的NPC、玩家和车辆造成衰减伤害，并推开车辆
+   */
+  private applyExplosion(explosion: Explosion): void {
+    const collisionSystem = this.gameMap.getCollisionSystem();
+    const center = explosion.position;
+    const byPlayer = explosion.ownerId === 'player';
+    const attackerPosition = byPlayer ? this.player.getPosition() : center;
+    const isExposed = (target: Vector2): boolean =>
+      collisionSystem.raycast(center, target, CollisionLayer.BUILDING) === null;
+
+    // NPC
+    for (const npc of this.npcManager.getAllNPCs()) {
+      if (npc.getIsDead()) {
+        continue;
+      }
+      const falloff = getExplosionFalloff(explosion, center.distance(npc.getPosition()));
+      if (falloff <= 0 || !isExposed(npc.getPosition())) {
+        continue;
+      }
+      npc.takeDamage(explosion.damage * falloff, attackerPosition);
+      if (byPlayer) {
+        this.reportNPCHitByPlayer(npc);
+      }
+    }
+
+    // 步行的玩家（在车内时由车辆承受伤害）
+    if (!this.player.isInVehicle()) {
+      const falloff = getExplosionFalloff(explosion, center.distance(this.player.getPosition()));
+      if (falloff > 0 && isExposed(this.player.getPosition())) {
+        this.player.takeDamage(explosion.damage * falloff);
+      }
+    }
+
+    // 车辆：按车身边缘的距离计算伤害，并沿爆炸方向推开
+    for (const vehicle of this.vehicleManager.getVehicles()) {
+      if (vehicle.getIsDead()) {
+        continue;
+      }
+      const offset = vehicle.getPosition().subtract(center);
+      const distance = Math.max(0, offset.length() - vehicle.getRadius());
+      const falloff = getExplosionFalloff(explosion, distance);
+      if (falloff <= 0 || !isExposed(vehicle.getPosition())) {
+        continue;
+      }
+      vehicle.takeDamage(explosion.damage * falloff, attackerPosition, explosion.ownerId);
+      const direction = offset.length() > 0 ? offset.normalize() : new Vector2(1, 0);
+      vehicle.applyImpulse(direction.multiply(explosion.force * falloff));
+      if (byPlayer) {
+        this.wantedSystem.reportCrime(CrimeType.VEHICLE_DAMAGE, this.player.getPosition());
+      }
+    }
+  }
+
+  /**
+   * 检查NPC子弹是否击中玩家和车辆
+   */
+  private checkNPCBulletHits(): void {
+    const bullets = this.npcBulletManager.getBullets();
+    const playerPos = this.player.getPosition();
+    const playerRadius = this.player.getRadius();
+    const collisionSystem = this.gameMap.getCollisionSystem();
+
+    // 遍历所有NPC子弹
+    for (let i = bullets.length - 1; i >= 0; i--) {
+      const bullet = bullets[i];
+      const bulletPos = bullet.getPosition();
+      const bulletRadius = bullet.getSize();
+      let bulletHit = false;
+
+      // 首先检查是否击中玩家（如果玩家不在车辆中）
+      if (!this.player.isInVehicle()) {
+        const distance = bulletPos.distance(playerPos);
+        if (distance < bulletRadius + playerRadius) {
+          // 子弹击中玩家
+          const damage = bullet.getDamage();
+          this.player.takeDamage(damage);
+          bulletHit = true;
+        }
+      }
+
+      // 如果子弹还没击中，检查是否击中车辆
+      if (!bulletHit) {
+        for (const id of collisionSystem.queryRadius(bulletPos, bulletRadius)) {
+          const vehicle = this.vehicleManager.getVehicle(id);
+          if (!vehicle) {
+            continue;
+          }
+
+          // 残骸挡住子弹但不会再受伤
+          if (vehicle.isWreck()) {
+            bulletHit = true;
+            break;
+          }
+          if (vehicle.getIsDead()) {
+            continue;
+          }
+
+          // 子弹击中车辆（以子弹来向作为攻击方向）
+          const damage = bullet.getDamage();
+          vehicle.takeDamage(damage, bulletPos.subtract(bullet.getDirection()));
+          bulletHit = true;
+          break;
+        }
+      }
+
+      // 如果子弹击中任何目标，删除子弹
+      if (bulletHit) {
+        this.npcBulletManager.removeBullet(i);
+      }
+    }
+  }
+
+  /**
+   * 清理超出范围的NPC子弹
+   */
+  private cleanupNPCBullets(): void {
+    const bullets = this.npcBulletManager.getBullets();
+    const playerPos = this.player.getPosition();
+
+    // 遍历所有NPC子弹，删除超出范围的
+    for (let i = bullets.length - 1; i >= 0; i--) {
+      const bullet = bullets[i];
+      const bulletPos = bullet.getPosition();
+      const distance = bulletPos.distance(playerPos);
+
+      // 如果子弹超出1000像素范围，删除它
+      if (distance > 1000) {
+        this.npcBulletManager.removeBullet(i);
+      }
+    }
+  }
+
+  /**
+   * 结算车辆与行人、步行玩家的碰撞：把人推出车身，按接近速度和车辆质量造成伤害和击退
+   */
+  private checkVehicleImpacts(currentTime: number): void {
+    const collisionSystem = this.gameMap.getCollisionSystem();
+    const playerVehicle = this.player.getCurrentVehicle();
+
+    for (const [key, readyTime] of this.vehicleHitTimes) {
+      if (readyTime <= currentTime) {
+        this.vehicleHitTimes.delete(key);
+      }
+    }
+
+    for (const vehicle of this.vehicleManager.getVehicles()) {
+      if (vehicle.isWreck()) {
+        continue;
+      }
+      for (const contact of collisionSystem.getContacts(vehicle.getId())) {
+        const npc = this.npcManager.getNPC(contact.id);
+        const isPlayer = contact.id === 'player';
+        if ((!npc || npc.getIsDead()) && !isPlayer) {
+          continue;
+        }
+
+        // 接触法向量把车推出人体，人沿反方向被推出车身
+        const away = contact.normal.multiply(-1);
+        if (npc) {
+          npc.setPosition(npc.getPosition().add(away.multiply(contact.penetration)));
+        } else {
+          this.player.moveBy(away.multiply(contact.penetration));
+        }
+
+        // 车辆朝人接近的速度太低或刚撞过时只推开
+        const velocity = vehicle.getVelocity();
+        const closingSpeed = velocity.x * away.x + velocity.y * away.y;
+        const key = `${vehicle.getId()}:${contact.id}`;
+        if (closingSpeed < this.runOverMinSpeed || this.vehicleHitTimes.has(key)) {
+          continue;
+        }
+        this.vehicleHitTimes.set(key, currentTime + this.vehicleHitCooldown);
+
+        // 按质量交换冲量：j = (1 + 回弹系数) * 接近速度 / (1/m车 + 1/m人)，车辆因此略微减速
+        const mass = vehicle.getMass();
+        const impulse = (1 + this.runOverRestitution) * closingSpeed / (1 / mass + 1 / this.pedestrianMass);
+        vehicle.applyImpulse(contact.normal.multiply(impulse));
+        const knockback = away.multiply(impulse / this.pedestrianMass);
+        const damage = (closingSpeed - this.runOverMinSpeed) * mass * this.runOverDamageFactor;
+
+        if (npc) {
+          // 玩家开车撞人算作犯罪，撞死计分
+          const byPlayer = vehicle === playerVehicle;
+          npc.takeDamage(damage, byPlayer ? this.player.getPosition() : undefined);
+          npc.applyKnockback(knockback);
+          if (byPlayer) {
+            this.reportNPCHitByPlayer(npc);
+          }
+        } else {
+          this.player.takeDamage(damage);
+          this.player.applyKnockback(knockback);
+        }
+      }
+    }
+  }
+
+  /**
+   * 看到高速驶来的车辆的行人向远离车辆行进路线的一侧扑开
+   */
+  private updatePedestrianDives(currentTime: number): void {
+    const threats = this.vehicleManager.getVehicles().filter(vehicle =>
+      !vehicle.isWreck() && vehicle.getSpeed() >= this.diveSpeedThreshold
+    );
+    if (threats.length === 0) {
+      return;
+    }
+
+    for (const npc of this.npcManager.getAllNPCs()) {
+      if (npc.getIsDead()) {
+        continue;
+      }
+      for (const vehicle of threats) {
+        const toNPC = npc.getPosition().subtract(vehicle.getPosition());
+        if (toNPC.length() > this.diveRange) {
+          continue;
+        }
+
+        // 行人在车辆行进方向的前方，且横向距离在车身宽度附近
+        const heading = vehicle.getVelocity().normalize();
+        const side = new Vector2(-heading.y, heading.x);
+        const ahead = toNPC.x * heading.x + toNPC.y * heading.y;
+        const lateral = toNPC.x * side.x + toNPC.y * side.y;
+        if (ahead <= 0 || Math.abs(lateral) > vehicle.getHeight() / 2 + npc.getRadius() + this.diveMargin) {
+          continue;
+        }
+        if (!npc.isPointInVision(vehicle.getPosition())) {
+          continue;
+        }
+
+        npc.dive(side.multiply(lateral >= 0 ? 1 : -1), currentTime);
+        break;
+      }
+    }
+  }
+
+  /**
+   * 玩家所在的车辆着火时持续受到伤害，需要在爆炸前跳车
+   */
+  private updateBurningPlayerVehicle(deltaTime: number): void {
+    const playerVehicle = this.player.getCurrentVehicle();
+    if (playerVehicle && playerVehicle.isBurning()) {
+      this.player.takeDamage(this.burningVehicleDamage * deltaTime);
+    }
+  }
+
+}
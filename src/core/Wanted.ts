@@ -0,0 +1,155 @@
+import { Vector2 } from '../utils/Vector2';
+
+/**
+ * 犯罪类型
+ */
+export enum CrimeType {
+  SHOTS_FIRED = 'shots_fired', // 在目击者面前开枪
+  VEHICLE_DAMAGE = 'vehicle_damage', // 破坏车辆
+  ASSAULT = 'assault', // 打伤行人
+  MURDER = 'murder', // 杀死行人
+  COP_KILLER = 'cop_killer' // 杀死警察
+}
+
+/**
+ * 各类犯罪增加的热度
+ */
+const CRIME_HEAT: Record<CrimeType, number> = {
+  [CrimeType.SHOTS_FIRED]: 20,
+  [CrimeType.VEHICLE_DAMAGE]: 5,
+  [CrimeType.ASSAULT]: 10,
+  [CrimeType.MURDER]: 100,
+  [CrimeType.COP_KILLER]: 250
+};
+
+/**
+ * 通缉系统 - 根据犯罪累积热度，计算0-5星通缉等级
+ */
+export class WantedSystem {
+  private heat: number = 0; // 当前热度
+  private level: number = 0; // 当前通缉星级
+  private readonly maxLevel: number = 5;
+  private readonly starThresholds: number[] = [0, 20, 150, 400, 800, 1400]; // 各星级所需热度
+  private unseenTimer: number = 0; // 玩家未被警察看到的时间（秒）
+  private baseSearchDuration: number = 6; // 躲藏多久后降低一星（秒）
+  private searchDurationPerStar: number = 2; // 每颗星额外需要躲藏的时间（秒）
+  private lastKnownPosition: Vector2 | null = null; // 警察掌握的玩家最后位置
+
+  /**
+   * 报告一次犯罪
+   */
+  reportCrime(crime: CrimeType, position: Vector2): void {
+    const maxHeat = this.starThresholds[this.maxLevel];
+    this.heat = Math.min(maxHeat, this.heat + CRIME_HEAT[crime]);
+
+    // 星级只升不降（降级由躲藏计时处理）
+    while (this.level < this.maxLevel && this.heat >= this.starThresholds[this.level + 1]) {
+      this.level++;
+    }
+
+    this.unseenTimer = 0;
+    this.lastKnownPosition = position.clone();
+  }
+
+  /**
+   * 把通缉等级提升到至少指定星级（如任务触发的追捕）
+   */
+  raiseTo(level: number, position: Vector2): void {
+    const targetLevel = Math.max(0, Math.min(this.maxLevel, Math.floor(level)));
+    if (targetLevel <= this.level) {
+      return;
+    }
+    this.level = targetLevel;
+    this.heat = Math.max(this.heat, this.starThresholds[targetLevel]);
+    this.unseenTimer = 0;
+    this.lastKnownPosition = position.clone();
+  }
+
+  /**
+   * 更新通缉状态（seen表示玩家当前是否被警察看到）
+   */
+  update(deltaTime: number, playerPosition: Vector2, seen: boolean): void {
+    if (this.level === 0) {
+      return;
+    }
+
+    if (seen) {
+      this.unseenTimer = 0;
+      this.lastKnownPosition = playerPosition.clone();
+      return;
+    }
+
+    // 躲藏足够久后降低一星
+    this.unseenTimer += deltaTime;
+    if (this.unseenTimer >= this.getSearchDuration()) {
+      this.unseenTimer = 0;
+      this.level--;
+      this.heat = this.starThresholds[this.level];
+      if (this.level === 0) {
+        this.lastKnownPosition = null;
+      }
+    }
+  }
+
+  /**
+   * 当前星级降低一星所需的躲藏时间
+   */
+  getSearchDuration(): number {
+    return this.baseSearchDuration + this.level * this.searchDurationPerStar;
+  }
+
+  /**
+   * 获取通缉星级（0-5）
+   */
+  getLevel(): number {
+    return this.level;
+  }
+
+  /**
+   * 获取最大星级
+   */
+  getMaxLevel(): number {
+    return this.maxLevel;
+  }
+
+  /**
+   * 获取当前热度
+   */
+  getHeat(): number {
+    return this.heat;
+  }
+
+  /**
+   * 警察是否正在搜索（有通缉但玩家未被看到）
+   */
+  isSearching(): boolean {
+    return this.level > 0 && this.unseenTimer > 0;
+  }
+
+  /**
+   * 获取警察掌握的玩家最后位置（无通缉时为null）
+   */
+  getLastKnownPosition(): Vector2 | null {
+    return this.lastKnownPosition ? this.lastKnownPosition.clone() : null;
+  }
+
+  /**
+   * 恢复通缉状态（读档用）
+   */
+  restore(level: number, heat: number, lastKnownPosition: Vector2 | null): void {
+    this.level = Math.max(0, Math.min(this.maxLevel, Math.floor(level)));
+    this.heat = heat;
+    this.unseenTimer = 0;
+    this.lastKnownPosition = this.level > 0 && lastKnownPosition ? lastKnownPosition.clone() : null;
+  }
+
+  /**
+   * 清除通缉（喷漆、重新开始等）
+   */
+  clear(): void {
+    this.heat = 0;
+    this.level = 0;
+    this.unseenTimer = 0;
+    this.lastKnownPosition = null;
+  }
+}
@@ -0,0 +1,305 @@
+import { Vector2 } from '../utils/Vector2';
+import { Renderer } from '../graphics/Renderer';
+import { Camera } from '../graphics/Camera';
+import { CollisionSystem, CollisionLayer } from '../world/Collision';
+
+/**
+ * 一次爆炸（伤害和冲量从中心向边缘线性衰减）
+ */
+export interface Explosion {
+  position: Vector2;
+  radius: number; // 爆炸半径
+  damage: number; // 中心处的伤害
+  force: number; // 中心处对车辆的冲量（像素/秒）
+  ownerId: string; // 引发爆炸的角色ID（用于结算犯罪和得分）
+}
+
+/**
+ * 爆炸在某距离处的衰减系数（中心为1，半径外为0）
+ */
+export function getExplosionFalloff(explosion: Explosion, distance: number): number {
+  return Math.max(0, 1 - distance / explosion.radius);
+}
+
+/**
+ * 手雷 - 投出后减速滑行，碰到建筑物和车辆会反弹，引信结束后爆炸
+ */
+export class Grenade {
+  private static readonly friction: number = 0.95; // 每1/60秒保留的速度比例
+  private position: Vector2;
+  private previousPosition: Vector2; // 上一个模拟步的位置（用于渲染插值）
+  private velocity: Vector2;
+  private fuseTimer: number; // 剩余引信时间（秒）
+  private radius: number = 4;
+  private restitution: number = 0.5; // 反弹系数
+  private explosion: Omit<Explosion, 'position'>;
+  private ignoreId: string | undefined; // 不参与碰撞的碰撞体（从车内投出时为所在车辆）
+
+  constructor(
+    position: Vector2,
+    velocity: Vector2,
+    fuseTime: number,
+    explosion: Omit<Explosion, 'position'>,
+    ignoreId?: string
+  ) {
+    this.position = position.clone();
+    this.previousPosition = position.clone();
+    this.velocity = velocity.clone();
+    this.fuseTimer = fuseTime;
+    this.explosion = explosion;
+    this.ignoreId = ignoreId;
+  }
+
+  /**
+   * 计算让手雷滑行到指定距离所需的初速度
+   */
+  static getThrowSpeed(distance: number): number {
+    // 每步速度乘以friction，总滑行距离 = v0 / 60 / (1 - friction)
+    return distance * 60 * (1 - Grenade.friction);
+  }
+
+  /**
+   * 记录当前位置，作为下一个模拟步的插值起点
+   */
+  savePreviousState(): void {
+    this.previousPosition = this.position.clone();
+  }
+
+  /**
+   * 更新手雷，引信结束时返回爆炸
+   */
+  update(deltaTime: number, collisionSystem: CollisionSystem | null): Explosion | null {
+    this.velocity = this.velocity.multiply(Math.pow(Grenade.friction, deltaTime * 60));
+    const newPosition = this.position.add(this.velocity.multiply(deltaTime));
+
+    // 碰到建筑物或车辆时沿表面法向量反弹
+    const hit = collisionSystem
+      ? collisionSystem.raycast(this.position, newPosition, CollisionLayer.BUILDING | CollisionLayer.VEHICLE, this.ignoreId)
+      : null;
+    if (hit) {
+      const velocityDotNormal = this.velocity.x * hit.normal.x + this.velocity.y * hit.normal.y;
+      this.velocity = this.velocity.subtract(hit.normal.multiply((1 + this.restitution) * velocityDotNormal));
+      this.position = hit.point.add(hit.normal.multiply(this.radius));
+    } else {
+      this.position = newPosition;
+    }
+
+    this.fuseTimer -= deltaTime;
+    if (this.fuseTimer <= 0) {
+      return { ...this.explosion, position: this.position.clone() };
+    }
+    return null;
+  }
+
+  /**
+   * 渲染手雷（引信快结束时闪烁）
+   */
+  render(renderer: Renderer, camera: Camera, alpha: number = 1): void {
+    const screenPos = camera.worldToScreen(this.previousPosition.lerp(this.position, alpha));
+    const blinking = this.fuseTimer < 0.5 && Math.floor(this.fuseTimer * 10) % 2 === 0;
+    renderer.drawCircle(screenPos, this.radius * camera.getZoom(), blinking ? '#ff0000' : '#556b2f', true);
+  }
+
+  /**
+   * 获取位置
+   */
+  getPosition(): Vector2 {
+    return this.position.clone();
+  }
+}
+
+/**
+ * 火箭弹 - 直线飞行，命中建筑物、车辆或角色时爆炸，超出射程时也会爆炸
+ */
+export class Rocket {
+  private position: Vector2;
+  private previousPosition: Vector2; // 上一个模拟步的位置（用于渲染插值）
+  private velocity: Vector2;
+  private range: number;
+  private distanceTraveled: number = 0;
+  private size: number;
+  private ignoreId: string; // 不参与碰撞的碰撞体（步行时为发射者自身，在车内时为所在车辆）
+  private explosion: Omit<Explosion, 'position'>;
+
+  constructor(
+    position: Vector2,
+    direction: Vector2,
+    speed: number,
+    range: number,
+    size: number,
+    explosion: Omit<Explosion, 'position'>,
+    ignoreId: string = explosion.ownerId
+  ) {
+    this.position = position.clone();
+    this.previousPosition = position.clone();
+    this.velocity = direction.normalize().multiply(speed);
+    this.range = range;
+    this.size = size;
+    this.ignoreId = ignoreId;
+    this.explosion = explosion;
+  }
+
+  /**
+   * 记录当前位置，作为下一个模拟步的插值起点
+   */
+  savePreviousState(): void {
+    this.previousPosition = this.position.clone();
+  }
+
+  /**
+   * 更新火箭弹，命中或超出射程时返回爆炸
+   */
+  update(deltaTime: number, collisionSystem: CollisionSystem | null): Explosion | null {
+    const movement = this.velocity.multiply(deltaTime);
+    const newPosition = this.position.add(movement);
+
+    // 用射线检测本步的飞行路径，避免高速穿过薄的碰撞体
+    const mask = CollisionLayer.BUILDING | CollisionLayer.VEHICLE | CollisionLayer.CHARACTER;
+    const hit = collisionSystem ? collisionSystem.raycast(this.position, newPosition, mask, this.ignoreId) : null;
+    if (hit) {
+      // 在命中点稍前方爆炸，避免爆炸中心被建筑物遮挡
+      this.position = hit.point.add(hit.normal.multiply(2));
+      return { ...this.explosion, position: this.position.clone() };
+    }
+
+    this.position = newPosition;
+    this.distanceTraveled += movement.length();
+    if (this.distanceTraveled > this.range) {
+      return { ...this.explosion, position: this.position.clone() };
+    }
+    return null;
+  }
+
+  /**
+   * 渲染火箭弹（弹体和尾焰）
+   */
+  render(renderer: Renderer, camera: Camera, alpha: number = 1): void {
+    const position = this.previousPosition.lerp(this.position, alpha);
+    const zoom = camera.getZoom();
+    const screenPos = camera.worldToScreen(position);
+    const tail = camera.worldToScreen(position.subtract(this.velocity.normalize().multiply(this.size * 3)));
+    renderer.drawLine(tail, screenPos, '#ff9800', this.size * zoom);
+    renderer.drawCircle(screenPos, this.size * zoom, '#eeeeee', true);
+  }
+}
+
+/**
+ * 爆炸特效
+ */
+interface ExplosionEffect {
+  position: Vector2;
+  radius: number;
+  age: number; // 已持续时间（秒）
+}
+
+/**
+ * 爆炸物管理器 - 管理飞行中的手雷、火箭弹和爆炸特效
+ */
+export class ExplosiveManager {
+  private grenades: Grenade[] = [];
+  private rockets: Rocket[] = [];
+  private pendingExplosions: Explosion[] = []; // 等待结算的爆炸（如车辆爆炸）
+  private effects: ExplosionEffect[] = [];
+  private effectDuration: number = 0.4; // 爆炸特效持续时间（秒）
+
+  /**
+   * 添加手雷
+   */
+  addGrenade(grenade: Grenade): void {
+    this.grenades.push(grenade);
+  }
+
+  /**
+   * 添加火箭弹
+   */
+  addRocket(rocket: Rocket): void {
+    this.rockets.push(rocket);
+  }
+
+  /**
+   * 添加一次爆炸，在下次update时结算
+   */
+  addExplosion(explosion: Explosion): void {
+    this.pendingExplosions.push(explosion);
+  }
+
+  /**
+   * 更新手雷、火箭弹和特效，返回本步发生的所有爆炸
+   */
+  update(deltaTime: number, collisionSystem: CollisionSystem | null): Explosion[] {
+    const explosions = this.pendingExplosions;
+    this.pendingExplosions = [];
+
+    for (let i = this.grenades.length - 1; i >= 0; i--) {
+      const explosion = this.grenades[i].update(deltaTime, collisionSystem);
+      if (explosion) {
+        explosions.push(explosion);
+        this.grenades.splice(i, 1);
+      }
+    }
+
+    for (let i = this.rockets.length - 1; i >= 0; i--) {
+      const explosion = this.rockets[i].update(deltaTime, collisionSystem);
+      if (explosion) {
+        explosions.push(explosion);
+        this.rockets.splice(i, 1);
+      }
+    }
+
+    for (const effect of this.effects) {
+      effect.age += deltaTime;
+    }
+    this.effects = this.effects.filter(effect => effect.age < this.effectDuration);
+    for (const explosion of explosions) {
+      this.effects.push({ position: explosion.position.clone(), radius: explosion.radius, age: 0 });
+    }
+
+    return explosions;
+  }
+
+  /**
+   * 记录所有爆炸物的位置（用于渲染插值）
+   */
+  savePreviousStates(): void {
+    for (const grenade of this.grenades) {
+      grenade.savePreviousState();
+    }
+    for (const rocket of this.rockets) {
+      rocket.savePreviousState();
+    }
+  }
+
+  /**
+   * 渲染爆炸物和爆炸特效
+   */
+  render(renderer: Renderer, camera: Camera, alpha: number = 1): void {
+    for (const grenade of this.grenades) {
+      grenade.render(renderer, camera, alpha);
+    }
+    for (const rocket of this.rockets) {
+      rocket.render(renderer, camera, alpha);
+    }
+
+    // 爆炸特效：火球迅速扩大并淡出
+    const ctx = renderer.getContext();
+    for (const effect of this.effects) {
+      const progress = effect.age / this.effectDuration;
+      const screenPos = camera.worldToScreen(effect.position);
+      ctx.save();
+      ctx.globalAlpha = 1 - progress;
+      renderer.drawCircle(screenPos, effect.radius * (0.4 + 0.6 * progress) * camera.getZoom(), '#ff6f00', true);
+      renderer.drawCircle(screenPos, effect.radius * 0.4 * (1 - progress) * camera.getZoom(), '#ffeb3b', true);
+      ctx.restore();
+    }
+  }
+
+  /**
+   * 清空所有爆炸物和特效
+   */
+  clear(): void {
+    this.grenades = [];
+    this.rockets = [];
+    this.pendingExplosions = [];
+    this.effects = [];
+  }
+}
@@ -1,13 +1,17 @@
 import { Vector2 } from '../utils/Vector2';
 import { Renderer } from '../graphics/Renderer';
 import { Camera } from '../graphics/Camera';
-import { WeaponType } from './Weapon';
+import { PickupIcon, weaponRegistry } from './Weapon';
+import { meleeRegistry } from './Melee';
+import { PickupKind, pickupRegistry } from './Pickup';
 
 /**
  * 物品类型
  */
 export enum ItemType {
-  WEAPON = 'weapon'
+  WEAPON = 'weapon',
+  MELEE = 'melee', // 近战武器
+  PICKUP = 'pickup' // 血包、护甲、弹药、现金和加成（效果见拾取物定义）
 }
 
 /**
@@ -16,39 +20,61 @@ export enum ItemType {
 export class Item {
   private position: Vector2;
   private type: ItemType;
-  private weaponType: WeaponType;
+  private key: string; // 枪械类型、近战武器类型或拾取物ID
+  private pickupIcon: PickupIcon | null; // 武器图标（拾取物为null）
+  private pickupKind: PickupKind | null; // 拾取物效果类型（武器为null）
+  private label: string | null; // 物品下方显示的名称（null表示不显示）
+  private ammo: number | null; // 附带的弹药数（null表示默认数量）
+  private magnetRadius: number = 0; // 吸附半径（0表示不吸附）
+  private magnetSpeed: number = 250; // 被吸向玩家的速度（像素/秒）
   private radius: number = 8;
   private color: string;
   private id: string;
   private rotationAngle: number = 0;
 
-  constructor(id: string, position: Vector2, weaponType: WeaponType) {
+  constructor(id: string, position: Vector2, key: string, type: ItemType = ItemType.WEAPON, ammo: number | null = null) {
     this.id = id;
     this.position = position.clone();
-    this.type = ItemType.WEAPON;
-    this.weaponType = weaponType;
-    this.color = this.getColorByWeapon(weaponType);
-  }
-
-  /**
-   * 根据武器类型获取颜色
-   */
-  private getColorByWeapon(weaponType: WeaponType): string {
-    switch (weaponType) {
-      case WeaponType.PISTOL:
-        return '#ffff00'; // 黄色 - 手枪
-      case WeaponType.RIFLE:
-        return '#00ff00'; // 绿色 - 步枪
-      case WeaponType.SHOTGUN:
-        return '#ff6600'; // 橙色 - 霰弹枪
+    this.type = type;
+    this.key = key;
+    this.ammo = ammo;
+    this.pickupIcon = null;
+    this.pickupKind = null;
+
+    // 从对应的注册表读取图标、颜色和名称
+    if (type === ItemType.PICKUP) {
+      const pickupConfig = pickupRegistry.get(key);
+      this.pickupKind = pickupConfig.kind;
+      this.color = pickupConfig.color;
+      this.label = pickupConfig.name;
+      this.magnetRadius = pickupConfig.magnetRadius;
+    } else if (type === ItemType.MELEE) {
+      const meleeConfig = meleeRegistry.get(key);
+      this.pickupIcon = meleeConfig.pickupIcon;
+      this.color = meleeConfig.color;
+      this.label = meleeConfig.name;
+    } else {
+      const weaponConfig = weaponRegistry.get(key);
+      this.pickupIcon = weaponConfig.pickupIcon;
+      this.color = weaponConfig.color;
+      this.label = weaponConfig.showPickupLabel ? weaponConfig.name : null;
     }
   }
 
   /**
-   * 更新物品（旋转动画）
+   * 更新物品（旋转动画，玩家进入吸附半径时飞向玩家）
    */
-  update(deltaTime: number): void {
+  update(deltaTime: number, playerPosition: Vector2 | null = null): void {
     this.rotationAngle += deltaTime * 3; // 每秒旋转3弧度
+
+    if (playerPosition && this.magnetRadius > 0) {
+      const toPlayer = playerPosition.subtract(this.position);
+      const distance = toPlayer.length();
+      if (distance > 0 && distance < this.magnetRadius) {
+        const step = Math.min(distance, this.magnetSpeed * deltaTime);
+        this.position = this.position.add(toPlayer.normalize().multiply(step));
+      }
+    }
   }
 
   /**
@@ -63,16 +89,31 @@ export class Item {
     ctx.translate(screenPos.x, screenPos.y);
     ctx.rotate(this.rotationAngle);
 
-    // 根据武器类型绘制不同的形状
-    switch (this.weaponType) {
-      case WeaponType.PISTOL:
-        this.drawPistolIcon(ctx, zoom);
+    // 拾取物按效果类型绘制，武器按定义中的图标绘制
+    switch (this.pickupKind ?? this.pickupIcon) {
+      case PickupIcon.STAR:
+        this.drawStarIcon(ctx, zoom);
+        break;
+      case PickupIcon.BOX:
+        this.drawBoxIcon(ctx, zoom);
+        break;
+      case PickupIcon.PELLETS:
+        this.drawPelletsIcon(ctx, zoom);
+        break;
+      case PickupKind.HEALTH:
+        this.drawCrossIcon(ctx, zoom);
         break;
-      case WeaponType.RIFLE:
-        this.drawRifleIcon(ctx, zoom);
+      case PickupKind.ARMOR:
+        this.drawShieldIcon(ctx, zoom);
         break;
-      case WeaponType.SHOTGUN:
-        this.drawShotgunIcon(ctx, zoom);
+      case PickupKind.AMMO:
+        this.drawAmmoIcon(ctx, zoom);
+        break;
+      case PickupKind.MONEY:
+        this.drawMoneyIcon(ctx, zoom);
+        break;
+      case PickupKind.POWER_UP:
+        this.drawPowerUpIcon(ctx, zoom);
         break;
     }
 
@@ -89,19 +130,11 @@ export class Item {
    * 绘制武器类型标签
    */
   private drawWeaponLabel(renderer: Renderer, screenPos: Vector2, zoom: number): void {
-    const ctx = renderer.getContext();
-    let weaponName = '';
-
-    switch (this.weaponType) {
-      case WeaponType.RIFLE:
-        weaponName = '步枪';
-        break;
-      case WeaponType.SHOTGUN:
-        weaponName = '霰弹枪';
-        break;
-      default:
-        return; // 手枪不显示标签
+    if (this.label === null) {
+      return;
     }
+    const ctx = renderer.getContext();
+    const weaponName = this.label;
 
     // 绘制文字
     ctx.fillStyle = this.color;
@@ -112,9 +145,9 @@ export class Item {
   }
 
   /**
-   * 绘制手枪图标（五角星）
+   * 绘制五角星图标
    */
-  private drawPistolIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
+  private drawStarIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
     ctx.fillStyle = this.color;
     ctx.beginPath();
     for (let i = 0; i < 5; i++) {
@@ -132,9 +165,9 @@ export class Item {
   }
 
   /**
-   * 绘制步枪图标（矩形）
+   * 绘制矩形图标
    */
-  private drawRifleIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
+  private drawBoxIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
     ctx.fillStyle = this.color;
     const width = this.radius * 1.5 * zoom;
     const height = this.radius * 0.8 * zoom;
@@ -147,9 +180,9 @@ export class Item {
   }
 
   /**
-   * 绘制霰弹枪图标（圆形）
+   * 绘制带分割线的圆形图标（表示多个弹头）
    */
-  private drawShotgunIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
+  private drawPelletsIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
     ctx.fillStyle = this.color;
     ctx.beginPath();
     ctx.arc(0, 0, this.radius * zoom, 0, Math.PI * 2);
@@ -174,6 +207,95 @@ export class Item {
     }
   }
 
+  /**
+   * 绘制医疗包图标（白底十字）
+   */
+  private drawCrossIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
+    const size = this.radius * 1.6 * zoom;
+    const arm = size / 3;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(-size / 2, -size / 2, size, size);
+    ctx.fillStyle = this.color;
+    ctx.fillRect(-arm / 2, -size / 2 + 2 * zoom, arm, size - 4 * zoom);
+    ctx.fillRect(-size / 2 + 2 * zoom, -arm / 2, size - 4 * zoom, arm);
+  }
+
+  /**
+   * 绘制护甲图标（盾牌）
+   */
+  private drawShieldIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
+    const r = this.radius * zoom;
+    ctx.fillStyle = this.color;
+    ctx.beginPath();
+    ctx.moveTo(0, -r);
+    ctx.lineTo(r, -r * 0.6);
+    ctx.quadraticCurveTo(r, r * 0.5, 0, r);
+    ctx.quadraticCurveTo(-r, r * 0.5, -r, -r * 0.6);
+    ctx.closePath();
+    ctx.fill();
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+
+  /**
+   * 绘制弹药箱图标（矩形加三颗子弹）
+   */
+  private drawAmmoIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
+    const width = this.radius * 1.6 * zoom;
+    const height = this.radius * 1.2 * zoom;
+    ctx.fillStyle = '#5d4037';
+    ctx.fillRect(-width / 2, -height / 2, width, height);
+    ctx.strokeStyle = this.color;
+    ctx.lineWidth = 2 * zoom;
+    for (let i = -1; i <= 1; i++) {
+      const x = (i * width) / 4;
+      ctx.beginPath();
+      ctx.moveTo(x, -height / 3);
+      ctx.lineTo(x, height / 3);
+      ctx.stroke();
+    }
+  }
+
+  /**
+   * 绘制现金图标（带$的圆形，不随动画旋转）
+   */
+  private drawMoneyIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
+    ctx.rotate(-this.rotationAngle);
+    ctx.fillStyle = this.color;
+    ctx.beginPath();
+    ctx.arc(0, 0, this.radius * zoom, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${12 * zoom}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('$', 0, 0);
+  }
+
+  /**
+   * 绘制加成图标（闪电外加一圈脉动的光环）
+   */
+  private drawPowerUpIcon(ctx: CanvasRenderingContext2D, zoom: number): void {
+    const r = this.radius * zoom;
+    ctx.strokeStyle = this.color;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(0, 0, r * (1.2 + 0.2 * Math.sin(this.rotationAngle * 2)), 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.fillStyle = this.color;
+    ctx.beginPath();
+    ctx.moveTo(r * 0.2, -r);
+    ctx.lineTo(-r * 0.5, r * 0.1);
+    ctx.lineTo(0, r * 0.1);
+    ctx.lineTo(-r * 0.2, r);
+    ctx.lineTo(r * 0.5, -r * 0.1);
+    ctx.lineTo(0, -r * 0.1);
+    ctx.closePath();
+    ctx.fill();
+  }
+
   /**
    * 获取位置
    */
@@ -189,10 +311,24 @@ export class Item {
   }
 
   /**
-   * 获取武器类型
+   * 获取物品类型
    */
-  getWeaponType(): WeaponType {
-    return this.weaponType;
+  getType(): ItemType {
+    return this.type;
+  }
+
+  /**
+   * 获取类型键（枪械类型、近战武器类型或拾取物ID）
+   */
+  getKey(): string {
+    return this.key;
+  }
+
+  /**
+   * 获取附带的弹药数（null表示默认数量）
+   */
+  getAmmo(): number | null {
+    return this.ammo;
   }
 
   /**
@@ -213,9 +349,9 @@ export class ItemManager {
   /**
    * 添加物品
    */
-  addItem(position: Vector2, weaponType: WeaponType): Item {
+  addItem(position: Vector2, key: string, type: ItemType = ItemType.WEAPON, ammo: number | null = null): Item {
     const itemId = `item_${this.itemIdCounter++}`;
-    const item = new Item(itemId, position, weaponType);
+    const item = new Item(itemId, position, key, type, ammo);
     this.items.set(itemId, item);
     return item;
   }
@@ -244,9 +380,9 @@ export class ItemManager {
   /**
    * 更新所有物品
    */
-  update(deltaTime: number): void {
+  update(deltaTime: number, playerPosition: Vector2 | null = null): void {
     for (const item of this.items.values()) {
-      item.update(deltaTime);
+      item.update(deltaTime, playerPosition);
     }
   }
 
@@ -273,3 +409,84 @@ export class ItemManager {
     this.items.clear();
   }
 }
+
+/**
+ * 生成表中的一项
+ */
+interface SpawnEntry {
+  type: ItemType;
+  key: string;
+  weight: number; // 生成权重
+  respawnTime: number; // 被拾取后的冷却时间（秒）
+  cooldown: number; // 剩余冷却时间（秒）
+}
+
+/**
+ * 物品生成表 - 汇总枪械、近战武器和拾取物的生成权重，被拾取的种类冷却一段时间后才会再次生成
+ */
+export class ItemSpawnTable {
+  private entries: SpawnEntry[] = [];
+
+  constructor() {
+    for (const config of weaponRegistry.getSpawnableTypes()) {
+      this.entries.push({ type: ItemType.WEAPON, key: config.type, weight: config.spawnWeight, respawnTime: 0, cooldown: 0 });
+    }
+    for (const config of meleeRegistry.getAll().filter(config => config.spawnWeight > 0)) {
+      this.entries.push({ type: ItemType.MELEE, key: config.type, weight: config.spawnWeight, respawnTime: 0, cooldown: 0 });
+    }
+    for (const config of pickupRegistry.getAll().filter(config => config.spawnWeight > 0)) {
+      this.entries.push({
+        type: ItemType.PICKUP,
+        key: config.id,
+        weight: config.spawnWeight,
+        respawnTime: config.respawnTime,
+        cooldown: 0
+      });
+    }
+  }
+
+  /**
+   * 更新冷却时间
+   */
+  update(deltaTime: number): void {
+    for (const entry of this.entries) {
+      entry.cooldown = Math.max(0, entry.cooldown - deltaTime);
+    }
+  }
+
+  /**
+   * 按权重在未冷却的种类中随机选择（roll为[0, 1)的随机数，全部冷却时返回null）
+   */
+  pick(roll: number): { type: ItemType; key: string } | null {
+    const available = this.entries.filter(entry => entry.cooldown <= 0);
+    const totalWeight = available.reduce((sum, entry) => sum + entry.weight, 0);
+    let remaining = roll * totalWeight;
+    for (const entry of available) {
+      remaining -= entry.weight;
+      if (remaining < 0) {
+        return { type: entry.type, key: entry.key };
+      }
+    }
+    const last = available[available.length - 1];
+    return last ? { type: last.type, key: last.key } : null;
+  }
+
+  /**
+   * 记录某种物品被拾取，开始冷却
+   */
+  markCollected(type: ItemType, key: string): void {
+    const entry = this.entries.find(entry => entry.type === type && entry.key === key);
+    if (entry) {
+      entry.cooldown = entry.respawnTime;
+    }
+  }
+
+  /**
+   * 重置所有冷却
+   */
+  reset(): void {
+    for (const entry of this.entries) {
+      entry.cooldown = 0;
+    }
+  }
+}
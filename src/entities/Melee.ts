@@ -0,0 +1,265 @@
+import { Vector2 } from '../utils/Vector2';
+import { DataReader } from '../utils/DataReader';
+import { PickupIcon } from './Weapon';
+import meleeDefinitions from '../data/melee.json';
+
+/**
+ * 近战武器类型（对应近战武器定义中的id）
+ */
+export type MeleeType = string;
+
+/**
+ * 近战武器定义（从JSON加载）
+ */
+export interface MeleeConfig {
+  type: MeleeType;
+  name: string; // 显示名称
+  isDefault: boolean; // 是否为默认近战武器（拳头）
+  spawnWeight: number; // 作为随机物品生成的权重（0表示不生成）
+  damage: number; // 基础伤害
+  range: number; // 攻击距离（从角色边缘算起）
+  arcAngle: number; // 攻击扇形角度（度数）
+  cooldown: number; // 两次攻击的最小间隔（秒）
+  knockback: number; // 击退速度（像素/秒）
+  comboWindow: number; // 连击间隔上限（秒）
+  comboMultipliers: number[]; // 连击各段的伤害和击退倍率
+  chargeTime: number; // 蓄力攻击需要按住的时间（秒）
+  chargeMultiplier: number; // 蓄力攻击的伤害和击退倍率
+  color: string; // 拾取物和挥击特效的颜色
+  pickupIcon: PickupIcon; // 拾取物图标
+}
+
+/**
+ * 一次近战攻击
+ */
+export interface MeleeAttack {
+  damage: number;
+  range: number;
+  arcAngle: number; // 扇形角度（度数）
+  knockback: number; // 击退速度
+  charged: boolean; // 是否为蓄力攻击
+  comboStep: number; // 连击段数（从0开始）
+}
+
+/**
+ * 判断圆形目标是否在攻击扇形内
+ */
+export function isInMeleeArc(
+  origin: Vector2,
+  direction: Vector2,
+  target: Vector2,
+  targetRadius: number,
+  range: number,
+  arcAngle: number
+): boolean {
+  const toTarget = target.subtract(origin);
+  const distance = toTarget.length();
+  if (distance > range + targetRadius) {
+    return false;
+  }
+  // 贴身时不检查角度
+  if (distance <= targetRadius) {
+    return true;
+  }
+
+  const angle = Math.acos(Math.max(-1, Math.min(1, (toTarget.x * direction.x + toTarget.y * direction.y) / distance)));
+  // 目标半径让扇形边缘多出一点角度
+  const radiusAngle = Math.asin(Math.min(1, targetRadius / distance));
+  return angle <= (arcAngle * Math.PI) / 360 + radiusAngle;
+}
+
+/**
+ * 近战武器注册表 - 加载并检查近战武器定义
+ */
+export class MeleeRegistry {
+  private configs: Map<MeleeType, MeleeConfig> = new Map();
+  private defaultType: MeleeType;
+
+  constructor(definitions: unknown) {
+    if (!Array.isArray(definitions) || definitions.length === 0) {
+      throw new Error('Melee definitions must be a non-empty array');
+    }
+
+    for (const definition of definitions) {
+      const config = this.parseDefinition(definition);
+      if (this.configs.has(config.type)) {
+        throw new Error(`Duplicate melee weapon id ${config.type}`);
+      }
+      this.configs.set(config.type, config);
+    }
+
+    const defaults = this.getAll().filter(config => config.isDefault);
+    if (defaults.length !== 1) {
+      throw new Error(`Exactly one default melee weapon is required, found ${defaults.length}`);
+    }
+    this.defaultType = defaults[0].type;
+  }
+
+  /**
+   * 检查并补全单个近战武器定义
+   */
+  private parseDefinition(raw: unknown): MeleeConfig {
+    const reader = DataReader.forDefinition(raw, 'Melee weapon');
+
+    return {
+      type: reader.string('id'),
+      name: reader.string('name'),
+      isDefault: reader.boolean('default'),
+      spawnWeight: reader.optionalNumber('spawnWeight', { min: 0 }) ?? 0,
+      damage: reader.number('damage', { min: 0 }),
+      range: reader.number('range', { positive: true }),
+      arcAngle: reader.number('arcAngle', { positive: true, max: 360 }),
+      cooldown: reader.number('cooldown', { positive: true }),
+      knockback: reader.number('knockback', { min: 0 }),
+      comboWindow: reader.number('comboWindow', { positive: true }),
+      comboMultipliers: [...reader.numbers('comboMultipliers', { positive: true })],
+      chargeTime: reader.number('chargeTime', { positive: true }),
+      chargeMultiplier: reader.number('chargeMultiplier', { positive: true }),
+      color: reader.string('color'),
+      pickupIcon: reader.enumValue('pickupIcon', PickupIcon)
+    };
+  }
+
+  /**
+   * 是否存在该近战武器
+   */
+  has(type: MeleeType): boolean {
+    return this.configs.has(type);
+  }
+
+  /**
+   * 获取近战武器定义
+   */
+  get(type: MeleeType): MeleeConfig {
+    const config = this.configs.get(type);
+    if (!config) {
+      throw new Error(`Unknown melee weapon type ${type}`);
+    }
+    return config;
+  }
+
+  /**
+   * 获取所有近战武器定义（按JSON中的顺序）
+   */
+  getAll(): MeleeConfig[] {
+    return Array.from(this.configs.values());
+  }
+
+  /**
+   * 获取默认近战武器类型
+   */
+  getDefaultType(): MeleeType {
+    return this.defaultType;
+  }
+}
+
+/**
+ * 全局近战武器注册表
+ */
+export const meleeRegistry = new MeleeRegistry(meleeDefinitions);
+
+/**
+ * 近战武器类 - 按下开始蓄力，松开时出手；快速连续出手形成连击
+ */
+export class MeleeWeapon {
+  private type: MeleeType;
+  private config: MeleeConfig;
+  private lastAttackTime: number = -Infinity; // 上次出手时间
+  private comboStep: number = 0; // 下一击在连击中的段数
+  private chargeStartTime: number | null = null; // 开始蓄力的时间（未蓄力时为null）
+
+  constructor(type: MeleeType) {
+    this.type = type;
+    this.config = meleeRegistry.get(type);
+  }
+
+  /**
+   * 开始蓄力（按下攻击键）
+   */
+  startCharge(currentTime: number): void {
+    if (this.chargeStartTime === null) {
+      this.chargeStartTime = currentTime;
+    }
+  }
+
+  /**
+   * 取消蓄力（如上车）
+   */
+  cancelCharge(): void {
+    this.chargeStartTime = null;
+  }
+
+  /**
+   * 是否正在蓄力
+   */
+  isCharging(): boolean {
+    return this.chargeStartTime !== null;
+  }
+
+  /**
+   * 获取蓄力进度（0-1）
+   */
+  getChargeProgress(currentTime: number): number {
+    if (this.chargeStartTime === null) {
+      return 0;
+    }
+    return Math.min((currentTime - this.chargeStartTime) / this.config.chargeTime, 1);
+  }
+
+  /**
+   * 出手（松开攻击键），冷却中时返回null
+   */
+  release(currentTime: number): MeleeAttack | null {
+    if (this.chargeStartTime === null) {
+      return null;
+    }
+    const heldTime = currentTime - this.chargeStartTime;
+    this.chargeStartTime = null;
+
+    if (currentTime - this.lastAttackTime < this.config.cooldown) {
+      return null;
+    }
+
+    // 蓄满力时打出蓄力攻击，否则按连击段数计算倍率
+    const charged = heldTime >= this.config.chargeTime;
+    if (charged || currentTime - this.lastAttackTime > this.config.comboWindow) {
+      this.comboStep = 0;
+    }
+    const comboStep = this.comboStep;
+    const multiplier = charged ? this.config.chargeMultiplier : this.config.comboMultipliers[comboStep];
+    if (!charged) {
+      this.comboStep = (this.comboStep + 1) % this.config.comboMultipliers.length;
+    }
+    this.lastAttackTime = currentTime;
+
+    return {
+      damage: this.config.damage * multiplier,
+      range: charged ? this.config.range * 1.25 : this.config.range,
+      arcAngle: this.config.arcAngle,
+      knockback: this.config.knockback * multiplier,
+      charged,
+      comboStep
+    };
+  }
+
+  /**
+   * 获取近战武器定义
+   */
+  getConfig(): MeleeConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 获取近战武器类型
+   */
+  getType(): MeleeType {
+    return this.type;
+  }
+
+  /**
+   * 获取近战武器名称
+   */
+  getName(): string {
+    return this.config.name;
+  }
+}
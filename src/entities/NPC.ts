@@ -1,7 +1,9 @@
 import { Vector2 } from '../utils/Vector2';
 import { Renderer } from '../graphics/Renderer';
 import { Camera } from '../graphics/Camera';
-import { CollisionSystem } from '../world/Collision';
+import { CollisionSystem, CollisionLayer } from '../world/Collision';
+import { Pathfinder } from '../world/Pathfinding';
+import { Weapon } from './Weapon';
 
 /**
  * NPC行为类型
@@ -18,6 +20,7 @@ export enum NPCBehavior {
  */
 export class NPC {
   private position: Vector2;
+  private previousPosition: Vector2; // 上一个模拟步的位置（用于渲染插值）
   private velocity: Vector2;
   private speed: number = 40; // 像素/秒（修改为一半）
   private radius: number = 6;
@@ -34,17 +37,42 @@ export class NPC {
   private visionRange: number = 125; // 视野范围（圆锥的半径）
   private visionAngle: number = 120; // 视野角度（度数）
   private showVision: boolean = true; // 是否显示视野
+  private visionRayStep: number = 3; // 绘制视野轮廓的射线间隔（度数）
   private fleeRange: number = 150; // 逃离范围
   private maxHealth: number = 50; // 最大血量
   private health: number = 50; // 当前血量
   private isDead: boolean = false; // 是否已死亡
-  private lastShotTime: number = 0; // 上次射击时间
-  private shotCooldown: number = 0.5; // 射击冷却时间（秒）
-  private onShoot: ((position: Vector2, direction: Vector2) => void) | null = null; // 射击回调
+  private lastShotTime: number = 0; // 上次扣动扳机的时间
+  private shotCooldown: number = 0.5; // 两次扣动扳机的最小间隔（秒）
+  private onShoot: ((position: Vector2, direction: Vector2, weapon: Weapon) => void) | null = null; // 射击回调
+  private archetype: string = ''; // NPC原型ID
+  private weapon: Weapon | null = null; // 携带的武器（null表示空手）
+  private meleeRange: number = 20; // 近战距离（中心距离）
+  private meleeDamage: number = 8; // 近战伤害
+  private meleeCooldown: number = 0.8; // 近战冷却时间（秒）
+  private lastMeleeTime: number = 0; // 上次近战时间
+  private onMelee: ((position: Vector2, direction: Vector2, damage: number) => void) | null = null; // 近战回调
+  private knockback: Vector2 = new Vector2(0, 0); // 被击退的速度（逐渐衰减）
+  private knockbackDamping: number = 0.85; // 每1/60秒保留的击退速度比例
+  private diveSpeed: number = 300; // 扑开躲避来车的速度
+  private diveCooldown: number = 1.5; // 两次扑开的最小间隔（秒）
+  private lastDiveTime: number = -Infinity; // 上次扑开的时间
+  private pathfinder: Pathfinder | null = null; // 寻路服务（未设置时直线移动）
+  private path: Vector2[] = []; // 当前路径的途经点
+  private pathIndex: number = 0; // 正在前往的途经点索引
+  private pathGoal: Vector2 | null = null; // 当前路径规划时的目标点
+  private replanTimer: number = 0; // 距离允许重新规划的剩余时间（秒）
+  private replanInterval: number = 0.5; // 目标移动时重新规划的最小间隔（秒）
+  private waypointRadius: number = 8; // 到达途经点的判定距离
+  private stuckTimer: number = 0; // 移动受阻的累计时间（秒）
+  private maxStuckTime: number = 0.5; // 受阻超过此时间后重新规划路径
+  private police: boolean = false; // 是否为警察
+  private pursuitTarget: Vector2 | null = null; // 警察追捕的目标位置（玩家最后出现的位置）
 
   constructor(id: string, position: Vector2) {
     this.id = id;
     this.position = position.clone();
+    this.previousPosition = position.clone();
     this.velocity = new Vector2(0, 0);
     this.health = this.maxHealth;
   }
@@ -57,10 +85,55 @@ export class NPC {
     this.collisionSystem.register(this.id, {
       position: this.position.clone(),
       radius: this.radius,
-      type: 'circle'
+      type: 'circle',
+      layer: CollisionLayer.CHARACTER
     });
   }
 
+  /**
+   * 设置寻路服务
+   */
+  setPathfinder(pathfinder: Pathfinder): void {
+    this.pathfinder = pathfinder;
+    this.clearPath();
+  }
+
+  /**
+   * 设为警察（更耐打、视野更远、射速更快）
+   */
+  setPolice(police: boolean): void {
+    this.police = police;
+    if (police) {
+      this.color = '#1a237e';
+      this.maxHealth = 80;
+      this.health = this.maxHealth;
+      this.speed = 50;
+      this.visionRange = 200;
+      this.shotCooldown = 0.4;
+    }
+  }
+
+  /**
+   * 是否为警察
+   */
+  isPolice(): boolean {
+    return this.police;
+  }
+
+  /**
+   * 设置警察追捕的目标位置（null表示停止追捕）
+   */
+  setPursuitTarget(position: Vector2 | null): void {
+    this.pursuitTarget = position ? position.clone() : null;
+  }
+
+  /**
+   * 是否敌视玩家（普通NPC总是敌视，警察只在追捕时敌视）
+   */
+  isHostile(): boolean {
+    return !this.police || this.pursuitTarget !== null;
+  }
+
   /**
    * 设置巡逻路线
    */
@@ -76,6 +149,9 @@ export class NPC {
    * 设置行为
    */
   setBehavior(behavior: NPCBehavior): void {
+    if (behavior !== this.behavior) {
+      this.clearPath();
+    }
     this.behavior = behavior;
     if (behavior === NPCBehavior.IDLE) {
       this.idleTimer = 0;
@@ -90,17 +166,36 @@ export class NPC {
     return this.behavior;
   }
 
+  /**
+   * 记录当前位置，作为下一个模拟步的插值起点
+   */
+  savePreviousState(): void {
+    this.previousPosition = this.position.clone();
+  }
+
+  /**
+   * 获取渲染用的插值位置
+   */
+  getInterpolatedPosition(alpha: number): Vector2 {
+    return this.previousPosition.lerp(this.position, alpha);
+  }
+
   /**
    * 更新NPC状态
    */
   update(deltaTime: number, playerPosition: Vector2, currentTime: number = 0): void {
+    // 更新武器的装弹状态
+    if (this.weapon) {
+      this.weapon.updateReload(currentTime);
+    }
+
     // 更新朝向（基于速度方向）
     if (this.velocity.length() > 0) {
       this.direction = this.velocity.normalize();
     }
 
     // 检查玩家是否在视野内
-    const playerInVision = this.isPointInVision(playerPosition);
+    const playerInVision = this.isHostile() && this.isPointInVision(playerPosition);
 
     // 根据视野改变行为
     if (playerInVision) {
@@ -113,8 +208,16 @@ export class NPC {
         this.direction = toPlayer.normalize();
       }
 
-      // 尝试射击
-      this.tryShoot(currentTime);
+      // 贴近时近战，否则尝试射击
+      if (toPlayer.length() <= this.meleeRange) {
+        this.tryMelee(currentTime);
+      } else {
+        this.tryShoot(currentTime, playerPosition);
+      }
+    } else if (this.pursuitTarget) {
+      // 警察前往玩家最后出现的位置搜索
+      this.setBehavior(NPCBehavior.CHASE);
+      this.targetPosition = this.pursuitTarget.clone();
     } else if (this.behavior === NPCBehavior.CHASE) {
       this.setBehavior(NPCBehavior.PATROL);
     }
@@ -135,8 +238,10 @@ export class NPC {
         break;
     }
 
-    // 应用速度
-    const newPosition = this.position.add(this.velocity.multiply(deltaTime));
+    // 应用速度（叠加击退）
+    const previousPosition = this.position.clone();
+    const moveVelocity = this.velocity.add(this.knockback);
+    const newPosition = this.position.add(moveVelocity.multiply(deltaTime));
 
     // 碰撞检测
     if (this.collisionSystem) {
@@ -145,14 +250,14 @@ export class NPC {
 
       if (collisions.length > 0) {
         // 尝试沿轴移动
-        const testX = this.position.add(new Vector2(this.velocity.x * deltaTime, 0));
+        const testX = this.position.add(new Vector2(moveVelocity.x * deltaTime, 0));
         this.collisionSystem.updatePosition(this.id, testX);
         const collisionsX = this.collisionSystem.getCollisions(this.id);
 
         if (collisionsX.length === 0) {
           this.position = testX;
         } else {
-          const testY = this.position.add(new Vector2(0, this.velocity.y * deltaTime));
+          const testY = this.position.add(new Vector2(0, moveVelocity.y * deltaTime));
           this.collisionSystem.updatePosition(this.id, testY);
           const collisionsY = this.collisionSystem.getCollisions(this.id);
 
@@ -169,6 +274,24 @@ export class NPC {
       this.position = newPosition;
     }
 
+    // 击退速度衰减
+    this.knockback = this.knockback.multiply(Math.pow(this.knockbackDamping, deltaTime * 60));
+    if (this.knockback.length() < 5) {
+      this.knockback = new Vector2(0, 0);
+    }
+
+    // 移动明显受阻时重新规划路径
+    const expectedMove = this.velocity.length() * deltaTime;
+    if (expectedMove > 0 && this.position.distance(previousPosition) < expectedMove * 0.2) {
+      this.stuckTimer += deltaTime;
+      if (this.stuckTimer > this.maxStuckTime) {
+        this.stuckTimer = 0;
+        this.clearPath();
+      }
+    } else {
+      this.stuckTimer = 0;
+    }
+
     // 无限地图，不需要边界检查
   }
 
@@ -197,16 +320,16 @@ export class NPC {
       this.targetPosition = this.patrolPoints[this.currentPatrolIndex].clone();
     }
 
-    const direction = this.targetPosition.subtract(this.position);
-    const distance = direction.length();
+    const distance = this.targetPosition.distance(this.position);
 
     if (distance < 10) {
       // 到达巡逻点
       this.currentPatrolIndex = (this.currentPatrolIndex + 1) % this.patrolPoints.length;
       this.targetPosition = this.patrolPoints[this.currentPatrolIndex].clone();
       this.velocity = new Vector2(0, 0);
+      this.clearPath();
     } else {
-      this.velocity = direction.normalize().multiply(this.speed);
+      this.moveTo(this.targetPosition, this.speed, deltaTime);
     }
   }
 
@@ -216,11 +339,8 @@ export class NPC {
   private updateChase(deltaTime: number): void {
     if (!this.targetPosition) return;
 
-    const direction = this.targetPosition.subtract(this.position);
-    const distance = direction.length();
-
-    if (distance > 0) {
-      this.velocity = direction.normalize().multiply(this.speed * 1.2); // 追击时速度更快
+    if (this.targetPosition.distance(this.position) > 0) {
+      this.moveTo(this.targetPosition, this.speed * 1.2, deltaTime); // 追击时速度更快
     }
   }
 
@@ -234,20 +354,78 @@ export class NPC {
     if (distance > this.fleeRange) {
       this.setBehavior(NPCBehavior.PATROL);
     } else if (distance > 0) {
-      this.velocity = direction.normalize().multiply(this.speed * 1.5); // 逃离时速度最快
+      this.moveTo(this.getFleeGoal(direction.normalize()), this.speed * 1.5, deltaTime); // 逃离时速度最快
+    }
+  }
+
+  /**
+   * 选择逃离目标点：优先正背离玩家的方向，被建筑挡住时向两侧偏转
+   */
+  private getFleeGoal(awayDirection: Vector2): Vector2 {
+    const straight = this.position.add(awayDirection.multiply(this.fleeRange));
+    if (!this.pathfinder) return straight;
+
+    const baseAngle = Math.atan2(awayDirection.y, awayDirection.x);
+    for (const offset of [0, Math.PI / 4, -Math.PI / 4, Math.PI / 2, -Math.PI / 2]) {
+      const angle = baseAngle + offset;
+      const candidate = this.position.add(new Vector2(Math.cos(angle), Math.sin(angle)).multiply(this.fleeRange));
+      if (this.pathfinder.isWalkable(candidate)) {
+        return candidate;
+      }
+    }
+    return this.pathfinder.findNearestWalkable(straight) || straight;
+  }
+
+  /**
+   * 沿寻路路径向目标移动（目标移动或受阻时重新规划）
+   */
+  private moveTo(goal: Vector2, speed: number, deltaTime: number): void {
+    if (!this.pathfinder) {
+      const direction = goal.subtract(this.position);
+      this.velocity = direction.length() > 0 ? direction.normalize().multiply(speed) : new Vector2(0, 0);
+      return;
     }
+
+    this.replanTimer -= deltaTime;
+    const goalMoved = this.pathGoal !== null && this.pathGoal.distance(goal) > this.pathfinder.getTileSize();
+    if (!this.pathGoal || (this.replanTimer <= 0 && (goalMoved || this.path.length === 0))) {
+      this.path = this.pathfinder.findPath(this.position, goal) || [];
+      this.pathIndex = 0;
+      this.pathGoal = goal.clone();
+      this.replanTimer = this.replanInterval;
+    }
+
+    // 到达途经点后前往下一个
+    while (this.pathIndex < this.path.length - 1 && this.position.distance(this.path[this.pathIndex]) < this.waypointRadius) {
+      this.pathIndex++;
+    }
+
+    // 最后一段（或找不到路径时）直接朝当前目标移动
+    const waypoint = this.pathIndex < this.path.length - 1 ? this.path[this.pathIndex] : goal;
+    const direction = waypoint.subtract(this.position);
+    this.velocity = direction.length() > 0 ? direction.normalize().multiply(speed) : new Vector2(0, 0);
+  }
+
+  /**
+   * 清除当前路径，下次移动时重新规划
+   */
+  private clearPath(): void {
+    this.path = [];
+    this.pathIndex = 0;
+    this.pathGoal = null;
+    this.replanTimer = 0;
   }
 
   /**
    * 渲染NPC
    */
-  render(renderer: Renderer, camera: Camera): void {
-    const screenPos = camera.worldToScreen(this.position);
+  render(renderer: Renderer, camera: Camera, alpha: number = 1): void {
+    const screenPos = camera.worldToScreen(this.getInterpolatedPosition(alpha));
     const zoom = camera.getZoom();
     
     // 绘制视野圆锥
     if (this.showVision) {
-      this.drawVisionCone(renderer, camera, screenPos);
+      this.drawVisionCone(renderer, camera, this.getInterpolatedPosition(alpha));
     }
 
     // 绘制NPC本体
@@ -313,51 +491,41 @@ export class NPC {
   }
 
   /**
-   * 绘制视野圆锥
+   * 绘制视野圆锥（被建筑遮挡的部分会被裁掉）
    */
-  private drawVisionCone(renderer: Renderer, camera: Camera, screenPos: Vector2): void {
-    const zoom = camera.getZoom();
-    const visionRangeScreen = this.visionRange * zoom;
-    const halfAngle = this.visionAngle / 2;
-
-    // 计算朝向的角度（弧度）
+  private drawVisionCone(renderer: Renderer, camera: Camera, worldPos: Vector2): void {
+    const screenPos = camera.worldToScreen(worldPos);
+    const halfAngle = (this.visionAngle / 2) * Math.PI / 180;
     const directionAngle = Math.atan2(this.direction.y, this.direction.x);
-    const leftAngle = directionAngle - (halfAngle * Math.PI) / 180;
-    const rightAngle = directionAngle + (halfAngle * Math.PI) / 180;
-
-    // 绘制视野圆锥的两条边界线
-    const leftPoint = screenPos.add(
-      new Vector2(
-        Math.cos(leftAngle) * visionRangeScreen,
-        Math.sin(leftAngle) * visionRangeScreen
-      )
-    );
-    const rightPoint = screenPos.add(
-      new Vector2(
-        Math.cos(rightAngle) * visionRangeScreen,
-        Math.sin(rightAngle) * visionRangeScreen
-      )
-    );
 
-    // 绘制圆锥的两条边
-    renderer.drawLine(screenPos, leftPoint, '#4a90e2', 1);
-    renderer.drawLine(screenPos, rightPoint, '#4a90e2', 1);
+    // 沿视野范围发射射线，得到被遮挡后的视野轮廓
+    const rayCount = Math.ceil(this.visionAngle / this.visionRayStep);
+    const outline: Vector2[] = [];
+    for (let i = 0; i <= rayCount; i++) {
+      const angle = directionAngle - halfAngle + (2 * halfAngle * i) / rayCount;
+      const rayEnd = worldPos.add(new Vector2(Math.cos(angle), Math.sin(angle)).multiply(this.visionRange));
+      const hit = this.collisionSystem
+        ? this.collisionSystem.raycast(worldPos, rayEnd, CollisionLayer.BUILDING)
+        : null;
+      outline.push(camera.worldToScreen(hit ? hit.point : rayEnd));
+    }
 
-    // 绘制圆锥的弧线
     const ctx = renderer.getContext();
-    ctx.strokeStyle = '#4a90e2';
-    ctx.lineWidth = 1;
     ctx.beginPath();
-    ctx.arc(screenPos.x, screenPos.y, visionRangeScreen, leftAngle, rightAngle);
-    ctx.stroke();
+    ctx.moveTo(screenPos.x, screenPos.y);
+    for (const point of outline) {
+      ctx.lineTo(point.x, point.y);
+    }
+    ctx.closePath();
 
     // 填充视野区域（半透明）
     ctx.fillStyle = 'rgba(74, 144, 226, 0.1)';
-    ctx.beginPath();
-    ctx.moveTo(screenPos.x, screenPos.y);
-    ctx.arc(screenPos.x, screenPos.y, visionRangeScreen, leftAngle, rightAngle);
-    ctx.lineTo(screenPos.x, screenPos.y);
     ctx.fill();
+
+    // 绘制视野边界
+    ctx.strokeStyle = '#4a90e2';
+    ctx.lineWidth = 1;
+    ctx.stroke();
   }
 
   /**
@@ -372,6 +540,7 @@ export class NPC {
    */
   setPosition(position: Vector2): void {
     this.position = position.clone();
+    this.previousPosition = position.clone();
     if (this.collisionSystem) {
       this.collisionSystem.updatePosition(this.id, this.position);
     }
@@ -434,7 +603,20 @@ export class NPC {
     while (angleDiff > Math.PI) angleDiff -= 2 * Math.PI;
     while (angleDiff < -Math.PI) angleDiff += 2 * Math.PI;
 
-    return Math.abs(angleDiff) <= (halfAngle * Math.PI) / 180;
+    if (Math.abs(angleDiff) > (halfAngle * Math.PI) / 180) {
+      return false;
+    }
+
+    // 检查视线是否被建筑遮挡
+    return this.hasLineOfSight(point);
+  }
+
+  /**
+   * 检查到目标点的视线是否被建筑遮挡
+   */
+  hasLineOfSight(point: Vector2): boolean {
+    if (!this.collisionSystem) return true;
+    return this.collisionSystem.raycast(this.position, point, CollisionLayer.BUILDING) === null;
   }
 
   /**
@@ -494,19 +676,108 @@ export class NPC {
   }
 
   /**
-   * 尝试射击
+   * 尝试射击（弹夹打空时先装弹）
    */
-  private tryShoot(currentTime: number): void {
-    if (this.onShoot && currentTime - this.lastShotTime >= this.shotCooldown) {
-      this.lastShotTime = currentTime;
-      this.onShoot(this.position.clone(), this.direction.clone());
+  private tryShoot(currentTime: number, target: Vector2): void {
+    if (!this.weapon || !this.onShoot) {
+      return;
+    }
+    if (this.weapon.getCurrentAmmo() === 0) {
+      this.weapon.startReload(currentTime);
+      return;
+    }
+
+    // 射击路线被建筑挡住时不开火
+    if (!this.hasLineOfSight(target)) {
+      return;
+    }
+
+    if (currentTime - this.lastShotTime >= this.shotCooldown) {
+      // NPC每次扣动扳机只射出一发（全自动武器也不连射）
+      this.weapon.setMouseDown(true);
+      if (this.weapon.fire(currentTime)) {
+        this.lastShotTime = currentTime;
+        this.onShoot(this.position.clone(), this.direction.clone(), this.weapon);
+      }
     }
   }
 
   /**
    * 设置射击回调
    */
-  setOnShoot(callback: (position: Vector2, direction: Vector2) => void): void {
+  setOnShoot(callback: (position: Vector2, direction: Vector2, weapon: Weapon) => void): void {
     this.onShoot = callback;
   }
+
+  /**
+   * 设置原型（决定颜色）
+   */
+  setArchetype(archetype: string, color: string): void {
+    this.archetype = archetype;
+    this.color = color;
+  }
+
+  /**
+   * 获取原型ID
+   */
+  getArchetype(): string {
+    return this.archetype;
+  }
+
+  /**
+   * 设置携带的武器
+   */
+  setWeapon(weapon: Weapon | null): void {
+    this.weapon = weapon;
+  }
+
+  /**
+   * 获取携带的武器
+   */
+  getWeapon(): Weapon | null {
+    return this.weapon;
+  }
+
+  /**
+   * 尝试近战攻击
+   */
+  private tryMelee(currentTime: number): void {
+    if (this.onMelee && currentTime - this.lastMeleeTime >= this.meleeCooldown) {
+      this.lastMeleeTime = currentTime;
+      this.onMelee(this.position.clone(), this.direction.clone(), this.meleeDamage);
+    }
+  }
+
+  /**
+   * 设置近战回调
+   */
+  setOnMelee(callback: (position: Vector2, direction: Vector2, damage: number) => void): void {
+    this.onMelee = callback;
+  }
+
+  /**
+   * 施加击退（速度，像素/秒）
+   */
+  applyKnockback(impulse: Vector2): void {
+    this.knockback = this.knockback.add(impulse);
+  }
+
+  /**
+   * 向指定方向扑开躲避来车，返回是否扑出（死亡或冷却中时不会扑开）
+   */
+  dive(direction: Vector2, currentTime: number): boolean {
+    if (this.isDead || currentTime - this.lastDiveTime < this.diveCooldown || direction.length() === 0) {
+      return false;
+    }
+    this.lastDiveTime = currentTime;
+    this.applyKnockback(direction.normalize().multiply(this.diveSpeed));
+    return true;
+  }
+
+  /**
+   * 获取近战距离
+   */
+  getMeleeRange(): number {
+    return this.meleeRange;
+  }
 }
@@ -0,0 +1,155 @@
+import { WeaponType, ProjectileType, weaponRegistry } from './Weapon';
+import { DataReader } from '../utils/DataReader';
+import archetypeDefinitions from '../data/archetypes.json';
+
+/**
+ * NPC配装中的一种武器
+ */
+export interface LoadoutEntry {
+  weapon: WeaponType;
+  weight: number; // 被选中的权重
+}
+
+/**
+ * NPC原型定义（从JSON加载）
+ */
+export interface NPCArchetypeConfig {
+  id: string;
+  name: string; // 显示名称
+  police: boolean; // 是否为警察原型（警察增援使用）
+  spawnWeight: number; // 作为行人生成的权重（0表示不作为行人生成）
+  color: string; // NPC颜色
+  loadout: LoadoutEntry[]; // 可能携带的武器
+  reserveMagazines: number; // 携带的备用弹夹数
+  reward: number; // 被玩家杀死时玩家获得的现金
+}
+
+/**
+ * NPC原型注册表 - 加载并检查NPC原型定义
+ */
+export class NPCArchetypeRegistry {
+  private configs: Map<string, NPCArchetypeConfig> = new Map();
+  private policeId: string;
+
+  constructor(definitions: unknown) {
+    if (!Array.isArray(definitions) || definitions.length === 0) {
+      throw new Error('NPC archetype definitions must be a non-empty array');
+    }
+
+    for (const definition of definitions) {
+      const config = this.parseDefinition(definition);
+      if (this.configs.has(config.id)) {
+        throw new Error(`Duplicate NPC archetype id ${config.id}`);
+      }
+      this.configs.set(config.id, config);
+    }
+
+    const police = this.getAll().filter(config => config.police);
+    if (police.length !== 1) {
+      throw new Error(`Exactly one police NPC archetype is required, found ${police.length}`);
+    }
+    this.policeId = police[0].id;
+    if (!this.getAll().some(config => config.spawnWeight > 0)) {
+      throw new Error('At least one NPC archetype needs a positive spawnWeight');
+    }
+  }
+
+  /**
+   * 检查并补全单个NPC原型定义
+   */
+  private parseDefinition(raw: unknown): NPCArchetypeConfig {
+    const reader = DataReader.forDefinition(raw, 'NPC archetype');
+    const id = reader.string('id');
+
+    const loadout = reader.array('loadout', true).map(rawEntry => {
+      const entry = new DataReader(rawEntry, `NPC archetype ${id} loadout entry`);
+      const weapon = entry.string('weapon');
+      if (!weaponRegistry.has(weapon)) {
+        reader.fail(`has unknown loadout weapon ${weapon}`);
+      }
+      // NPC只会使用子弹类武器
+      if (weaponRegistry.get(weapon).projectile !== ProjectileType.BULLET) {
+        reader.fail(`cannot carry explosive weapon ${weapon}`);
+      }
+      return { weapon, weight: entry.number('weight', { positive: true }) };
+    });
+
+    return {
+      id,
+      name: reader.string('name'),
+      police: reader.boolean('police'),
+      spawnWeight: reader.optionalNumber('spawnWeight', { min: 0 }) ?? 0,
+      color: reader.string('color'),
+      loadout,
+      reserveMagazines: reader.number('reserveMagazines', { min: 0, integer: true }),
+      reward: reader.optionalNumber('reward', { min: 0, integer: true }) ?? 0
+    };
+  }
+
+  /**
+   * 是否存在该原型
+   */
+  has(id: string): boolean {
+    return this.configs.has(id);
+  }
+
+  /**
+   * 获取原型定义
+   */
+  get(id: string): NPCArchetypeConfig {
+    const config = this.configs.get(id);
+    if (!config) {
+      throw new Error(`Unknown NPC archetype ${id}`);
+    }
+    return config;
+  }
+
+  /**
+   * 获取所有原型定义（按JSON中的顺序）
+   */
+  getAll(): NPCArchetypeConfig[] {
+    return Array.from(this.configs.values());
+  }
+
+  /**
+   * 获取警察原型ID
+   */
+  getPoliceId(): string {
+    return this.policeId;
+  }
+
+  /**
+   * 按生成权重随机选择一种行人原型（roll为[0, 1)的随机数）
+   */
+  pickSpawnArchetype(roll: number): string {
+    const spawnable = this.getAll().filter(config => config.spawnWeight > 0);
+    return pickWeighted(spawnable, config => config.spawnWeight, roll).id;
+  }
+
+  /**
+   * 按配装权重随机选择原型携带的武器（roll为[0, 1)的随机数）
+   */
+  pickLoadoutWeapon(id: string, roll: number): WeaponType {
+    return pickWeighted(this.get(id).loadout, entry => entry.weight, roll).weapon;
+  }
+}
+
+/**
+ * 按权重从非空列表中选择一项
+ */
+function pickWeighted<T>(entries: T[], getWeight: (entry: T) => number, roll: number): T {
+  const totalWeight = entries.reduce((sum, entry) => sum + getWeight(entry), 0);
+  let remaining = roll * totalWeight;
+  for (const entry of entries) {
+    remaining -= getWeight(entry);
+    if (remaining < 0) {
+      return entry;
+    }
+  }
+  return entries[entries.length - 1];
+}
+
+/**
+ * 全局NPC原型注册表
+ */
+export const npcArchetypeRegistry = new NPCArchetypeRegistry(archetypeDefinitions);
@@ -3,6 +3,10 @@ import { Vector2 } from '../utils/Vector2';
 import { Renderer } from '../graphics/Renderer';
 import { Camera } from '../graphics/Camera';
 import { CollisionSystem } from '../world/Collision';
+import { Random } from '../utils/Random';
+import { Pathfinder } from '../world/Pathfinding';
+import { Weapon } from './Weapon';
+import { npcArchetypeRegistry } from './NPCArchetype';
 
 /**
  * NPC管理器
@@ -14,6 +18,14 @@ export class NPCManager {
   private _spawnRange: number = 600; // 生成范围（玩家周围）
   private despawnRange: number = 1000; // 消失范围（超出此范围会被删除）
   private npcIdCounter: number = 0; // NPC ID计数器
+  private random: Random; // 模拟用随机数生成器
+  private pathfinder: Pathfinder | null = null; // 寻路服务
+  private onNPCDied: ((npc: NPC) => void) | null = null; // NPC死亡回调（移除前调用）
+  private persistentIds: Set<string> = new Set(); // 不会因超出范围而消失的NPC（如任务目标）
+
+  constructor(random: Random) {
+    this.random = random;
+  }
 
   /**
    * 设置碰撞系统
@@ -26,19 +38,91 @@ export class NPCManager {
     }
   }
 
+  /**
+   * 设置寻路服务
+   */
+  setPathfinder(pathfinder: Pathfinder): void {
+    this.pathfinder = pathfinder;
+    for (const npc of this.npcs.values()) {
+      npc.setPathfinder(pathfinder);
+    }
+  }
 
   /**
-   * 创建NPC
+   * 创建NPC（未指定原型时按生成权重随机选择），并按原型配装武器
    */
-  createNPC(id: string, position: Vector2): NPC {
+  createNPC(id: string, position: Vector2, archetype?: string): NPC {
+    const archetypeId = archetype ?? npcArchetypeRegistry.pickSpawnArchetype(this.random.next());
+    const config = npcArchetypeRegistry.get(archetypeId);
+    const weaponType = npcArchetypeRegistry.pickLoadoutWeapon(archetypeId, this.random.next());
+    const weapon = new Weapon(weaponType);
+    weapon.addReserveAmmo(weapon.getConfig().magazineCapacity * config.reserveMagazines);
+
     const npc = new NPC(id, position);
+    npc.setArchetype(archetypeId, config.color);
+    npc.setWeapon(weapon);
     if (this.collisionSystem) {
       npc.setCollisionSystem(this.collisionSystem);
     }
+    if (this.pathfinder) {
+      npc.setPathfinder(this.pathfinder);
+    }
     this.npcs.set(id, npc);
     return npc;
   }
 
+  /**
+   * 在指定位置生成一个NPC（自动分配ID，未指定原型时随机选择）
+   */
+  spawnNPC(position: Vector2, archetype?: string): NPC {
+    return this.createNPC(`npc_${this.npcIdCounter++}`, position, archetype);
+  }
+
+  /**
+   * 设置NPC是否常驻（常驻NPC只会因死亡被移除）
+   */
+  setPersistent(id: string, persistent: boolean): void {
+    if (persistent) {
+      this.persistentIds.add(id);
+    } else {
+      this.persistentIds.delete(id);
+    }
+  }
+
+  /**
+   * 在指定位置生成一名警察
+   */
+  spawnPolice(position: Vector2): NPC {
+    const npc = this.createNPC(`police_${this.npcIdCounter++}`, position, npcArchetypeRegistry.getPoliceId());
+    npc.setPolice(true);
+    return npc;
+  }
+
+  /**
+   * 设置NPC死亡回调
+   */
+  setOnNPCDied(callback: (npc: NPC) => void): void {
+    this.onNPCDied = callback;
+  }
+
+  /**
+   * 获取所有警察
+   */
+  getPoliceNPCs(): NPC[] {
+    return this.getAllNPCs().filter(npc => npc.isPolice());
+  }
+
+  /**
+   * 设置所有警察的追捕目标（null表示停止追捕）
+   */
+  setPoliceTarget(position: Vector2 | null): void {
+    for (const npc of this.npcs.values()) {
+      if (npc.isPolice()) {
+        npc.setPursuitTarget(position);
+      }
+    }
+  }
+
   /**
    * 获取NPC
    */
@@ -50,6 +134,11 @@ export class NPCManager {
    * 删除NPC
    */
   removeNPC(id: string): boolean {
+    // 同时注销碰撞体，避免残留的碰撞体阻挡其他实体
+    if (this.collisionSystem) {
+      this.collisionSystem.unregister(id);
+    }
+    this.persistentIds.delete(id);
     return this.npcs.delete(id);
   }
 
@@ -78,13 +167,17 @@ export class NPCManager {
 
       // 检查NPC是否超出消失范围或已死亡
       const distance = npc.getPosition().distance(playerPosition);
-      if (distance > this.despawnRange || npc.getIsDead()) {
+      if ((distance > this.despawnRange && !this.persistentIds.has(id)) || npc.getIsDead()) {
         npcToRemove.push(id);
       }
     }
 
-    // 删除超出范围或已死亡的NPC
+    // 删除超出范围或已死亡的NPC（死亡的先触发回调）
     for (const id of npcToRemove) {
+      const npc = this.npcs.get(id);
+      if (npc && npc.getIsDead() && this.onNPCDied) {
+        this.onNPCDied(npc);
+      }
       this.removeNPC(id);
     }
 
@@ -96,41 +189,59 @@ export class NPCManager {
    * 在玩家周围生成NPC
    */
   private spawnNPCsAroundPlayer(playerPosition: Vector2): void {
-    // 如果NPC数量已达到最大，不再生成
-    if (this.npcs.size >= this.maxNPCs) {
+    // 如果行人数量已达到最大，不再生成（警察不计入）
+    const civilianCount = this.npcs.size - this.getPoliceNPCs().length;
+    if (civilianCount >= this.maxNPCs) {
       return;
     }
 
     // 需要生成的NPC数量
-    const npcToSpawn = this.maxNPCs - this.npcs.size;
+    const npcToSpawn = this.maxNPCs - civilianCount;
 
     for (let i = 0; i < npcToSpawn; i++) {
       // 在玩家周围随机生成位置
-      const angle = Math.random() * Math.PI * 2;
-      const distance = 400 + Math.random() * 200; // 在400-600像素范围内
+      const angle = this.random.next() * Math.PI * 2;
+      const distance = this.random.range(400, 600); // 在400-600像素范围内
       const x = playerPosition.x + Math.cos(angle) * distance;
       const y = playerPosition.y + Math.sin(angle) * distance;
 
-      const npcId = `npc_${this.npcIdCounter++}`;
-      const npc = this.createNPC(npcId, new Vector2(x, y));
-
-      // 为NPC设置巡逻路线
+      // 为NPC设置巡逻路线（落在建筑内的点移到最近的可通行位置）
       const patrolPoints = [
         new Vector2(x, y),
         new Vector2(x + 200, y),
         new Vector2(x + 200, y + 200),
         new Vector2(x, y + 200)
-      ];
+      ].map(point => this.getWalkablePoint(point));
+
+      const npcId = `npc_${this.npcIdCounter++}`;
+      const npc = this.createNPC(npcId, patrolPoints[0]);
       npc.setPatrolPoints(patrolPoints);
     }
   }
 
+  /**
+   * 获取离某点最近的可通行位置
+   */
+  private getWalkablePoint(point: Vector2): Vector2 {
+    if (!this.pathfinder) return point;
+    return this.pathfinder.findNearestWalkable(point) || point;
+  }
+
+  /**
+   * 记录所有NPC的位置（用于渲染插值）
+   */
+  savePreviousStates(): void {
+    for (const npc of this.npcs.values()) {
+      npc.savePreviousState();
+    }
+  }
+
   /**
    * 渲染所有NPC
    */
-  render(renderer: Renderer, camera: Camera): void {
+  render(renderer: Renderer, camera: Camera, alpha: number = 1): void {
     for (const npc of this.npcs.values()) {
-      npc.render(renderer, camera);
+      npc.render(renderer, camera, alpha);
     }
   }
 
@@ -138,6 +249,11 @@ export class NPCManager {
    * 清空所有NPC
    */
   clear(): void {
+    if (this.collisionSystem) {
+      for (const id of this.npcs.keys()) {
+        this.collisionSystem.unregister(id);
+      }
+    }
     this.npcs.clear();
   }
 }
@@ -0,0 +1,121 @@
+import { WeaponType, weaponRegistry } from './Weapon';
+import { DataReader } from '../utils/DataReader';
+import pickupDefinitions from '../data/pickups.json';
+
+/**
+ * 拾取物效果类型
+ */
+export enum PickupKind {
+  HEALTH = 'health', // 恢复血量
+  ARMOR = 'armor', // 增加护甲
+  AMMO = 'ammo', // 某种武器的弹药
+  MONEY = 'money', // 现金
+  POWER_UP = 'power_up' // 临时加成
+}
+
+/**
+ * 临时加成类型
+ */
+export enum PowerUpType {
+  DAMAGE_BOOST = 'damage_boost', // 伤害倍率
+  SPEED_BOOST = 'speed_boost' // 步行速度倍率
+}
+
+/**
+ * 拾取物定义（从JSON加载）
+ */
+export interface PickupConfig {
+  id: string;
+  kind: PickupKind;
+  name: string; // 显示名称
+  amount: number; // 效果数值（血量、护甲、弹药数、金额或加成倍率）
+  weapon: WeaponType | null; // 弹药对应的武器（仅弹药）
+  powerUp: PowerUpType | null; // 加成类型（仅加成）
+  duration: number; // 加成持续时间（秒，仅加成）
+  spawnWeight: number; // 作为随机物品生成的权重（0表示不生成）
+  respawnTime: number; // 被拾取后再次生成前的冷却时间（秒）
+  magnetRadius: number; // 玩家进入此距离后物品被吸向玩家（0表示不吸附）
+  color: string;
+}
+
+/**
+ * 拾取物注册表 - 加载并检查拾取物定义
+ */
+export class PickupRegistry {
+  private configs: Map<string, PickupConfig> = new Map();
+
+  constructor(definitions: unknown) {
+    if (!Array.isArray(definitions)) {
+      throw new Error('Pickup definitions must be an array');
+    }
+
+    for (const definition of definitions) {
+      const config = this.parseDefinition(definition);
+      if (this.configs.has(config.id)) {
+        throw new Error(`Duplicate pickup id ${config.id}`);
+      }
+      this.configs.set(config.id, config);
+    }
+  }
+
+  /**
+   * 检查并补全单个拾取物定义
+   */
+  private parseDefinition(raw: unknown): PickupConfig {
+    const reader = DataReader.forDefinition(raw, 'Pickup');
+    const kind = reader.enumValue('kind', PickupKind);
+
+    let weapon: WeaponType | null = null;
+    if (kind === PickupKind.AMMO) {
+      weapon = reader.string('weapon');
+      if (!weaponRegistry.has(weapon)) {
+        reader.fail(`has unknown ammo weapon ${weapon}`);
+      }
+    }
+    const powerUp = kind === PickupKind.POWER_UP;
+
+    return {
+      id: reader.string('id'),
+      kind,
+      name: reader.string('name'),
+      amount: reader.number('amount', { positive: true }),
+      weapon,
+      powerUp: powerUp ? reader.enumValue('powerUp', PowerUpType) : null,
+      duration: powerUp ? reader.number('duration', { positive: true }) : 0,
+      spawnWeight: reader.optionalNumber('spawnWeight', { min: 0 }) ?? 0,
+      respawnTime: reader.optionalNumber('respawnTime', { min: 0 }) ?? 0,
+      magnetRadius: reader.optionalNumber('magnetRadius', { min: 0 }) ?? 0,
+      color: reader.string('color')
+    };
+  }
+
+  /**
+   * 是否存在该拾取物
+   */
+  has(id: string): boolean {
+    return this.configs.has(id);
+  }
+
+  /**
+   * 获取拾取物定义
+   */
+  get(id: string): PickupConfig {
+    const config = this.configs.get(id);
+    if (!config) {
+      throw new Error(`Unknown pickup ${id}`);
+    }
+    return config;
+  }
+
+  /**
+   * 获取所有拾取物定义（按JSON中的顺序）
+   */
+  getAll(): PickupConfig[] {
+    return Array.from(this.configs.values());
+  }
+}
+
+/**
+ * 全局拾取物注册表
+ */
+export const pickupRegistry = new PickupRegistry(pickupDefinitions);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Vector2 } from '../utils/Vector2';
+import { Random } from '../utils/Random';
+import { CollisionSystem } from '../world/Collision';
+import { ExplosiveManager } from './Explosive';
+import { Player } from './Player';
+import { Vehicle } from './Vehicle';
+import { vehicleArchetypeRegistry } from './VehicleArchetype';
+
+/**
+ * 在指定位置创建一辆已注册碰撞体的车辆
+ */
+function createVehicle(id: string, archetype: string, position: Vector2, collisionSystem: CollisionSystem): Vehicle {
+  const vehicle = new Vehicle(id, position);
+  vehicle.setCollisionSystem(collisionSystem);
+  vehicle.setArchetype(vehicleArchetypeRegistry.get(archetype), '#212121');
+  return vehicle;
+}
+
+describe('Player', () => {
+  it('骑摩托车时发射的火箭弹不会在自己的车上爆炸，命中前方的车辆', () => {
+    const collisionSystem = new CollisionSystem();
+    const explosiveManager = new ExplosiveManager();
+    const bike = createVehicle('vehicle_bike', 'bike', new Vector2(0, 0), collisionSystem);
+    createVehicle('vehicle_target', 'sedan', new Vector2(200, 0), collisionSystem);
+
+    const player = new Player(new Vector2(0, 0), new Random(1));
+    player.setCollisionSystem(collisionSystem);
+    player.setExplosiveManager(explosiveManager);
+    player.enterVehicle(bike);
+    player.pickupWeapon('rocket_launcher');
+    player.switchWeapon('rocket_launcher');
+    player.setMouseDown(true);
+    expect(player.fire(10)).toBe(true);
+
+    // 火箭弹向右飞行，穿出摩托车后在前方车辆的左侧爆炸
+    let explosions = explosiveManager.update(1 / 60, collisionSystem);
+    expect(explosions).toEqual([]);
+    for (let step = 0; step < 60 && explosions.length === 0; step++) {
+      explosions = explosiveManager.update(1 / 60, collisionSystem);
+    }
+    expect(explosions).toHaveLength(1);
+    expect(explosions[0].ownerId).toBe('player');
+    expect(explosions[0].position.x).toBeGreaterThan(150);
+    expect(explosions[0].position.x).toBeLessThan(200);
+  });
+});
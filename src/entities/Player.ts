@@ -1,15 +1,20 @@
 import { Vector2 } from '../utils/Vector2';
 import { Renderer } from '../graphics/Renderer';
 import { Camera } from '../graphics/Camera';
-import { CollisionSystem } from '../world/Collision';
-import { Weapon, WeaponType, Bullet, BulletManager, FireMode } from './Weapon';
+import { CollisionSystem, CollisionLayer } from '../world/Collision';
+import { Weapon, WeaponType, BulletManager, FireMode, createShotBullets, HeldIcon, ProjectileType, WeaponConfig, weaponRegistry } from './Weapon';
+import { ExplosiveManager, Grenade, Rocket } from './Explosive';
+import { MeleeWeapon, MeleeType, MeleeAttack, meleeRegistry } from './Melee';
+import { PowerUpType } from './Pickup';
 import { Vehicle } from './Vehicle';
+import { Random } from '../utils/Random';
 
 /**
  * 玩家角色类
  */
 export class Player {
   private position: Vector2;
+  private previousPosition: Vector2; // 上一个模拟步的位置（用于渲染插值）
   private velocity: Vector2;
   private speed: number = 150; // 像素/秒
   private radius: number = 8;
@@ -17,8 +22,9 @@ export class Player {
   private collisionSystem: CollisionSystem | null = null;
   private playerId: string = 'player';
   private weapons: Map<WeaponType, Weapon> = new Map();
-  private currentWeaponType: WeaponType = WeaponType.PISTOL;
+  private currentWeaponType: WeaponType = weaponRegistry.getStarterType();
   private bulletManager: BulletManager;
+  private explosiveManager: ExplosiveManager | null = null; // 手雷和火箭弹由模拟统一管理
   private direction: Vector2 = new Vector2(1, 0); // 当前朝向
   private mousePosition: Vector2 = new Vector2(0, 0); // 鼠标位置
   private lastReloadTime: number = 0; // 上次装弹时间
@@ -26,15 +32,27 @@ export class Player {
   private maxHealth: number = 100; // 最大血量
   private health: number = 100; // 当前血量
   private isDead: boolean = false; // 是否已死亡
+  private maxArmor: number = 100; // 最大护甲
+  private armor: number = 0; // 当前护甲（先于血量承受伤害）
+  private money: number = 0; // 现金
+  private powerUps: Map<PowerUpType, { multiplier: number; endTime: number }> = new Map(); // 生效中的临时加成
   private currentVehicle: Vehicle | null = null; // 当前所在的车辆
-  private weaponBeforeVehicle: WeaponType = WeaponType.PISTOL; // 进入车辆前的武器
-
-  constructor(position: Vector2) {
+  private weaponBeforeVehicle: WeaponType = weaponRegistry.getStarterType(); // 进入车辆前的武器
+  private meleeWeapon: MeleeWeapon = new MeleeWeapon(meleeRegistry.getDefaultType()); // 近战武器（默认为拳头）
+  private lastMeleeAttack: MeleeAttack | null = null; // 最近一次近战攻击（用于绘制挥击）
+  private meleeSwingTimer: number = 0; // 挥击特效剩余时间（秒）
+  private meleeSwingDuration: number = 0.15; // 挥击特效持续时间（秒）
+  private random: Random; // 模拟用随机数生成器（武器散射）
+
+  constructor(position: Vector2, random: Random) {
+    this.random = random;
     this.position = position.clone();
+    this.previousPosition = position.clone();
     this.velocity = new Vector2(0, 0);
     
-    // 初始化武器：只有手枪，备弹无限
-    this.weapons.set(WeaponType.PISTOL, new Weapon(WeaponType.PISTOL, Infinity));
+    // 初始化武器：只有初始武器（手枪），备弹无限
+    const starterType = weaponRegistry.getStarterType();
+    this.weapons.set(starterType, new Weapon(starterType, Infinity));
     
     this.bulletManager = new BulletManager();
   }
@@ -48,10 +66,18 @@ export class Player {
     this.collisionSystem.register(this.playerId, {
       position: this.position.clone(),
       radius: this.radius,
-      type: 'circle'
+      type: 'circle',
+      layer: CollisionLayer.CHARACTER
     });
   }
 
+  /**
+   * 设置爆炸物管理器
+   */
+  setExplosiveManager(explosiveManager: ExplosiveManager): void {
+    this.explosiveManager = explosiveManager;
+  }
+
   /**
    * 设置鼠标位置
    */
@@ -71,55 +97,67 @@ export class Player {
   }
 
   /**
-   * 射击
+   * 射击（返回本次是否开火）
    */
-  fire(currentTime: number): void {
+  fire(currentTime: number): boolean {
     const weapon = this.getCurrentWeapon();
     const config = weapon.getConfig();
 
     // 对于半自动武器，只在shouldFire为true时才射击
     if (config.fireMode === FireMode.SEMI_AUTO && !this.shouldFire) {
-      return;
+      return false;
     }
 
     if (weapon.fire(currentTime)) {
       // 射击成功后，重置shouldFire标志
       this.shouldFire = false;
 
-      // 确定射出的子弹数量
-      const pelletsPerShot = config.pelletsPerShot || 1;
-      
-      // 射出多发子弹
-      for (let i = 0; i < pelletsPerShot; i++) {
-        // 计算散射角度（每发子弹都有随机散射）
-        // 散射范围：-spread/2 到 +spread/2
-        const spreadAngle = (Math.random() - 0.5) * config.spread * (Math.PI / 180);
-        
-        // 对于有散射的武器（步枪、散弹枪），添加精准度偏差
-        let totalAngle = spreadAngle;
-        if (config.spread > 0 && config.accuracy < 1) {
-          const accuracy = config.accuracy;
-          const accuracyAngle = Math.random() * (1 - accuracy) * Math.PI * 2;
-          totalAngle += accuracyAngle;
-        }
-        
-        const direction = this.direction.clone();
-        
-        // 应用散射和精准度偏差
-        const rotatedX = direction.x * Math.cos(totalAngle) - direction.y * Math.sin(totalAngle);
-        const rotatedY = direction.x * Math.sin(totalAngle) + direction.y * Math.cos(totalAngle);
-        
-        const bullet = new Bullet(
-          this.position.clone(),
-          new Vector2(rotatedX, rotatedY),
-          config.damage,
-          config.bulletSpeed,
-          config.range,
-          config.bulletSize,
-          this.playerId
-        );
+      // 伤害加成生效时提高本次射击的伤害
+      const boostedConfig = { ...config, damage: config.damage * this.getPowerUpMultiplier(PowerUpType.DAMAGE_BOOST, currentTime) };
+
+      // 手雷和火箭弹交给爆炸物管理器
+      if (config.projectile !== ProjectileType.BULLET) {
+        this.launchExplosive(boostedConfig);
+        return true;
+      }
+
+      // 按武器的弹丸数和散射射出子弹
+      for (const bullet of createShotBullets(boostedConfig, this.position, this.direction, this.random, this.playerId)) {
         this.bulletManager.addBullet(bullet);
       }
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 投掷手雷或发射火箭弹
+   */
+  private launchExplosive(config: WeaponConfig): void {
+    if (!this.explosiveManager) {
+      return;
+    }
+
+    const explosion = {
+      radius: config.explosionRadius,
+      damage: config.damage,
+      force: config.explosionForce,
+      ownerId: this.playerId
+    };
+    // 在车内发射时起点位于自己的车辆内，忽略所在车辆（步行碰撞体此时已注销）
+    const ignoreId = this.currentVehicle !== null ? this.currentVehicle.getId() : this.playerId;
+
+    if (config.projectile === ProjectileType.GRENADE) {
+      // 手雷投向瞄准点，最远不超过射程
+      const distance = Math.min(this.mousePosition.distance(this.position), config.range);
+      const speed = Math.min(Grenade.getThrowSpeed(distance), config.bulletSpeed);
+      this.explosiveManager.addGrenade(
+        new Grenade(this.position, this.direction.multiply(speed), config.fuseTime, explosion, ignoreId)
+      );
+    } else {
+      this.explosiveManager.addRocket(
+        new Rocket(this.position, this.direction, config.bulletSpeed, config.range, config.bulletSize, explosion, ignoreId)
+      );
     }
   }
 
@@ -170,8 +208,9 @@ export class Player {
    * 切换武器
    */
   switchWeapon(weaponType: WeaponType): void {
-    // 如果在车辆中，只能使用手枪
-    if (this.currentVehicle !== null && weaponType !== WeaponType.PISTOL) {
+    // 如果在封闭的车辆中，只能使用可在车内使用的武器
+    if (this.currentVehicle !== null && !this.currentVehicle.isOpenTop() &&
+      !(weaponRegistry.has(weaponType) && weaponRegistry.get(weaponType).usableInVehicle)) {
       return;
     }
     if (this.weapons.has(weaponType)) {
@@ -186,15 +225,63 @@ export class Player {
     return this.currentWeaponType;
   }
 
+  /**
+   * 开始近战蓄力（在车内时无效）
+   */
+  startMelee(currentTime: number): void {
+    if (this.currentVehicle === null) {
+      this.meleeWeapon.startCharge(currentTime);
+    }
+  }
+
+  /**
+   * 近战出手，返回本次攻击（冷却中或在车内时返回null）
+   */
+  releaseMelee(currentTime: number): MeleeAttack | null {
+    if (this.currentVehicle !== null) {
+      this.meleeWeapon.cancelCharge();
+      return null;
+    }
+    const attack = this.meleeWeapon.release(currentTime);
+    if (attack) {
+      attack.damage *= this.getPowerUpMultiplier(PowerUpType.DAMAGE_BOOST, currentTime);
+      this.lastMeleeAttack = attack;
+      this.meleeSwingTimer = this.meleeSwingDuration;
+    }
+    return attack;
+  }
+
+  /**
+   * 获取近战武器
+   */
+  getMeleeWeapon(): MeleeWeapon {
+    return this.meleeWeapon;
+  }
+
+  /**
+   * 更换近战武器（拾取或读档）
+   */
+  setMeleeWeapon(type: MeleeType): void {
+    this.meleeWeapon = new MeleeWeapon(type);
+  }
+
   /**
    * 进入车辆
    */
   enterVehicle(vehicle: Vehicle): void {
     this.currentVehicle = vehicle;
     this.weaponBeforeVehicle = this.currentWeaponType;
-    // 进入车辆后只能使用手枪
-    this.currentWeaponType = WeaponType.PISTOL;
+    // 进入封闭的车辆后切换为初始武器（手枪），敞篷车辆保留当前武器
+    if (!vehicle.isOpenTop()) {
+      this.currentWeaponType = weaponRegistry.getStarterType();
+    }
+    this.meleeWeapon.cancelCharge();
     vehicle.enterVehicle(this.playerId);
+
+    // 在车内时注销步行碰撞体，避免与自己的车辆或其他车辆发生碰撞
+    if (this.collisionSystem) {
+      this.collisionSystem.unregister(this.playerId);
+    }
   }
 
   /**
@@ -215,14 +302,19 @@ export class Player {
       
       this.position = exitPos;
       
-      // 更新碰撞系统位置
+      // 重新注册步行碰撞体
       if (this.collisionSystem) {
-        this.collisionSystem.updatePosition(this.playerId, this.position);
+        this.collisionSystem.register(this.playerId, {
+          position: this.position.clone(),
+          radius: this.radius,
+          type: 'circle',
+          layer: CollisionLayer.CHARACTER
+        });
       }
       
       this.currentVehicle.exitVehicle();
-      // 恢复之前的武器
-      if (this.weapons.has(this.weaponBeforeVehicle)) {
+      // 恢复之前的武器（敞篷车辆上换的武器保持不变）
+      if (!this.currentVehicle.isOpenTop() && this.weapons.has(this.weaponBeforeVehicle)) {
         this.currentWeaponType = this.weaponBeforeVehicle;
       }
       this.currentVehicle = null;
@@ -244,42 +336,132 @@ export class Player {
   }
 
   /**
-   * 拾取武器
+   * 获取所有武器
+   */
+  getWeapons(): Weapon[] {
+    return Array.from(this.weapons.values());
+  }
+
+  /**
+   * 替换所有武器（读档用），当前武器不存在时切换为初始武器
+   */
+  setWeapons(weapons: Weapon[], currentWeaponType: WeaponType): void {
+    this.weapons.clear();
+    for (const weapon of weapons) {
+      this.weapons.set(weapon.getType(), weapon);
+    }
+    const starterType = weaponRegistry.getStarterType();
+    if (!this.weapons.has(starterType)) {
+      this.weapons.set(starterType, new Weapon(starterType, Infinity));
+    }
+    this.currentWeaponType = this.weapons.has(currentWeaponType) ? currentWeaponType : starterType;
+  }
+
+  /**
+   * 拾取武器（ammo为附带的备弹数，默认一个弹夹）
    */
-  pickupWeapon(weaponType: WeaponType): void {
+  pickupWeapon(weaponType: WeaponType, ammo: number = weaponRegistry.get(weaponType).magazineCapacity): void {
     if (this.weapons.has(weaponType)) {
       // 已有该武器，添加备弹
       const weapon = this.weapons.get(weaponType)!;
-      const config = weapon.getConfig();
-      weapon.addReserveAmmo(config.magazineCapacity);
+      weapon.addReserveAmmo(ammo);
     } else {
-      // 新武器，添加一份弹夹的备弹
+      // 新武器，添加附带的备弹
       const newWeapon = new Weapon(weaponType, 0);
-      const config = newWeapon.getConfig();
-      newWeapon.addReserveAmmo(config.magazineCapacity);
+      newWeapon.addReserveAmmo(ammo);
       this.weapons.set(weaponType, newWeapon);
     }
   }
 
+  /**
+   * 为已有的武器添加备弹（没有该武器时返回false）
+   */
+  addAmmo(weaponType: WeaponType, amount: number): boolean {
+    const weapon = this.weapons.get(weaponType);
+    if (!weapon || !isFinite(weapon.getReserveAmmo())) {
+      return false;
+    }
+    weapon.addReserveAmmo(amount);
+    return true;
+  }
+
+  /**
+   * 恢复血量（不超过最大血量）
+   */
+  heal(amount: number): void {
+    if (!this.isDead) {
+      this.health = Math.min(this.health + amount, this.maxHealth);
+    }
+  }
+
+  /**
+   * 增加护甲（不超过最大护甲）
+   */
+  addArmor(amount: number): void {
+    this.armor = Math.min(this.armor + amount, this.maxArmor);
+  }
+
+  /**
+   * 获得临时加成（同类加成重新计时）
+   */
+  applyPowerUp(type: PowerUpType, multiplier: number, duration: number, currentTime: number): void {
+    this.powerUps.set(type, { multiplier, endTime: currentTime + duration });
+  }
+
+  /**
+   * 获取某种加成当前的倍率（未生效时为1）
+   */
+  getPowerUpMultiplier(type: PowerUpType, currentTime: number): number {
+    const powerUp = this.powerUps.get(type);
+    return powerUp && currentTime < powerUp.endTime ? powerUp.multiplier : 1;
+  }
+
+  /**
+   * 获取生效中的加成及剩余时间（秒）
+   */
+  getActivePowerUps(currentTime: number): { type: PowerUpType; multiplier: number; remaining: number }[] {
+    return Array.from(this.powerUps.entries())
+      .filter(([, powerUp]) => currentTime < powerUp.endTime)
+      .map(([type, powerUp]) => ({ type, multiplier: powerUp.multiplier, remaining: powerUp.endTime - currentTime }));
+  }
+
+  /**
+   * 记录当前状态，作为下一个模拟步的插值起点
+   */
+  savePreviousState(): void {
+    this.previousPosition = this.position.clone();
+    this.bulletManager.savePreviousStates();
+  }
+
+  /**
+   * 获取渲染用的插值位置
+   */
+  getInterpolatedPosition(alpha: number): Vector2 {
+    return this.previousPosition.lerp(this.position, alpha);
+  }
+
   /**
    * 更新玩家状态
    */
-  update(deltaTime: number, movement: { x: number; y: number }, currentTime: number): void {
+  update(deltaTime: number, movement: { x: number; y: number }, currentTime: number, handbrake: boolean = false): void {
+    this.meleeSwingTimer = Math.max(0, this.meleeSwingTimer - deltaTime);
+
     // 如果在车辆中，更新车辆而不是玩家位置
     if (this.currentVehicle !== null) {
-      // 更新车辆方向
+      // 打方向盘
       if (movement.x > 0) {
         this.currentVehicle.turnRight();
       } else if (movement.x < 0) {
         this.currentVehicle.turnLeft();
       }
 
-      // 更新车辆速度
+      // 油门、刹车/倒车和手刹
       if (movement.y < 0) {
         this.currentVehicle.accelerate();
       } else if (movement.y > 0) {
-        this.currentVehicle.decelerate();
+        this.currentVehicle.reverse();
       }
+      this.currentVehicle.setHandbrake(handbrake);
 
       // 玩家位置跟随车辆
       this.position = this.currentVehicle.getPosition().clone();
@@ -316,7 +498,7 @@ export class Player {
 
     // 如果有移动输入，归一化并乘以速度
     if (targetVelocity.length() > 0) {
-      targetVelocity = targetVelocity.normalize().multiply(this.speed);
+      targetVelocity = targetVelocity.normalize().multiply(this.speed * this.getPowerUpMultiplier(PowerUpType.SPEED_BOOST, currentTime));
     }
 
     // 平滑加速
@@ -366,8 +548,8 @@ export class Player {
   /**
    * 渲染玩家
    */
-  render(renderer: Renderer, camera: Camera, currentTime: number): void {
-    const screenPos = camera.worldToScreen(this.position);
+  render(renderer: Renderer, camera: Camera, currentTime: number, alpha: number = 1): void {
+    const screenPos = camera.worldToScreen(this.getInterpolatedPosition(alpha));
     const zoom = camera.getZoom();
 
     // 绘制玩家主体
@@ -381,11 +563,14 @@ export class Player {
     // 绘制持有的枪械图标
     this.renderWeaponIcon(renderer, screenPos, zoom);
 
+    // 绘制近战挥击和蓄力
+    this.renderMelee(renderer, screenPos, zoom, currentTime);
+
     // 绘制血量条
     this.renderHealthBar(renderer, screenPos, zoom);
 
     // 渲染子弹
-    this.bulletManager.render(renderer, camera);
+    this.bulletManager.render(renderer, camera, alpha);
 
     // 渲染装弹动画
     if (this.isReloading()) {
@@ -441,6 +626,17 @@ export class Player {
       healthBarFillWidth,
       healthBarHeight
     );
+
+    // 有护甲时在血条上方绘制护甲条
+    if (this.armor > 0) {
+      ctx.fillStyle = '#1e88e5';
+      ctx.fillRect(
+        screenPos.x - healthBarWidth / 2,
+        healthBarY - healthBarHeight - 1,
+        healthBarWidth * (this.armor / this.maxArmor),
+        healthBarHeight
+      );
+    }
   }
 
   /**
@@ -448,8 +644,7 @@ export class Player {
    */
   private renderWeaponIcon(renderer: Renderer, screenPos: Vector2, zoom: number): void {
     const ctx = renderer.getContext();
-    const weapon = this.getCurrentWeapon();
-    const weaponType = weapon.getType();
+    const config = this.getCurrentWeapon().getConfig();
 
     // 武器图标跟随枪线移动
     const directionLength = this.radius * 1.2 * zoom;
@@ -457,27 +652,24 @@ export class Player {
     const iconSize = this.radius * 0.8 * zoom;
 
     ctx.save();
-
-    switch (weaponType) {
-      case WeaponType.PISTOL:
-        // 手枪：黄色小圆
-        ctx.fillStyle = '#ffff00';
+    ctx.fillStyle = config.color;
+    switch (config.heldIcon) {
+      case HeldIcon.DOT:
+        // 小圆点（手枪）
         ctx.beginPath();
         ctx.arc(iconPos.x, iconPos.y, iconSize, 0, Math.PI * 2);
         ctx.fill();
         break;
-      case WeaponType.RIFLE:
-        // 步枪：绿色矩形
-        ctx.fillStyle = '#00ff00';
+      case HeldIcon.BARREL:
+        // 沿枪线的矩形（步枪）
         ctx.save();
         ctx.translate(iconPos.x, iconPos.y);
         ctx.rotate(Math.atan2(this.direction.y, this.direction.x));
         ctx.fillRect(-iconSize, -iconSize * 0.5, iconSize * 2, iconSize);
         ctx.restore();
         break;
-      case WeaponType.SHOTGUN:
-        // 霰弹枪：橙色六边形
-        ctx.fillStyle = '#ff6600';
+      case HeldIcon.HEXAGON:
+        // 六边形（霰弹枪）
         ctx.beginPath();
         for (let i = 0; i < 6; i++) {
           const angle = (i * Math.PI) / 3;
@@ -497,6 +689,40 @@ export class Player {
     ctx.restore();
   }
 
+  /**
+   * 绘制近战挥击扇形和蓄力进度
+   */
+  private renderMelee(renderer: Renderer, screenPos: Vector2, zoom: number, currentTime: number): void {
+    const ctx = renderer.getContext();
+    const config = this.meleeWeapon.getConfig();
+    const facing = Math.atan2(this.direction.y, this.direction.x);
+
+    // 挥击：在攻击范围内画一个逐渐淡出的扇形
+    if (this.meleeSwingTimer > 0 && this.lastMeleeAttack) {
+      const halfArc = (this.lastMeleeAttack.arcAngle * Math.PI) / 360;
+      const reach = (this.radius + this.lastMeleeAttack.range) * zoom;
+      ctx.save();
+      ctx.globalAlpha = (this.meleeSwingTimer / this.meleeSwingDuration) * (this.lastMeleeAttack.charged ? 0.8 : 0.5);
+      ctx.fillStyle = config.color;
+      ctx.beginPath();
+      ctx.moveTo(screenPos.x, screenPos.y);
+      ctx.arc(screenPos.x, screenPos.y, reach, facing - halfArc, facing + halfArc);
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+    }
+
+    // 蓄力：在角色周围画进度弧，蓄满后变为实心圆环
+    if (this.meleeWeapon.isCharging()) {
+      const progress = this.meleeWeapon.getChargeProgress(currentTime);
+      ctx.strokeStyle = progress >= 1 ? '#ff5722' : config.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(screenPos.x, screenPos.y, this.radius * 1.6 * zoom, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * progress);
+      ctx.stroke();
+    }
+  }
+
   /**
    * 渲染装弹动画
    */
@@ -534,6 +760,24 @@ export class Player {
    */
   setPosition(position: Vector2): void {
     this.position = position.clone();
+    this.previousPosition = position.clone();
+  }
+
+  /**
+   * 平移位置（如被车辆推出车身）
+   */
+  moveBy(offset: Vector2): void {
+    this.position = this.position.add(offset);
+    if (this.collisionSystem) {
+      this.collisionSystem.updatePosition(this.playerId, this.position);
+    }
+  }
+
+  /**
+   * 施加击退（速度，像素/秒，随移动的平滑加速逐渐消失）
+   */
+  applyKnockback(impulse: Vector2): void {
+    this.velocity = this.velocity.add(impulse);
   }
 
   /**
@@ -572,7 +816,10 @@ export class Player {
       return;
     }
 
-    this.health -= damage;
+    // 护甲先承受伤害
+    const absorbed = Math.min(this.armor, damage);
+    this.armor -= absorbed;
+    this.health -= damage - absorbed;
     if (this.health <= 0) {
       this.health = 0;
       this.isDead = true;
@@ -586,6 +833,35 @@ export class Player {
     return this.health;
   }
 
+  /**
+   * 设置血量（读档用）
+   */
+  setHealth(health: number): void {
+    this.health = Math.max(0, Math.min(health, this.maxHealth));
+    this.isDead = this.health === 0;
+  }
+
+  /**
+   * 在指定位置复活：回满血量，失去护甲、加成以及初始武器以外的武器
+   */
+  respawn(position: Vector2): void {
+    this.exitVehicle();
+    this.setPosition(position);
+    if (this.collisionSystem) {
+      this.collisionSystem.updatePosition(this.playerId, this.position);
+    }
+    this.velocity = new Vector2(0, 0);
+    this.health = this.maxHealth;
+    this.isDead = false;
+    this.armor = 0;
+    this.powerUps.clear();
+    this.shouldFire = false;
+
+    const starterType = weaponRegistry.getStarterType();
+    this.setWeapons([this.weapons.get(starterType)!], starterType);
+    this.meleeWeapon = new MeleeWeapon(meleeRegistry.getDefaultType());
+  }
+
   /**
    * 获取最大血量
    */
@@ -599,4 +875,57 @@ export class Player {
   getIsDead(): boolean {
     return this.isDead;
   }
+
+  /**
+   * 获取当前护甲
+   */
+  getArmor(): number {
+    return this.armor;
+  }
+
+  /**
+   * 设置护甲（读档用）
+   */
+  setArmor(armor: number): void {
+    this.armor = Math.max(0, Math.min(armor, this.maxArmor));
+  }
+
+  /**
+   * 获取最大护甲
+   */
+  getMaxArmor(): number {
+    return this.maxArmor;
+  }
+
+  /**
+   * 获取现金
+   */
+  getMoney(): number {
+    return this.money;
+  }
+
+  /**
+   * 增加现金
+   */
+  addMoney(amount: number): void {
+    this.money += amount;
+  }
+
+  /**
+   * 花费现金（不足时返回false且不扣款）
+   */
+  spendMoney(amount: number): boolean {
+    if (amount > this.money) {
+      return false;
+    }
+    this.money -= amount;
+    return true;
+  }
+
+  /**
+   * 设置现金（读档用）
+   */
+  setMoney(money: number): void {
+    this.money = Math.max(0, money);
+  }
 }
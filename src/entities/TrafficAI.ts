@@ -0,0 +1,377 @@
+import { Vector2 } from '../utils/Vector2';
+import { Random } from '../utils/Random';
+import { CollisionSystem } from '../world/Collision';
+import { RoadNetwork, RoadLane } from '../world/RoadNetwork';
+import { Vehicle } from './Vehicle';
+
+/**
+ * 车辆AI司机接口
+ */
+export interface VehicleDriver {
+  getId(): string;
+  update(deltaTime: number, collisionSystem: CollisionSystem | null): void;
+  isLost(): boolean; // 是否已无法继续沿道路行驶（车辆会被移除）
+}
+
+/**
+ * 操纵车辆转向目标点，返回转向前的角度差
+ */
+function steerVehicleTowards(vehicle: Vehicle, target: Vector2): number {
+  const toTarget = target.subtract(vehicle.getPosition());
+  if (toTarget.length() === 0) return 0;
+
+  let angleDiff = Math.atan2(toTarget.y, toTarget.x) - vehicle.getRotation();
+  // 归一化角度差到 [-π, π]
+  while (angleDiff > Math.PI) angleDiff -= 2 * Math.PI;
+  while (angleDiff < -Math.PI) angleDiff += 2 * Math.PI;
+
+  if (angleDiff > 0.05) {
+    vehicle.turnRight();
+  } else if (angleDiff < -0.05) {
+    vehicle.turnLeft();
+  }
+  return angleDiff;
+}
+
+/**
+ * AI司机 - 驾驶车辆沿车道行驶
+ */
+export class TrafficDriver implements VehicleDriver {
+  private id: string;
+  private vehicle: Vehicle;
+  private roadNetwork: RoadNetwork;
+  private random: Random;
+  private lane: RoadLane;
+  private cruiseSpeed: number = 120; // 巡航速度（像素/秒）
+  private turnSpeedLimit: number = 60; // 转弯时的限速
+  private fleeSpeed: number = 260; // 逃跑时的速度
+  private arriveDistance: number = 16; // 到达车道终点的判定距离
+  private lookAheadDistance: number = 50; // 前方障碍物检测距离（从车头算起）
+  private pursuitDistance: number = 40; // 沿车道向前追踪的距离
+  private slowDownDistance: number = 64; // 接近路口时开始减速的距离
+  private blockedTimer: number = 0; // 因障碍物停车的时间（秒）
+  private maxBlockedTime: number = 2; // 停车超过此时间后缓慢通过，避免路口互相等待
+  private panicTimer: number = 0; // 受惊剩余时间（秒）
+  private panicDuration: number = 6;
+  private swerveTimer: number = 0; // 急转剩余时间（秒）
+  private swerveDirection: number = 0; // 急转方向（-1左，1右）
+  private fleeFrom: Vector2 | null = null; // 逃离的目标点
+  private lastHealth: number;
+  private lost: boolean = false; // 道路网络中已找不到下一条车道
+
+  constructor(id: string, vehicle: Vehicle, lane: RoadLane, roadNetwork: RoadNetwork, random: Random) {
+    this.id = id;
+    this.vehicle = vehicle;
+    this.lane = lane;
+    this.roadNetwork = roadNetwork;
+    this.random = random;
+    this.lastHealth = vehicle.getHealth();
+  }
+
+  /**
+   * 获取司机ID
+   */
+  getId(): string {
+    return this.id;
+  }
+
+  /**
+   * 获取当前车道
+   */
+  getLane(): RoadLane {
+    return this.lane;
+  }
+
+  /**
+   * 前方路口已随chunk卸载或没有可走的车道
+   */
+  isLost(): boolean {
+    return this.lost;
+  }
+
+  /**
+   * 是否处于受惊状态
+   */
+  isPanicking(): boolean {
+    return this.panicTimer > 0;
+  }
+
+  /**
+   * 更新驾驶（在车辆物理更新之前调用）
+   */
+  update(deltaTime: number, collisionSystem: CollisionSystem | null): void {
+    this.checkDamage();
+
+    if (this.panicTimer > 0) {
+      this.panicTimer -= deltaTime;
+    }
+
+    const position = this.vehicle.getPosition();
+
+    // 到达车道终点，选择下一条车道
+    if (position.distance(this.lane.end) < this.arriveDistance) {
+      this.chooseNextLane();
+    }
+
+    // 急转躲避
+    if (this.swerveTimer > 0) {
+      this.swerveTimer -= deltaTime;
+      if (this.swerveDirection > 0) {
+        this.vehicle.turnRight();
+      } else {
+        this.vehicle.turnLeft();
+      }
+      this.vehicle.accelerate();
+      return;
+    }
+
+    // 沿车道中心线向前追踪转向
+    const angleDiff = steerVehicleTowards(this.vehicle, this.lost ? position : this.getPursuitPoint(position));
+
+    // 计算目标速度
+    let targetSpeed = this.isPanicking() ? this.fleeSpeed : this.cruiseSpeed;
+    if (this.lost) {
+      targetSpeed = 0;
+    } else if (
+      !this.isPanicking() &&
+      (Math.abs(angleDiff) > 0.5 || position.distance(this.lane.end) < this.slowDownDistance)
+    ) {
+      // 转弯或接近路口时减速
+      targetSpeed = this.turnSpeedLimit;
+    }
+
+    // 前方有障碍物（玩家、行人、其他车辆）时刹车，等待过久则缓慢通过
+    if (!this.isPanicking() && this.isObstacleAhead(collisionSystem)) {
+      this.blockedTimer += deltaTime;
+      if (this.blockedTimer < this.maxBlockedTime) {
+        targetSpeed = 0;
+      } else {
+        targetSpeed = Math.min(targetSpeed, this.turnSpeedLimit / 2);
+      }
+    } else {
+      this.blockedTimer = 0;
+    }
+
+    const speed = this.vehicle.getSpeed();
+    if (speed < targetSpeed) {
+      this.vehicle.accelerate();
+    } else if (speed > targetSpeed + 10) {
+      this.vehicle.brake();
+    }
+  }
+
+  /**
+   * 计算车道中心线上、车辆投影点前方的追踪点
+   */
+  private getPursuitPoint(position: Vector2): Vector2 {
+    const laneVector = this.lane.end.subtract(this.lane.start);
+    const laneLength = laneVector.length();
+    if (laneLength === 0) return this.lane.end;
+
+    const offset = position.subtract(this.lane.start);
+    const along = (offset.x * this.lane.direction.x + offset.y * this.lane.direction.y) + this.pursuitDistance;
+    if (along >= laneLength) {
+      return this.lane.end;
+    }
+    return this.lane.start.add(this.lane.direction.multiply(Math.max(0, along)));
+  }
+
+  /**
+   * 检查车辆是否被攻击，被攻击时急转并逃离
+   */
+  private checkDamage(): void {
+    const health = this.vehicle.getHealth();
+    if (health >= this.lastHealth) {
+      return;
+    }
+    this.lastHealth = health;
+
+    const attacker = this.vehicle.getLastAttackerPosition();
+    if (!attacker) {
+      return;
+    }
+
+    // 首次受惊时急转
+    if (!this.isPanicking()) {
+      this.swerveTimer = 0.4;
+      this.swerveDirection = this.random.next() < 0.5 ? -1 : 1;
+    }
+    this.panicTimer = this.panicDuration;
+    this.fleeFrom = attacker;
+  }
+
+  /**
+   * 到达路口后选择下一条车道
+   */
+  private chooseNextLane(): void {
+    const node = this.roadNetwork.getNode(this.lane.to);
+    if (!node) {
+      this.lost = true;
+      return;
+    }
+
+    let options = this.roadNetwork.getOutgoingLanes(node.id).filter(lane => lane.to !== this.lane.from);
+    if (options.length === 0) {
+      // 死路，尝试掉头
+      options = this.roadNetwork.getOutgoingLanes(node.id);
+    }
+    if (options.length === 0) {
+      this.lost = true;
+      return;
+    }
+
+    if (this.isPanicking() && this.fleeFrom) {
+      // 逃跑时选择离攻击者最远的方向
+      const fleeFrom = this.fleeFrom;
+      this.lane = options.reduce((best, lane) =>
+        lane.end.distance(fleeFrom) > best.end.distance(fleeFrom) ? lane : best
+      );
+    } else {
+      this.lane = this.random.pick(options);
+    }
+    this.lost = false;
+  }
+
+  /**
+   * 检查车辆前方是否有障碍物
+   */
+  private isObstacleAhead(collisionSystem: CollisionSystem | null): boolean {
+    if (!collisionSystem) return false;
+
+    const position = this.vehicle.getPosition();
+    const rotation = this.vehicle.getRotation();
+    const forward = new Vector2(Math.cos(rotation), Math.sin(rotation));
+    const right = new Vector2(-forward.y, forward.x);
+    const maxAhead = this.vehicle.getRadius() + this.lookAheadDistance;
+    const laneHalfWidth = this.vehicle.getHeight() / 2;
+
+    for (const id of collisionSystem.queryRadius(position, maxAhead)) {
+      if (id === this.vehicle.getId()) continue;
+      const collider = collisionSystem.getCollider(id);
+      // 只对动态物体（玩家、行人、车辆）刹车，建筑由车道保证避开
+      if (!collider || collider.type === 'rect') continue;
+
+      // 只关心车头前方、本车道宽度内的物体（忽略对向车道）
+      const offset = collider.position.subtract(position);
+      const ahead = offset.x * forward.x + offset.y * forward.y;
+      const lateral = offset.x * right.x + offset.y * right.y;
+      if (ahead > 0 && Math.abs(lateral) < laneHalfWidth) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * 警车司机 - 沿道路追捕目标，到达附近后停车
+ */
+export class PoliceDriver implements VehicleDriver {
+  private id: string;
+  private vehicle: Vehicle;
+  private roadNetwork: RoadNetwork;
+  private target: Vector2 | null = null; // 追捕目标位置
+  private route: Vector2[] = []; // 沿道路的路线
+  private routeIndex: number = 0;
+  private replanTimer: number = 0; // 距离重新规划路线的剩余时间（秒）
+  private replanInterval: number = 1;
+  private pursuitSpeed: number = 220; // 追捕速度
+  private cornerSpeed: number = 90; // 过弯速度
+  private waypointRadius: number = 24; // 到达路线点的判定距离
+  private slowDownDistance: number = 80; // 接近路口时开始减速的距离
+  private stopDistance: number = 120; // 离目标多近时停车
+
+  constructor(id: string, vehicle: Vehicle, roadNetwork: RoadNetwork) {
+    this.id = id;
+    this.vehicle = vehicle;
+    this.roadNetwork = roadNetwork;
+  }
+
+  /**
+   * 获取司机ID
+   */
+  getId(): string {
+    return this.id;
+  }
+
+  /**
+   * 警车找不到路线时直接开向目标，不会迷路
+   */
+  isLost(): boolean {
+    return false;
+  }
+
+  /**
+   * 设置追捕目标（null表示停止追捕）
+   */
+  setTarget(target: Vector2 | null): void {
+    this.target = target ? target.clone() : null;
+  }
+
+  /**
+   * 是否已在目标附近停稳（可以下车）
+   */
+  hasArrived(): boolean {
+    return this.target !== null &&
+      this.vehicle.getPosition().distance(this.target) < this.stopDistance &&
+      this.vehicle.getSpeed() < 20;
+  }
+
+  /**
+   * 更新驾驶
+   */
+  update(deltaTime: number, collisionSystem: CollisionSystem | null): void {
+    const position = this.vehicle.getPosition();
+
+    // 没有目标或已接近目标时刹车
+    if (!this.target || position.distance(this.target) < this.stopDistance) {
+      if (this.vehicle.getSpeed() > 0) {
+        this.vehicle.brake();
+      }
+      return;
+    }
+
+    // 定期沿道路重新规划路线
+    this.replanTimer -= deltaTime;
+    if (this.replanTimer <= 0) {
+      this.replanTimer = this.replanInterval;
+      this.route = this.roadNetwork.findRoute(position, this.target) || [];
+      this.routeIndex = 0;
+    }
+
+    // 到达或已驶过的路线点直接跳过
+    while (this.routeIndex < this.route.length - 1 && this.isWaypointReached(position, this.routeIndex)) {
+      this.routeIndex++;
+    }
+
+    // 路线的最后一段直接开向目标
+    const onLastLeg = this.routeIndex >= this.route.length - 1;
+    const waypoint = onLastLeg ? this.target : this.route[this.routeIndex];
+    const angleDiff = steerVehicleTowards(this.vehicle, waypoint);
+
+    // 转弯或接近路口时减速
+    const nearCorner = !onLastLeg && position.distance(waypoint) < this.slowDownDistance;
+    const targetSpeed = Math.abs(angleDiff) > 0.5 || nearCorner ? this.cornerSpeed : this.pursuitSpeed;
+    const speed = this.vehicle.getSpeed();
+    if (speed < targetSpeed) {
+      this.vehicle.accelerate();
+    } else if (speed > targetSpeed + 10) {
+      this.vehicle.brake();
+    }
+  }
+
+  /**
+   * 路线点是否已到达（在判定距离内，或已沿路线方向驶过）
+   */
+  private isWaypointReached(position: Vector2, index: number): boolean {
+    const waypoint = this.route[index];
+    if (position.distance(waypoint) < this.waypointRadius) {
+      return true;
+    }
+
+    const next = this.route[index + 1];
+    const segment = next.subtract(waypoint);
+    const offset = position.subtract(waypoint);
+    return offset.x * segment.x + offset.y * segment.y > 0;
+  }
+}
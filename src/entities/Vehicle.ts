@@ -1,22 +1,42 @@
 import { Vector2 } from '../utils/Vector2';
 import { Renderer } from '../graphics/Renderer';
 import { Camera } from '../graphics/Camera';
-import { CollisionSystem } from '../world/Collision';
+import { CollisionSystem, CollisionLayer } from '../world/Collision';
+import { Random } from '../utils/Random';
+import { RoadNetwork } from '../world/RoadNetwork';
+import { District } from '../world/Map';
+import { TrafficDriver, PoliceDriver, VehicleDriver } from './TrafficAI';
+import { Explosion } from './Explosive';
+import { VehicleTuning, DEFAULT_VEHICLE_TUNING, VehicleArchetypeConfig, VehicleStyle, vehicleArchetypeRegistry } from './VehicleArchetype';
+
+/**
+ * 车辆损坏状态
+ */
+export enum VehicleDamageState {
+  INTACT = 'intact', // 完好
+  SMOKING = 'smoking', // 冒烟，发动机性能下降
+  BURNING = 'burning', // 着火，倒计时结束后爆炸
+  WRECKED = 'wrecked' // 爆炸后烧毁的残骸
+}
 
 /**
  * 车辆类
  */
 export class Vehicle {
   private position: Vector2;
+  private previousPosition: Vector2; // 上一个模拟步的位置（用于渲染插值）
   private velocity: Vector2;
-  private speed: number = 600; // 像素/秒
-  private maxSpeed: number = 900;
-  private acceleration: number = 450;
-  private friction: number = 0.98; // 摩擦力
+  private tuning: VehicleTuning = { ...DEFAULT_VEHICLE_TUNING }; // 操控参数
+  private throttle: number = 0; // 本步的油门（1前进，-1刹车/倒车）
+  private steering: number = 0; // 本步的方向盘（-1左，1右）
+  private braking: boolean = false; // 本步是否踩刹车（只刹停不倒车）
+  private handbrake: boolean = false; // 本步是否拉手刹
+  private reverseEngageSpeed: number = 10; // 前进速度低于此值时倒车键才挂倒挡
   private width: number = 40;
   private height: number = 24;
   private color: string = '#ff0000'; // 红色车辆
   private rotation: number = 0; // 旋转角度（弧度）
+  private previousRotation: number = 0; // 上一个模拟步的旋转角度
   private id: string;
   private collisionSystem: CollisionSystem | null = null;
   private isOccupied: boolean = false; // 是否被占用
@@ -25,11 +45,32 @@ export class Vehicle {
   private health: number = 100; // 当前血量
   private isDead: boolean = false; // 是否已被摧毁
   private restitution: number = 0.6; // 回弹系数（0-1，越高反弹越强）
+  private collisionIterations: number = 4; // 每步最多解决的碰撞次数
   private lastCollisionNormal: Vector2 | null = null; // 上次碰撞的法向量
+  private lastAttackerPosition: Vector2 | null = null; // 最近一次攻击者的位置
+  private lastAttackerId: string | null = null; // 最近一次攻击者的ID（爆炸时据此结算犯罪）
+  private explosionRadius: number = 120; // 被摧毁时的爆炸半径
+  private explosionDamage: number = 80; // 爆炸中心的伤害
+  private explosionForce: number = 400; // 爆炸中心对其他车辆的冲量
+  private archetype: string = ''; // 车辆原型ID
+  private style: VehicleStyle = VehicleStyle.CAR; // 绘制风格
+  private seats: number = 1; // 座位数
+  private openTop: boolean = false; // 是否敞篷（乘坐时可以使用所有武器）
+  private police: boolean = false; // 是否为警车
+  private sirenTimer: number = 0; // 警灯闪烁计时（秒）
+  private smokeThreshold: number = 0.5; // 血量比例低于此值时冒烟
+  private fireThreshold: number = 0.25; // 血量比例低于此值时着火
+  private minEnginePerformance: number = 0.4; // 血量耗尽时的发动机性能（冒烟后随血量线性下降）
+  private burnDuration: number = 5; // 着火后到爆炸的时间（秒）
+  private burnTimer: number = 0; // 已着火的时间（秒）
+  private wreck: boolean = false; // 是否已爆炸成为残骸
+  private wreckTimer: number = 0; // 成为残骸后经过的时间（秒）
+  private effectTimer: number = 0; // 烟雾和火焰动画计时（秒）
 
   constructor(id: string, position: Vector2) {
     this.id = id;
     this.position = position.clone();
+    this.previousPosition = position.clone();
     this.velocity = new Vector2(0, 0);
   }
 
@@ -38,14 +79,102 @@ export class Vehicle {
    */
   setCollisionSystem(collisionSystem: CollisionSystem): void {
     this.collisionSystem = collisionSystem;
-    // 注册车辆碰撞体
+    // 注册车辆碰撞体（随车身旋转的矩形）
     this.collisionSystem.register(this.id, {
       position: this.position.clone(),
-      radius: Math.max(this.width, this.height) / 2,
-      type: 'circle'
+      radius: Math.hypot(this.width, this.height) / 2,
+      type: 'obb',
+      width: this.width,
+      height: this.height,
+      rotation: this.rotation,
+      layer: CollisionLayer.VEHICLE,
+      mass: this.tuning.mass
     });
   }
 
+  /**
+   * 按原型设置车身尺寸、血量、座位和操控参数
+   */
+  setArchetype(config: VehicleArchetypeConfig, color: string): void {
+    this.archetype = config.id;
+    this.style = config.style;
+    this.police = config.police;
+    this.width = config.width;
+    this.height = config.height;
+    this.color = color;
+    this.maxHealth = config.health;
+    this.health = config.health;
+    this.seats = config.seats;
+    this.openTop = config.openTop;
+    this.restitution = config.restitution;
+    this.tuning = { ...config.tuning };
+
+    // 车身尺寸变化后重新注册碰撞体
+    if (this.collisionSystem) {
+      this.setCollisionSystem(this.collisionSystem);
+    }
+  }
+
+  /**
+   * 获取车辆原型ID
+   */
+  getArchetype(): string {
+    return this.archetype;
+  }
+
+  /**
+   * 获取座位数
+   */
+  getSeats(): number {
+    return this.seats;
+  }
+
+  /**
+   * 是否敞篷（乘坐时可以使用所有武器）
+   */
+  isOpenTop(): boolean {
+    return this.openTop;
+  }
+
+  /**
+   * 获取座位对应的下车位置（0为驾驶座，在车辆左侧；之后左右交替、从前往后排列）
+   */
+  getSeatExitPosition(seat: number): Vector2 {
+    const side = seat % 2 === 0 ? -1 : 1;
+    const row = Math.floor(seat / 2);
+    const forward = new Vector2(Math.cos(this.rotation), Math.sin(this.rotation));
+    const left = new Vector2(forward.y, -forward.x);
+    const rowOffset = Math.min(row * 16, this.width / 2);
+    return this.position
+      .add(left.multiply(-side * (this.height / 2 + 18)))
+      .subtract(forward.multiply(rowOffset));
+  }
+
+  /**
+   * 设置操控参数（未给出的参数保持默认值）
+   */
+  setTuning(tuning: Partial<VehicleTuning>): void {
+    this.tuning = { ...DEFAULT_VEHICLE_TUNING, ...tuning };
+    const collider = this.collisionSystem?.getCollider(this.id);
+    if (collider) {
+      collider.mass = this.tuning.mass;
+    }
+  }
+
+  /**
+   * 获取操控参数
+   */
+  getTuning(): VehicleTuning {
+    return { ...this.tuning };
+  }
+
+  /**
+   * 获取质量
+   */
+  getMass(): number {
+    return this.tuning.mass;
+  }
+
   /**
    * 获取ID
    */
@@ -120,6 +249,9 @@ export class Vehicle {
    */
   setRotation(angle: number): void {
     this.rotation = angle;
+    if (this.collisionSystem) {
+      this.collisionSystem.updateTransform(this.id, this.position, this.rotation);
+    }
   }
 
   /**
@@ -130,141 +262,222 @@ export class Vehicle {
   }
 
   /**
-   * 加速
+   * 记录当前状态，作为下一个模拟步的插值起点
+   */
+  savePreviousState(): void {
+    this.previousPosition = this.position.clone();
+    this.previousRotation = this.rotation;
+  }
+
+  /**
+   * 获取渲染用的插值位置
+   */
+  getInterpolatedPosition(alpha: number): Vector2 {
+    return this.previousPosition.lerp(this.position, alpha);
+  }
+
+  /**
+   * 踩油门（本步有效）
    */
   accelerate(): void {
-    const currentSpeed = this.velocity.length();
-    if (currentSpeed < this.maxSpeed) {
-      const direction = new Vector2(Math.cos(this.rotation), Math.sin(this.rotation));
-      this.velocity = this.velocity.add(direction.multiply(this.acceleration * 0.016)); // 假设16ms帧时间
-    }
+    this.throttle = 1;
+  }
+
+  /**
+   * 踩刹车（本步有效，刹停后不会倒车）
+   */
+  brake(): void {
+    this.braking = true;
   }
 
   /**
-   * 减速
+   * 倒车键（本步有效，前进时先刹车，接近停下后挂倒挡）
    */
-  decelerate(): void {
-    this.velocity = this.velocity.multiply(0.85);
+  reverse(): void {
+    this.throttle = -1;
   }
 
   /**
-   * 转向左
+   * 向左打方向盘（本步有效）
    */
   turnLeft(): void {
-    this.rotation -= 0.05;
+    this.steering = -1;
   }
 
   /**
-   * 转向右
+   * 向右打方向盘（本步有效）
    */
   turnRight(): void {
-    this.rotation += 0.05;
+    this.steering = 1;
+  }
+
+  /**
+   * 拉手刹（本步有效）
+   */
+  setHandbrake(handbrake: boolean): void {
+    this.handbrake = handbrake;
+  }
+
+  /**
+   * 是否拉着手刹
+   */
+  isHandbrakeOn(): boolean {
+    return this.handbrake;
+  }
+
+  /**
+   * 获取沿车头方向的速度（倒车时为负）
+   */
+  getForwardSpeed(): number {
+    return this.velocity.x * Math.cos(this.rotation) + this.velocity.y * Math.sin(this.rotation);
+  }
+
+  /**
+   * 获取横向滑动速度（漂移程度）
+   */
+  getLateralSpeed(): number {
+    return -this.velocity.x * Math.sin(this.rotation) + this.velocity.y * Math.cos(this.rotation);
+  }
+
+  /**
+   * 根据本步的油门、刹车和方向盘更新速度和朝向
+   */
+  private applyDriving(deltaTime: number): void {
+    const tuning = this.tuning;
+    const performance = this.getEnginePerformance();
+    const maxSpeed = tuning.maxSpeed * performance;
+    const forward = new Vector2(Math.cos(this.rotation), Math.sin(this.rotation));
+    const right = new Vector2(-forward.y, forward.x);
+
+    // 把速度分解为纵向和横向分量
+    let forwardSpeed = this.velocity.x * forward.x + this.velocity.y * forward.y;
+    let lateralSpeed = this.velocity.x * right.x + this.velocity.y * right.y;
+
+    // 刹车把纵向速度减到0，倒车键在前进时也当作刹车
+    const braking = this.braking || (this.throttle < 0 && forwardSpeed > this.reverseEngageSpeed);
+    if (braking) {
+      const decrease = tuning.brakeDeceleration * deltaTime;
+      forwardSpeed = forwardSpeed > 0 ? Math.max(0, forwardSpeed - decrease) : Math.min(0, forwardSpeed + decrease);
+    } else if (this.throttle > 0 && forwardSpeed < maxSpeed) {
+      forwardSpeed = Math.min(maxSpeed, forwardSpeed + tuning.engineAcceleration * performance * this.throttle * deltaTime);
+    } else if (this.throttle < 0 && forwardSpeed > -tuning.maxReverseSpeed) {
+      forwardSpeed = Math.max(-tuning.maxReverseSpeed, forwardSpeed + tuning.reverseAcceleration * this.throttle * deltaTime);
+    }
+
+    // 滚动摩擦和轮胎抓地力（拉手刹时后轮打滑，横向速度保留更多而产生漂移）
+    const friction = this.handbrake ? tuning.handbrakeFriction : tuning.rollingFriction;
+    const grip = this.handbrake ? tuning.handbrakeGrip : tuning.grip;
+    forwardSpeed *= Math.pow(friction, deltaTime * 60);
+    lateralSpeed *= Math.pow(1 - grip, deltaTime * 60);
+    this.velocity = forward.multiply(forwardSpeed).add(right.multiply(lateralSpeed));
+
+    // 转向角速度随速度变化：停车时无法转向，低速时逐渐增强，高速时衰减；倒车时方向相反
+    const absSpeed = Math.abs(forwardSpeed);
+    const speedFactor = Math.min(1, absSpeed / tuning.fullSteerSpeed) / (1 + absSpeed / tuning.steerFalloffSpeed);
+    const handbrakeFactor = this.handbrake ? tuning.handbrakeSteerMultiplier : 1;
+    const steerRate = this.steering * tuning.maxSteerRate * speedFactor * handbrakeFactor * Math.sign(forwardSpeed);
+    this.rotation += steerRate * deltaTime;
+
+    // 操控输入只在本步有效
+    this.throttle = 0;
+    this.steering = 0;
+    this.braking = false;
+    this.handbrake = false;
   }
 
   /**
    * 更新车辆
    */
-  update(deltaTime: number): void {
-    // 应用摩擦力
-    this.velocity = this.velocity.multiply(this.friction);
+  update(deltaTime: number, findVehicle: (id: string) => Vehicle | undefined = () => undefined): void {
+    this.effectTimer += deltaTime;
+    if (this.wreck) {
+      // 残骸静止不动，只作为障碍物
+      this.wreckTimer += deltaTime;
+      return;
+    }
+    if (this.police) {
+      this.sirenTimer += deltaTime;
+    }
 
-    // 计算新位置
-    const newPosition = this.position.add(this.velocity.multiply(deltaTime));
+    // 着火后倒计时，火势按剩余时间均匀烧掉剩余血量，倒计时结束时血量归零并爆炸
+    if (this.isBurning()) {
+      const remaining = this.burnDuration - this.burnTimer;
+      this.burnTimer += deltaTime;
+      if (this.burnTimer >= this.burnDuration) {
+        this.health = 0;
+        this.isDead = true;
+      } else {
+        this.health -= this.health * deltaTime / remaining;
+      }
+    }
 
-    // 检查碰撞
-    if (this.collisionSystem) {
-      this.collisionSystem.updatePosition(this.id, newPosition);
-      const collisions = this.collisionSystem.getCollisions(this.id);
-
-      if (collisions.length > 0) {
-        // 发生碰撞，计算碰撞速度（用于伤害计算）
-        const collisionSpeed = this.velocity.length();
-        
-        // 如果发生碰撞，尝试沿着轴移动
-        const testX = this.position.add(new Vector2(this.velocity.x * deltaTime, 0));
-        this.collisionSystem.updatePosition(this.id, testX);
-        const collisionsX = this.collisionSystem.getCollisions(this.id);
-
-        if (collisionsX.length === 0) {
-          this.position = testX;
-          // X 方向通过，反弹 Y 方向速度（基于回弹系数）
-          this.velocity = new Vector2(this.velocity.x, -this.velocity.y * this.restitution);
+    this.applyDriving(deltaTime);
+
+    // 移动车身
+    this.position = this.position.add(this.velocity.multiply(deltaTime));
+    if (!this.collisionSystem) {
+      return;
+    }
+    this.collisionSystem.updateTransform(this.id, this.position, this.rotation);
+
+    // 按接触法向量和穿透深度把车身推出碰撞体（多次迭代以处理同时接触多个物体）
+    // 行人和步行的玩家挡不住车辆，撞人由模拟统一结算
+    const collisionSystem = this.collisionSystem;
+    for (let iteration = 0; iteration < this.collisionIterations; iteration++) {
+      const contacts = collisionSystem.getContacts(this.id).filter(contact =>
+        collisionSystem.getCollider(contact.id)?.layer !== CollisionLayer.CHARACTER
+      );
+      if (contacts.length === 0) {
+        break;
+      }
+
+      // 先处理穿透最深的接触
+      const contact = contacts.reduce((deepest, candidate) =>
+        candidate.penetration > deepest.penetration ? candidate : deepest
+      );
+
+      // 撞到有质量的物体（其他车辆）时按质量比分担推开距离，撞到建筑等静止物体时全部由自己承担
+      const otherMass = this.collisionSystem.getCollider(contact.id)?.mass;
+      const share = otherMass !== undefined ? otherMass / (otherMass + this.tuning.mass) : 1;
+      this.position = this.position.add(contact.normal.multiply(contact.penetration * share));
+      this.collisionSystem.updateTransform(this.id, this.position, this.rotation);
+      this.lastCollisionNormal = contact.normal;
+
+      // 只有沿法向量相互接近的速度分量会被反弹（静止物体的速度为0）
+      const other = findVehicle(contact.id);
+      const relativeVelocity = other ? this.velocity.subtract(other.getVelocity()) : this.velocity;
+      const velocityDotNormal = relativeVelocity.x * contact.normal.x + relativeVelocity.y * contact.normal.y;
+      if (velocityDotNormal < 0) {
+        if (other) {
+          // 两车按质量交换冲量：j = -(1 + 回弹系数) * (相对速度·法向量) / (1/m1 + 1/m2)
+          const impulse = contact.normal.multiply(
+            -(1 + this.restitution) * velocityDotNormal / (1 / this.tuning.mass + 1 / other.getMass())
+          );
+          this.applyImpulse(impulse);
+          other.applyImpulse(impulse.multiply(-1));
         } else {
-          const testY = this.position.add(new Vector2(0, this.velocity.y * deltaTime));
-          this.collisionSystem.updatePosition(this.id, testY);
-          const collisionsY = this.collisionSystem.getCollisions(this.id);
-
-          if (collisionsY.length === 0) {
-            this.position = testY;
-            // Y 方向通过，反弹 X 方向速度（基于回弹系数）
-            this.velocity = new Vector2(-this.velocity.x * this.restitution, this.velocity.y);
-          } else {
-            // 两个方向都碰撞，使用法向量计算反弹
-            this.collisionSystem.updatePosition(this.id, this.position);
-            
-            // 获取碰撞法向量
-            let collisionNormal: Vector2 | null = null;
-            for (const colliderId of collisions) {
-              const collider1 = this.collisionSystem.getCollider(this.id);
-              const collider2 = this.collisionSystem.getCollider(colliderId);
-              
-              if (collider1 && collider2) {
-                if (collider1.type === 'circle' && collider2.type === 'circle') {
-                  collisionNormal = this.collisionSystem.getCollisionNormal(this.id, colliderId);
-                } else if (collider1.type === 'circle' && collider2.type === 'rect') {
-                  collisionNormal = this.collisionSystem.getCollisionNormalCircleRect(this.id, colliderId);
-                }
-                
-                if (collisionNormal) {
-                  this.lastCollisionNormal = collisionNormal;
-                  break;
-                }
-              }
-            }
-            
-            // 基于法向量计算反弹速度
-            if (collisionNormal) {
-              // 计算速度在法向量上的投影
-              const velocityDotNormal = this.velocity.x * collisionNormal.x + this.velocity.y * collisionNormal.y;
-              
-              // 如果速度指向碰撞体，则反弹
-              if (velocityDotNormal < 0) {
-                // 反弹速度 = 速度 - (1 + 回弹系数) * (速度·法向量) * 法向量
-                const bounceForce = (1 + this.restitution) * velocityDotNormal;
-                const bounceVelocity = new Vector2(
-                  this.velocity.x - bounceForce * collisionNormal.x,
-                  this.velocity.y - bounceForce * collisionNormal.y
-                );
-                this.velocity = bounceVelocity;
-              }
-            } else {
-              // 如果无法计算法向量，使用简单反弹
-              this.velocity = this.velocity.multiply(-this.restitution);
-            }
-            
-            // 根据碰撞速度扣除血量
-            if (collisionSpeed > 50) {
-              // 只要有足够的碰撞速度就会造成伤害
-              const damage = Math.max(1, Math.floor(collisionSpeed / 30)); // 最少扣1血，最多扣30血
-              this.takeDamage(damage);
-            }
-          }
+          // 反弹速度 = 速度 - (1 + 回弹系数) * (速度·法向量) * 法向量
+          this.velocity = this.velocity.subtract(contact.normal.multiply((1 + this.restitution) * velocityDotNormal));
+        }
+
+        // 根据沿法向量的撞击速度扣除血量（擦碰不会受伤），两车都会受损
+        const impactSpeed = -velocityDotNormal;
+        if (impactSpeed > 50) {
+          const damage = Math.max(1, Math.floor(impactSpeed / 30));
+          this.takeDamage(damage);
+          other?.takeDamage(damage);
         }
-      } else {
-        // 没有碰撞，更新位置
-        this.position = newPosition;
       }
-    } else {
-      this.position = newPosition;
     }
   }
 
   /**
    * 渲染车辆
    */
-  render(renderer: Renderer, camera: Camera): void {
-    const screenPos = camera.worldToScreen(this.position);
+  render(renderer: Renderer, camera: Camera, alpha: number = 1): void {
+    const screenPos = camera.worldToScreen(this.getInterpolatedPosition(alpha));
     const zoom = camera.getZoom();
+    const rotation = this.previousRotation + (this.rotation - this.previousRotation) * alpha;
 
     const ctx = renderer.getContext();
     ctx.save();
@@ -272,37 +485,185 @@ export class Vehicle {
     // 移动到车辆位置
     ctx.translate(screenPos.x, screenPos.y);
     // 旋转
-    ctx.rotate(this.rotation);
+    ctx.rotate(rotation);
 
-    // 绘制车身
-    ctx.fillStyle = this.color;
-    ctx.fillRect(-this.width / 2 * zoom, -this.height / 2 * zoom, this.width * zoom, this.height * zoom);
+    // 残骸只绘制烧焦的车身
+    if (this.wreck) {
+      this.renderWreck(ctx, zoom);
+      ctx.restore();
+      return;
+    }
 
-    // 绘制车窗
-    ctx.fillStyle = '#87ceeb'; // 天蓝色
-    ctx.fillRect(-this.width / 3 * zoom, -this.height / 3 * zoom, this.width / 1.5 * zoom, this.height / 3 * zoom);
+    // 按原型风格绘制车身
+    this.renderBody(ctx, zoom);
 
-    // 绘制车灯
-    ctx.fillStyle = '#ffff00'; // 黄色
-    ctx.fillRect(-this.width / 2 * zoom, -this.height / 4 * zoom, 3 * zoom, 3 * zoom);
-    ctx.fillRect(this.width / 2 * zoom - 3 * zoom, -this.height / 4 * zoom, 3 * zoom, 3 * zoom);
+    // 按损坏状态在车头（发动机处）绘制烟雾或火焰
+    const damageState = this.getDamageState();
+    if (damageState === VehicleDamageState.BURNING) {
+      this.renderFire(ctx, zoom);
+    }
+    if (damageState !== VehicleDamageState.INTACT) {
+      this.renderSmoke(ctx, zoom, damageState === VehicleDamageState.BURNING ? '#212121' : '#9e9e9e');
+    }
 
-    ctx.restore();
+    // 绘制警灯（红蓝交替闪烁）
+    if (this.police) {
+      const redFirst = Math.floor(this.sirenTimer * 4) % 2 === 0;
+      ctx.fillStyle = redFirst ? '#ff0000' : '#0000ff';
+      ctx.fillRect(-4 * zoom, -this.height / 2 * zoom, 8 * zoom, this.height / 2 * zoom);
+      ctx.fillStyle = redFirst ? '#0000ff' : '#ff0000';
+      ctx.fillRect(-4 * zoom, 0, 8 * zoom, this.height / 2 * zoom);
+    }
 
     // 绘制车辆边框（表示可交互）
     if (!this.isOccupied) {
       ctx.strokeStyle = '#00ff00';
       ctx.lineWidth = 2;
-      ctx.strokeRect(
-        screenPos.x - this.width / 2 * zoom,
-        screenPos.y - this.height / 2 * zoom,
-        this.width * zoom,
-        this.height * zoom
-      );
+      ctx.strokeRect(-this.width / 2 * zoom, -this.height / 2 * zoom, this.width * zoom, this.height * zoom);
     }
 
+    ctx.restore();
+
     // 绘制血条（在车辆下方）
     this.renderHealthBar(renderer, screenPos, zoom);
+
+    // 着火时在车辆上方显示爆炸倒计时
+    const countdown = this.getExplosionCountdown();
+    if (countdown !== null) {
+      ctx.save();
+      ctx.fillStyle = '#ff5722';
+      ctx.font = `bold ${Math.round(14 * zoom)}px Arial`;
+      ctx.textAlign = 'center';
+      ctx.fillText(Math.ceil(countdown).toString(), screenPos.x, screenPos.y - this.height / 2 * zoom - 10 * zoom);
+      ctx.restore();
+    }
+  }
+
+  /**
+   * 绘制烧毁的残骸
+   */
+  private renderWreck(ctx: CanvasRenderingContext2D, zoom: number): void {
+    const halfWidth = this.width / 2 * zoom;
+    const halfHeight = this.height / 2 * zoom;
+    ctx.fillStyle = '#2b2b2b';
+    ctx.fillRect(-halfWidth, -halfHeight, halfWidth * 2, halfHeight * 2);
+    ctx.fillStyle = '#111111';
+    ctx.fillRect(-halfWidth * 0.6, -halfHeight * 0.6, halfWidth * 1.2, halfHeight * 1.2);
+    // 刚烧毁时仍在冒烟
+    if (this.wreckTimer < 10) {
+      this.renderSmoke(ctx, zoom, '#424242');
+    }
+  }
+
+  /**
+   * 在车头绘制向后飘散的烟雾
+   */
+  private renderSmoke(ctx: CanvasRenderingContext2D, zoom: number, color: string): void {
+    const puffCount = 3;
+    ctx.fillStyle = color;
+    for (let i = 0; i < puffCount; i++) {
+      // 每团烟从发动机处升起，逐渐变大变淡并飘向车尾
+      const phase = (this.effectTimer * 1.5 + i / puffCount) % 1;
+      ctx.globalAlpha = 0.6 * (1 - phase);
+      ctx.beginPath();
+      ctx.arc(
+        (this.width / 2 - 8 - phase * 24) * zoom,
+        Math.sin((this.effectTimer + i) * 3) * 3 * zoom,
+        (3 + phase * 6) * zoom,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  /**
+   * 在车头绘制闪烁的火焰
+   */
+  private renderFire(ctx: CanvasRenderingContext2D, zoom: number): void {
+    const flicker = 1 + Math.sin(this.effectTimer * 25) * 0.2;
+    const x = (this.width / 2 - 8) * zoom;
+    ctx.fillStyle = '#ff6d00';
+    ctx.beginPath();
+    ctx.arc(x, 0, 7 * flicker * zoom, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#ffd600';
+    ctx.beginPath();
+    ctx.arc(x, 0, 4 * flicker * zoom, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  /**
+   * 绘制车身（坐标系已移动到车辆中心并旋转，x轴指向车头）
+   */
+  private renderBody(ctx: CanvasRenderingContext2D, zoom: number): void {
+    const halfWidth = this.width / 2 * zoom;
+    const halfHeight = this.height / 2 * zoom;
+
+    switch (this.style) {
+      case VehicleStyle.BIKE:
+        // 细长车身、前后轮和车把
+        ctx.fillStyle = '#111111';
+        ctx.fillRect(-halfWidth, -2 * zoom, 6 * zoom, 4 * zoom);
+        ctx.fillRect(halfWidth - 6 * zoom, -2 * zoom, 6 * zoom, 4 * zoom);
+        ctx.fillStyle = this.color;
+        ctx.fillRect(-halfWidth / 2, -halfHeight / 2, halfWidth * 1.3, halfHeight);
+        ctx.fillStyle = '#9e9e9e';
+        ctx.fillRect(halfWidth / 2, -halfHeight, 2 * zoom, halfHeight * 2);
+        break;
+      case VehicleStyle.TRUCK: {
+        // 车头在前三分之一，后面是灰色货箱
+        const cabLength = this.width / 3 * zoom;
+        ctx.fillStyle = '#9e9e9e';
+        ctx.fillRect(-halfWidth, -halfHeight, halfWidth * 2 - cabLength - 2 * zoom, halfHeight * 2);
+        ctx.fillStyle = this.color;
+        ctx.fillRect(halfWidth - cabLength, -halfHeight, cabLength, halfHeight * 2);
+        ctx.fillStyle = '#87ceeb';
+        ctx.fillRect(halfWidth - 7 * zoom, -halfHeight + 3 * zoom, 4 * zoom, halfHeight * 2 - 6 * zoom);
+        this.renderHeadlights(ctx, zoom);
+        break;
+      }
+      case VehicleStyle.BUS: {
+        // 长车身，两侧各一排车窗
+        ctx.fillStyle = this.color;
+        ctx.fillRect(-halfWidth, -halfHeight, halfWidth * 2, halfHeight * 2);
+        ctx.fillStyle = '#87ceeb';
+        for (let x = -halfWidth + 4 * zoom; x < halfWidth - 12 * zoom; x += 10 * zoom) {
+          ctx.fillRect(x, -halfHeight + 2 * zoom, 7 * zoom, 3 * zoom);
+          ctx.fillRect(x, halfHeight - 5 * zoom, 7 * zoom, 3 * zoom);
+        }
+        ctx.fillRect(halfWidth - 6 * zoom, -halfHeight + 3 * zoom, 4 * zoom, halfHeight * 2 - 6 * zoom);
+        this.renderHeadlights(ctx, zoom);
+        break;
+      }
+      case VehicleStyle.SPORTS:
+        // 低矮车身，靠后的小车窗和贯穿车身的赛车条纹
+        ctx.fillStyle = this.color;
+        ctx.fillRect(-halfWidth, -halfHeight, halfWidth * 2, halfHeight * 2);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(-halfWidth, -2 * zoom, halfWidth * 2, 4 * zoom);
+        ctx.fillStyle = '#263238';
+        ctx.fillRect(-halfWidth / 3, -halfHeight / 2, halfWidth / 2, halfHeight);
+        this.renderHeadlights(ctx, zoom);
+        break;
+      default:
+        ctx.fillStyle = this.color;
+        ctx.fillRect(-halfWidth, -halfHeight, halfWidth * 2, halfHeight * 2);
+        ctx.fillStyle = '#87ceeb'; // 天蓝色
+        ctx.fillRect(-this.width / 3 * zoom, -this.height / 3 * zoom, this.width / 1.5 * zoom, this.height / 3 * zoom);
+        this.renderHeadlights(ctx, zoom);
+        break;
+    }
+  }
+
+  /**
+   * 绘制车头的两盏车灯
+   */
+  private renderHeadlights(ctx: CanvasRenderingContext2D, zoom: number): void {
+    ctx.fillStyle = '#ffff00'; // 黄色
+    ctx.fillRect(this.width / 2 * zoom - 3 * zoom, -this.height / 2 * zoom + 2 * zoom, 3 * zoom, 3 * zoom);
+    ctx.fillRect(this.width / 2 * zoom - 3 * zoom, this.height / 2 * zoom - 5 * zoom, 3 * zoom, 3 * zoom);
   }
 
   /**
@@ -367,14 +728,35 @@ export class Vehicle {
     return distance < range;
   }
 
+  /**
+   * 获取速度
+   */
+  getVelocity(): Vector2 {
+    return this.velocity.clone();
+  }
+
+  /**
+   * 获取当前速率（像素/秒）
+   */
+  getSpeed(): number {
+    return this.velocity.length();
+  }
+
   /**
    * 受伤
    */
-  takeDamage(damage: number): void {
+  takeDamage(damage: number, attackerPosition?: Vector2, attackerId?: string): void {
     if (this.isDead) {
       return;
     }
 
+    if (attackerPosition) {
+      this.lastAttackerPosition = attackerPosition.clone();
+    }
+    if (attackerId) {
+      this.lastAttackerId = attackerId;
+    }
+
     this.health -= damage;
     if (this.health <= 0) {
       this.health = 0;
@@ -382,6 +764,26 @@ export class Vehicle {
     }
   }
 
+  /**
+   * 施加冲量（如爆炸冲击，越重的车速度变化越小）
+   */
+  applyImpulse(impulse: Vector2): void {
+    this.velocity = this.velocity.add(impulse.multiply(1 / this.tuning.mass));
+  }
+
+  /**
+   * 获取被摧毁时产生的爆炸
+   */
+  getExplosion(): Explosion {
+    return {
+      position: this.position.clone(),
+      radius: this.explosionRadius,
+      damage: this.explosionDamage,
+      force: this.explosionForce,
+      ownerId: this.lastAttackerId ?? this.id
+    };
+  }
+
   /**
    * 获取当前血量
    */
@@ -389,6 +791,89 @@ export class Vehicle {
     return this.health;
   }
 
+  /**
+   * 设置血量（读档、修车用，血量恢复到着火线以上时灭火）
+   */
+  setHealth(health: number): void {
+    this.health = Math.max(0, Math.min(health, this.maxHealth));
+    this.isDead = this.health === 0;
+    if (!this.isBurning()) {
+      this.burnTimer = 0;
+    }
+  }
+
+  /**
+   * 获取损坏状态
+   */
+  getDamageState(): VehicleDamageState {
+    if (this.wreck) {
+      return VehicleDamageState.WRECKED;
+    }
+    const ratio = this.health / this.maxHealth;
+    if (ratio <= this.fireThreshold) {
+      return VehicleDamageState.BURNING;
+    }
+    if (ratio < this.smokeThreshold) {
+      return VehicleDamageState.SMOKING;
+    }
+    return VehicleDamageState.INTACT;
+  }
+
+  /**
+   * 是否正在着火（即将爆炸）
+   */
+  isBurning(): boolean {
+    return !this.isDead && this.getDamageState() === VehicleDamageState.BURNING;
+  }
+
+  /**
+   * 获取距离爆炸的剩余时间（未着火时返回null）
+   */
+  getExplosionCountdown(): number | null {
+    return this.isBurning() ? Math.max(0, this.burnDuration - this.burnTimer) : null;
+  }
+
+  /**
+   * 获取发动机性能（0-1，冒烟后随血量下降，影响加速度和最高速度）
+   */
+  getEnginePerformance(): number {
+    const ratio = this.health / this.maxHealth;
+    if (ratio >= this.smokeThreshold) {
+      return 1;
+    }
+    return this.minEnginePerformance + (1 - this.minEnginePerformance) * ratio / this.smokeThreshold;
+  }
+
+  /**
+   * 爆炸后变为烧毁的残骸（保留碰撞体作为静止的障碍物）
+   */
+  becomeWreck(): void {
+    this.wreck = true;
+    this.isDead = true;
+    this.health = 0;
+    this.isOccupied = false;
+    this.occupantId = null;
+    this.velocity = new Vector2(0, 0);
+    const collider = this.collisionSystem?.getCollider(this.id);
+    if (collider) {
+      collider.mass = undefined;
+    }
+  }
+
+  /**
+   * 是否为烧毁的残骸
+   */
+  isWreck(): boolean {
+    return this.wreck;
+  }
+
+  /**
+   * 获取成为残骸后经过的时间（秒）
+   */
+  getWreckTime(): number {
+    return this.wreckTimer;
+  }
+
   /**
    * 获取最大血量
    */
@@ -403,6 +888,27 @@ export class Vehicle {
     return this.isDead;
   }
 
+  /**
+   * 是否为警车
+   */
+  isPolice(): boolean {
+    return this.police;
+  }
+
+  /**
+   * 获取车身颜色
+   */
+  getColor(): string {
+    return this.color;
+  }
+
+  /**
+   * 设置车身颜色（喷漆）
+   */
+  setColor(color: string): void {
+    this.color = color;
+  }
+
   /**
    * 获取车辆半径（用于碰撞检测）
    */
@@ -424,6 +930,13 @@ export class Vehicle {
     return this.restitution;
   }
 
+  /**
+   * 获取最近一次攻击者的位置
+   */
+  getLastAttackerPosition(): Vector2 | null {
+    return this.lastAttackerPosition ? this.lastAttackerPosition.clone() : null;
+  }
+
   /**
    * 获取上次碰撞的法向量
    */
@@ -442,6 +955,21 @@ export class VehicleManager {
   private maxVehicles: number = 5; // 最多维持5辆车
   private spawnRange: number = 800; // 生成范围（玩家周围）
   private despawnRange: number = 1200; // 消失范围（超出此范围会被删除）
+  private random: Random; // 模拟用随机数生成器
+  private roadNetwork: RoadNetwork | null = null; // 道路网络（用于AI交通）
+  private drivers: Map<string, VehicleDriver> = new Map(); // 车辆ID -> AI司机
+  private policeDrivers: Map<string, PoliceDriver> = new Map(); // 车辆ID -> 警车司机
+  private maxPoliceVehicles: number = 4; // 最多同时存在的警车数量（包括无人的警车）
+  private policeReclaimRange: number = 600; // 无人的警车超出此范围（玩家视野外）后被回收
+  private onVehicleDestroyed: ((vehicle: Vehicle) => void) | null = null; // 车辆被摧毁（爆炸）回调
+  private onDriverBailOut: ((vehicle: Vehicle, exitPosition: Vector2) => void) | null = null; // AI司机弃车回调
+  private wreckLifetime: number = 45; // 残骸保留的时间（秒）
+  private persistentIds: Set<string> = new Set(); // 不会因超出范围而消失的车辆（如任务车辆）
+  private districtLookup: ((position: Vector2) => District) | null = null; // 查询某点所在的街区
+
+  constructor(random: Random) {
+    this.random = random;
+  }
 
   /**
    * 设置碰撞系统
@@ -451,15 +979,201 @@ export class VehicleManager {
   }
 
   /**
-   * 生成车辆
+   * 设置AI司机跳出着火车辆的回调
+   */
+  setOnDriverBailOut(callback: (vehicle: Vehicle, exitPosition: Vector2) => void): void {
+    this.onDriverBailOut = callback;
+  }
+
+  /**
+   * 设置车辆被摧毁回调（在车辆变为残骸前调用）
+   */
+  setOnVehicleDestroyed(callback: (vehicle: Vehicle) => void): void {
+    this.onVehicleDestroyed = callback;
+  }
+
+  /**
+   * 设置街区查询（交通车辆按所在街区的生成权重选择原型）
+   */
+  setDistrictLookup(lookup: (position: Vector2) => District): void {
+    this.districtLookup = lookup;
+  }
+
+  /**
+   * 按位置所在街区随机选择一种交通车辆原型
    */
-  spawnVehicle(position: Vector2): Vehicle {
+  private pickTrafficArchetype(position: Vector2): string {
+    const district = this.districtLookup ? this.districtLookup(position) : District.DOWNTOWN;
+    return vehicleArchetypeRegistry.pickSpawnArchetype(district, this.random.next());
+  }
+
+  /**
+   * 设置道路网络
+   */
+  setRoadNetwork(roadNetwork: RoadNetwork): void {
+    this.roadNetwork = roadNetwork;
+  }
+
+  /**
+   * 在道路上生成一辆由AI驾驶的车辆
+   */
+  private spawnTrafficVehicle(playerPosition: Vector2): Vehicle | null {
+    if (!this.roadNetwork) {
+      return null;
+    }
+
+    // 选择距离玩家合适范围内的路段
+    const candidates = this.roadNetwork.getEdges().filter(edge => {
+      const a = this.roadNetwork!.getNode(edge.nodeA)!.position;
+      const b = this.roadNetwork!.getNode(edge.nodeB)!.position;
+      const distance = a.lerp(b, 0.5).distance(playerPosition);
+      return distance >= 400 && distance <= this.spawnRange;
+    });
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const edge = this.random.pick(candidates);
+    const lane = this.random.pick(edge.lanes);
+    const spawnPos = lane.start.lerp(lane.end, this.random.range(0.2, 0.8));
+
+    // 生成位置被占用时放弃本次生成
+    if (this.collisionSystem && this.collisionSystem.queryRadius(spawnPos, 24).length > 0) {
+      return null;
+    }
+
+    const vehicle = this.createVehicle(spawnPos, this.pickTrafficArchetype(spawnPos));
+    vehicle.setRotation(Math.atan2(lane.direction.y, lane.direction.x));
+    vehicle.savePreviousState();
+
+    const driver = new TrafficDriver(`driver_${vehicle.getId()}`, vehicle, lane, this.roadNetwork, this.random);
+    vehicle.enterVehicle(driver.getId());
+    this.drivers.set(vehicle.getId(), driver);
+    return vehicle;
+  }
+
+  /**
+   * 在玩家附近的路口生成一辆追捕玩家的警车
+   */
+  spawnPoliceVehicle(playerPosition: Vector2): Vehicle | null {
+    if (!this.roadNetwork || this.getPoliceVehicleCount() >= this.maxPoliceVehicles) {
+      return null;
+    }
+
+    // 在玩家视线外、不太远的路口出现
+    const candidates = this.roadNetwork.getNodes().filter(node => {
+      const distance = node.position.distance(playerPosition);
+      return distance >= 450 && distance <= 700;
+    });
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const node = this.random.pick(candidates);
+    if (this.collisionSystem && this.collisionSystem.queryRadius(node.position, 24).length > 0) {
+      return null;
+    }
+
+    const vehicle = this.createVehicle(node.position, vehicleArchetypeRegistry.getPoliceId());
+    const toPlayer = playerPosition.subtract(node.position);
+    vehicle.setRotation(Math.atan2(toPlayer.y, toPlayer.x));
+    vehicle.savePreviousState();
+
+    const driver = new PoliceDriver(`driver_${vehicle.getId()}`, vehicle, this.roadNetwork);
+    driver.setTarget(playerPosition);
+    vehicle.enterVehicle(driver.getId());
+    this.drivers.set(vehicle.getId(), driver);
+    this.policeDrivers.set(vehicle.getId(), driver);
+    return vehicle;
+  }
+
+  /**
+   * 获取警车数量（包括警察下车后留下的无人警车，不含残骸）
+   */
+  getPoliceVehicleCount(): number {
+    return this.getVehicles().filter(vehicle => vehicle.isPolice() && !vehicle.isWreck()).length;
+  }
+
+  /**
+   * 是否为警察下车后留下、无人驾驶的警车
+   */
+  private isAbandonedPoliceVehicle(vehicle: Vehicle): boolean {
+    return vehicle.isPolice() && !vehicle.isWreck() && !this.drivers.has(vehicle.getId()) && !vehicle.isOccupiedByPlayer();
+  }
+
+  /**
+   * 设置所有警车的追捕目标（null表示停止追捕）
+   */
+  setPoliceTarget(position: Vector2 | null): void {
+    for (const driver of this.policeDrivers.values()) {
+      driver.setTarget(position);
+    }
+  }
+
+  /**
+   * 获取已在目标附近停稳、警察可以下车的警车
+   */
+  getArrivedPoliceVehicles(): Vehicle[] {
+    const arrived: Vehicle[] = [];
+    for (const [vehicleId, driver] of this.policeDrivers) {
+      if (driver.hasArrived()) {
+        arrived.push(this.vehicles.get(vehicleId)!);
+      }
+    }
+    return arrived;
+  }
+
+  /**
+   * 车辆是否由AI驾驶
+   */
+  hasDriver(vehicle: Vehicle): boolean {
+    return this.drivers.has(vehicle.getId());
+  }
+
+  /**
+   * 将AI司机拖出车辆，返回司机下车的位置
+   */
+  ejectDriver(vehicle: Vehicle): Vector2 | null {
+    if (!this.drivers.delete(vehicle.getId())) {
+      return null;
+    }
+    this.policeDrivers.delete(vehicle.getId());
+
+    vehicle.exitVehicle();
+
+    // 司机从驾驶座一侧下车
+    return vehicle.getSeatExitPosition(0);
+  }
+
+  /**
+   * 生成车辆（未指定原型时按所在街区的生成权重选择）
+   */
+  spawnVehicle(position: Vector2, archetype?: string): Vehicle {
     if (this.vehicles.size >= this.maxVehicles) {
       return Array.from(this.vehicles.values())[0]; // 返回第一辆车
     }
 
+    return this.createVehicle(position, archetype ?? this.pickTrafficArchetype(position));
+  }
+
+  /**
+   * 在指定位置放置一辆无人驾驶的车辆（读档、任务用，不检查数量上限）
+   */
+  addVehicle(position: Vector2, rotation: number, archetype: string = vehicleArchetypeRegistry.getDefaultId()): Vehicle {
+    const vehicle = this.createVehicle(position, archetype);
+    vehicle.setRotation(rotation);
+    vehicle.savePreviousState();
+    return vehicle;
+  }
+
+  /**
+   * 创建车辆（不检查数量上限）
+   */
+  private createVehicle(position: Vector2, archetype: string): Vehicle {
     const vehicleId = `vehicle_${this.vehicleIdCounter++}`;
     const vehicle = new Vehicle(vehicleId, position);
+    const config = vehicleArchetypeRegistry.get(archetype);
+    vehicle.setArchetype(config, this.random.pick(config.colors));
 
     if (this.collisionSystem) {
       vehicle.setCollisionSystem(this.collisionSystem);
@@ -469,6 +1183,46 @@ export class VehicleManager {
     return vehicle;
   }
 
+  /**
+   * 移除车辆（同时注销碰撞体）
+   */
+  removeVehicle(id: string): boolean {
+    this.drivers.delete(id);
+    this.policeDrivers.delete(id);
+    this.persistentIds.delete(id);
+    if (this.collisionSystem) {
+      this.collisionSystem.unregister(id);
+    }
+    return this.vehicles.delete(id);
+  }
+
+  /**
+   * 设置车辆是否常驻（常驻车辆只会因被摧毁而移除）
+   */
+  setPersistent(id: string, persistent: boolean): void {
+    if (persistent) {
+      this.persistentIds.add(id);
+    } else {
+      this.persistentIds.delete(id);
+    }
+  }
+
+  /**
+   * 清空所有车辆
+   */
+  clear(): void {
+    for (const id of Array.from(this.vehicles.keys())) {
+      this.removeVehicle(id);
+    }
+  }
+
+  /**
+   * 获取车辆
+   */
+  getVehicle(id: string): Vehicle | undefined {
+    return this.vehicles.get(id);
+  }
+
   /**
    * 获取所有车辆
    */
@@ -481,7 +1235,7 @@ export class VehicleManager {
    */
   getNearbyVehicles(playerPosition: Vector2, range: number = 100): Vehicle[] {
     return Array.from(this.vehicles.values()).filter(vehicle =>
-      vehicle.isPlayerNearby(playerPosition, range)
+      !vehicle.getIsDead() && vehicle.isPlayerNearby(playerPosition, range)
     );
   }
 
@@ -504,45 +1258,74 @@ export class VehicleManager {
     const vehiclesToRemove: string[] = [];
 
     for (const [vehicleId, vehicle] of this.vehicles) {
+      // AI司机驾驶
+      const driver = this.drivers.get(vehicleId);
+      if (driver) {
+        driver.update(deltaTime, this.collisionSystem);
+      }
+
       // 更新车辆
-      vehicle.update(deltaTime);
+      vehicle.update(deltaTime, id => this.vehicles.get(id));
 
-      // 检查是否已被摧毁
-      if (vehicle.getIsDead()) {
-        vehiclesToRemove.push(vehicleId);
-        continue;
+      // 着火的车辆里AI司机跳车逃生
+      if (vehicle.isBurning() && this.drivers.has(vehicleId)) {
+        const exitPosition = this.ejectDriver(vehicle);
+        if (exitPosition && this.onDriverBailOut) {
+          this.onDriverBailOut(vehicle, exitPosition);
+        }
+      }
+
+      // 检查是否已被摧毁（被摧毁的车辆爆炸后变为残骸，车上的AI司机随车身一起被炸死）
+      if (vehicle.getIsDead() && !vehicle.isWreck()) {
+        this.drivers.delete(vehicleId);
+        this.policeDrivers.delete(vehicleId);
+        if (this.onVehicleDestroyed) {
+          this.onVehicleDestroyed(vehicle);
+        }
+        vehicle.becomeWreck();
       }
 
-      // 检查是否超出范围
+      // 残骸保留一段时间后消失，迷路的AI车辆直接消失，无人的警车离开玩家视野后回收，其他车辆超出范围后消失
       const distance = vehicle.getPosition().subtract(playerPosition).length();
-      if (distance > this.despawnRange) {
+      const persistent = this.persistentIds.has(vehicleId);
+      if (vehicle.isWreck() && vehicle.getWreckTime() >= this.wreckLifetime) {
+        vehiclesToRemove.push(vehicleId);
+      } else if (this.drivers.get(vehicleId)?.isLost() && !persistent) {
+        vehiclesToRemove.push(vehicleId);
+      } else if (this.isAbandonedPoliceVehicle(vehicle) && distance > this.policeReclaimRange && !persistent) {
+        vehiclesToRemove.push(vehicleId);
+      } else if (distance > this.despawnRange && !persistent) {
         vehiclesToRemove.push(vehicleId);
       }
     }
 
-    // 移除超出范围或已摧毁的车辆
+    // 移除超出范围的车辆和过期的残骸
     for (const vehicleId of vehiclesToRemove) {
-      this.vehicles.delete(vehicleId);
+      this.removeVehicle(vehicleId);
     }
 
-    // 尝试生成新车辆
-    if (this.vehicles.size < this.maxVehicles && Math.random() < 0.01) {
-      const angle = Math.random() * Math.PI * 2;
-      const distance = 400 + Math.random() * 400;
-      const spawnPos = new Vector2(
-        playerPosition.x + Math.cos(angle) * distance,
-        playerPosition.y + Math.sin(angle) * distance
-      );
-      this.spawnVehicle(spawnPos);
+    // 尝试在道路上生成新的AI车辆（警车和残骸不计入数量）
+    const trafficCount = this.getVehicles().filter(vehicle => !vehicle.isPolice() && !vehicle.isWreck()).length;
+    if (trafficCount < this.maxVehicles && this.random.next() < 0.01) {
+      this.spawnTrafficVehicle(playerPosition);
+    }
+  }
+
+  /**
+   * 记录所有车辆的状态（用于渲染插值）
+   */
+  savePreviousStates(): void {
+    for (const vehicle of this.vehicles.values()) {
+      vehicle.savePreviousState();
     }
   }
 
   /**
    * 渲染所有车辆
    */
-  render(renderer: Renderer, camera: Camera): void {
+  render(renderer: Renderer, camera: Camera, alpha: number = 1): void {
     for (const vehicle of this.vehicles.values()) {
-      vehicle.render(renderer, camera);
+      vehicle.render(renderer, camera, alpha);
     }
   }
 
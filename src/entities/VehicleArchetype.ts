@@ -0,0 +1,218 @@
+import { District } from '../world/Map';
+import { DataReader } from '../utils/DataReader';
+import vehicleDefinitions from '../data/vehicles.json';
+
+/**
+ * 车辆的绘制风格
+ */
+export enum VehicleStyle {
+  CAR = 'car', // 普通轿车
+  SPORTS = 'sports', // 低矮跑车（带赛车条纹）
+  TRUCK = 'truck', // 车头加货箱
+  BIKE = 'bike', // 摩托车
+  BUS = 'bus' // 一排车窗的长车身
+}
+
+/**
+ * 车辆操控参数（摩擦和抓地力按每1/60秒换算，与帧率无关）
+ */
+export interface VehicleTuning {
+  mass: number; // 质量（影响冲量和车辆之间的碰撞）
+  engineAcceleration: number; // 油门加速度（像素/秒²）
+  brakeDeceleration: number; // 刹车减速度（像素/秒²）
+  maxSpeed: number; // 油门能达到的最高速度（像素/秒）
+  reverseAcceleration: number; // 倒车加速度（像素/秒²）
+  maxReverseSpeed: number; // 倒车最高速度（像素/秒）
+  rollingFriction: number; // 滚动摩擦（每1/60秒保留的纵向速度比例）
+  grip: number; // 轮胎抓地力（每1/60秒消除的横向速度比例）
+  handbrakeGrip: number; // 拉手刹时后轮的抓地力
+  handbrakeFriction: number; // 拉手刹时每1/60秒保留的纵向速度比例
+  maxSteerRate: number; // 最大转向角速度（弧度/秒）
+  fullSteerSpeed: number; // 达到最大转向角速度所需的速度（低于此速度转向变慢）
+  steerFalloffSpeed: number; // 高速时转向衰减的参考速度（越小高速越难转弯）
+  handbrakeSteerMultiplier: number; // 拉手刹时的转向倍率
+}
+
+/**
+ * 默认的车辆操控参数（原型中未给出的参数使用默认值）
+ */
+export const DEFAULT_VEHICLE_TUNING: VehicleTuning = {
+  mass: 1,
+  engineAcceleration: 450,
+  brakeDeceleration: 600,
+  maxSpeed: 420,
+  reverseAcceleration: 200,
+  maxReverseSpeed: 120,
+  rollingFriction: 0.99,
+  grip: 0.25,
+  handbrakeGrip: 0.06,
+  handbrakeFriction: 0.985,
+  maxSteerRate: 3,
+  fullSteerSpeed: 60,
+  steerFalloffSpeed: 600,
+  handbrakeSteerMultiplier: 1.3
+};
+
+/**
+ * 车辆原型定义（从JSON加载）
+ */
+export interface VehicleArchetypeConfig {
+  id: string;
+  name: string; // 显示名称
+  style: VehicleStyle; // 绘制风格
+  police: boolean; // 是否为警车（带警灯，警察追捕使用）
+  width: number; // 车身长度（沿车头方向）
+  height: number; // 车身宽度
+  colors: string[]; // 可能的车身颜色
+  health: number; // 最大血量
+  seats: number; // 座位数
+  openTop: boolean; // 是否敞篷（乘坐时可以使用所有武器）
+  restitution: number; // 回弹系数（0-1）
+  tuning: VehicleTuning; // 操控参数
+  spawnWeights: Record<District, number>; // 各街区作为交通车辆生成的权重（0表示不生成）
+}
+
+/**
+ * 车辆原型注册表 - 加载并检查车辆原型定义
+ */
+export class VehicleArchetypeRegistry {
+  private configs: Map<string, VehicleArchetypeConfig> = new Map();
+  private policeId: string;
+
+  constructor(definitions: unknown) {
+    if (!Array.isArray(definitions) || definitions.length === 0) {
+      throw new Error('Vehicle archetype definitions must be a non-empty array');
+    }
+
+    for (const definition of definitions) {
+      const config = this.parseDefinition(definition);
+      if (this.configs.has(config.id)) {
+        throw new Error(`Duplicate vehicle archetype id ${config.id}`);
+      }
+      this.configs.set(config.id, config);
+    }
+
+    const police = this.getAll().filter(config => config.police);
+    if (police.length !== 1) {
+      throw new Error(`Exactly one police vehicle archetype is required, found ${police.length}`);
+    }
+    this.policeId = police[0].id;
+    for (const district of Object.values(District)) {
+      if (!this.getAll().some(config => config.spawnWeights[district] > 0)) {
+        throw new Error(`District ${district} needs a vehicle archetype with a positive spawn weight`);
+      }
+    }
+  }
+
+  /**
+   * 检查并补全单个车辆原型定义
+   */
+  private parseDefinition(raw: unknown): VehicleArchetypeConfig {
+    const reader = DataReader.forDefinition(raw, 'Vehicle archetype');
+    const police = reader.boolean('police');
+
+    const tuning: VehicleTuning = { ...DEFAULT_VEHICLE_TUNING };
+    const tuningReader = reader.optionalObject('tuning');
+    if (tuningReader) {
+      for (const key of tuningReader.keys()) {
+        if (!(key in DEFAULT_VEHICLE_TUNING)) {
+          reader.fail(`has unknown tuning parameter ${key}`);
+        }
+        // 摩擦和抓地力是比例，不能超过1
+        const ratio = ['rollingFriction', 'grip', 'handbrakeGrip', 'handbrakeFriction'].includes(key);
+        tuning[key as keyof VehicleTuning] = tuningReader.number(key, { positive: true, max: ratio ? 1 : undefined });
+      }
+    }
+
+    const spawnWeights = {} as Record<District, number>;
+    const weightsReader = reader.optionalObject('spawnWeights');
+    for (const key of weightsReader?.keys() ?? []) {
+      if (!Object.values(District).includes(key as District)) {
+        reader.fail(`has spawn weight for unknown district ${key}`);
+      }
+    }
+    for (const district of Object.values(District)) {
+      spawnWeights[district] = weightsReader?.optionalNumber(district, { min: 0 }) ?? 0;
+    }
+    // 警车只由警察追捕生成
+    if (police && Object.values(spawnWeights).some(weight => weight > 0)) {
+      reader.fail('is a police vehicle and cannot spawn as traffic');
+    }
+
+    return {
+      id: reader.string('id'),
+      name: reader.string('name'),
+      style: reader.enumValue('style', VehicleStyle),
+      police,
+      width: reader.number('width', { positive: true }),
+      height: reader.number('height', { positive: true }),
+      colors: [...reader.strings('colors')],
+      health: reader.number('health', { positive: true }),
+      seats: reader.number('seats', { min: 1, integer: true }),
+      openTop: reader.boolean('openTop'),
+      restitution: reader.number('restitution', { min: 0, max: 1 }),
+      tuning,
+      spawnWeights
+    };
+  }
+
+  /**
+   * 是否存在该原型
+   */
+  has(id: string): boolean {
+    return this.configs.has(id);
+  }
+
+  /**
+   * 获取原型定义
+   */
+  get(id: string): VehicleArchetypeConfig {
+    const config = this.configs.get(id);
+    if (!config) {
+      throw new Error(`Unknown vehicle archetype ${id}`);
+    }
+    return config;
+  }
+
+  /**
+   * 获取所有原型定义（按JSON中的顺序）
+   */
+  getAll(): VehicleArchetypeConfig[] {
+    return Array.from(this.configs.values());
+  }
+
+  /**
+   * 获取默认原型ID（JSON中的第一个原型）
+   */
+  getDefaultId(): string {
+    return this.getAll()[0].id;
+  }
+
+  /**
+   * 获取警车原型ID
+   */
+  getPoliceId(): string {
+    return this.policeId;
+  }
+
+  /**
+   * 按街区的生成权重随机选择一种交通车辆原型（roll为[0, 1)的随机数）
+   */
+  pickSpawnArchetype(district: District, roll: number): string {
+    const spawnable = this.getAll().filter(config => config.spawnWeights[district] > 0);
+    const totalWeight = spawnable.reduce((sum, config) => sum + config.spawnWeights[district], 0);
+    let remaining = roll * totalWeight;
+    for (const config of spawnable) {
+      remaining -= config.spawnWeights[district];
+      if (remaining < 0) {
+        return config.id;
+      }
+    }
+    return spawnable[spawnable.length - 1].id;
+  }
+}
+
+/**
+ * 全局车辆原型注册表
+ */
+export const vehicleArchetypeRegistry = new VehicleArchetypeRegistry(vehicleDefinitions);
@@ -1,15 +1,14 @@
 import { Vector2 } from '../utils/Vector2';
 import { Renderer } from '../graphics/Renderer';
 import { Camera } from '../graphics/Camera';
+import { Random } from '../utils/Random';
+import { DataReader } from '../utils/DataReader';
+import weaponDefinitions from '../data/weapons.json';
 
 /**
- * 武器类型
+ * 武器类型（对应武器定义中的id）
  */
-export enum WeaponType {
-  PISTOL = 'pistol',
-  RIFLE = 'rifle',
-  SHOTGUN = 'shotgun'
-}
+export type WeaponType = string;
 
 /**
  * 射击模式
@@ -20,10 +19,42 @@ export enum FireMode {
 }
 
 /**
- * 武器配置接口
+ * 发射物类型
+ */
+export enum ProjectileType {
+  BULLET = 'bullet', // 直线飞行的子弹
+  GRENADE = 'grenade', // 投向瞄准点、会反弹的手雷
+  ROCKET = 'rocket' // 命中即爆炸的火箭弹
+}
+
+/**
+ * 拾取物图标形状
+ */
+export enum PickupIcon {
+  STAR = 'star', // 五角星
+  BOX = 'box', // 矩形
+  PELLETS = 'pellets' // 带分割线的圆形
+}
+
+/**
+ * 手持武器图标形状
+ */
+export enum HeldIcon {
+  DOT = 'dot', // 小圆点
+  BARREL = 'barrel', // 沿枪线的矩形
+  HEXAGON = 'hexagon' // 六边形
+}
+
+/**
+ * 武器定义（从JSON加载）
  */
-interface WeaponConfig {
+export interface WeaponConfig {
   type: WeaponType;
+  name: string; // 显示名称
+  hotkey: string | null; // 切换到该武器的按键
+  starter: boolean; // 是否为初始武器（备弹无限，不会丢失）
+  usableInVehicle: boolean; // 是否可以在车内使用
+  spawnWeight: number; // 作为随机物品生成的权重（0表示不生成）
   damage: number; // 伤害值
   fireRate: number; // 射速（子弹/秒）
   range: number; // 射程
@@ -34,9 +65,152 @@ interface WeaponConfig {
   reloadTime: number; // 装弹时间（秒）
   fireMode: FireMode; // 射击模式
   spread: number; // 散射角度（度数）
-  pelletsPerShot?: number; // 每次射击的子弹数（散弹枪用）
+  pelletsPerShot: number; // 每次射击的子弹数（散弹枪大于1）
+  projectile: ProjectileType; // 发射物类型
+  explosionRadius: number; // 爆炸半径（仅爆炸物）
+  explosionForce: number; // 爆炸中心对车辆的冲量（仅爆炸物）
+  fuseTime: number; // 引信时间（秒，仅手雷）
+  color: string; // 拾取物和手持图标的颜色
+  pickupIcon: PickupIcon; // 拾取物图标
+  heldIcon: HeldIcon; // 手持图标
+  showPickupLabel: boolean; // 拾取物下方是否显示名称
+}
+
+/**
+ * 武器注册表 - 加载并检查武器定义，新增武器只需修改weapons.json
+ */
+export class WeaponRegistry {
+  private configs: Map<WeaponType, WeaponConfig> = new Map();
+  private starterType: WeaponType;
+
+  constructor(definitions: unknown) {
+    if (!Array.isArray(definitions) || definitions.length === 0) {
+      throw new Error('Weapon definitions must be a non-empty array');
+    }
+
+    const hotkeys = new Set<string>();
+    for (const definition of definitions) {
+      const config = this.parseDefinition(definition);
+      if (this.configs.has(config.type)) {
+        throw new Error(`Duplicate weapon id ${config.type}`);
+      }
+      if (config.hotkey !== null) {
+        if (hotkeys.has(config.hotkey)) {
+          throw new Error(`Weapon ${config.type} reuses hotkey ${config.hotkey}`);
+        }
+        hotkeys.add(config.hotkey);
+      }
+      this.configs.set(config.type, config);
+    }
+
+    const starters = this.getAll().filter(config => config.starter);
+    if (starters.length !== 1) {
+      throw new Error(`Exactly one starter weapon is required, found ${starters.length}`);
+    }
+    if (!starters[0].usableInVehicle) {
+      throw new Error(`Starter weapon ${starters[0].type} must be usable in vehicles`);
+    }
+    this.starterType = starters[0].type;
+  }
+
+  /**
+   * 检查并补全单个武器定义
+   */
+  private parseDefinition(raw: unknown): WeaponConfig {
+    const reader = DataReader.forDefinition(raw, 'Weapon');
+    const projectile = reader.enumValue('projectile', ProjectileType);
+    const explosive = projectile !== ProjectileType.BULLET;
+
+    return {
+      type: reader.string('id'),
+      name: reader.string('name'),
+      hotkey: reader.optionalString('hotkey')?.toLowerCase() ?? null,
+      starter: reader.boolean('starter'),
+      usableInVehicle: reader.boolean('usableInVehicle'),
+      spawnWeight: reader.optionalNumber('spawnWeight', { min: 0 }) ?? 0,
+      damage: reader.number('damage', { min: 0 }),
+      fireRate: reader.number('fireRate', { positive: true }),
+      range: reader.number('range', { positive: true }),
+      bulletSpeed: reader.number('bulletSpeed', { positive: true }),
+      bulletSize: reader.number('bulletSize', { positive: true }),
+      accuracy: reader.number('accuracy', { min: 0, max: 1 }),
+      magazineCapacity: reader.number('magazineCapacity', { positive: true, integer: true }),
+      reloadTime: reader.number('reloadTime', { positive: true }),
+      fireMode: reader.enumValue('fireMode', FireMode),
+      spread: reader.number('spread', { min: 0 }),
+      pelletsPerShot: reader.optionalNumber('pelletsPerShot', { min: 1, integer: true }) ?? 1,
+      projectile,
+      explosionRadius: explosive ? reader.number('explosionRadius', { positive: true }) : 0,
+      explosionForce: explosive ? reader.number('explosionForce', { min: 0 }) : 0,
+      fuseTime: projectile === ProjectileType.GRENADE ? reader.number('fuseTime', { positive: true }) : 0,
+      color: reader.string('color'),
+      pickupIcon: reader.enumValue('pickupIcon', PickupIcon),
+      heldIcon: reader.enumValue('heldIcon', HeldIcon),
+      showPickupLabel: reader.boolean('showPickupLabel', true)
+    };
+  }
+
+  /**
+   * 是否存在该武器
+   */
+  has(type: WeaponType): boolean {
+    return this.configs.has(type);
+  }
+
+  /**
+   * 获取武器定义
+   */
+  get(type: WeaponType): WeaponConfig {
+    const config = this.configs.get(type);
+    if (!config) {
+      throw new Error(`Unknown weapon type ${type}`);
+    }
+    return config;
+  }
+
+  /**
+   * 获取所有武器定义（按JSON中的顺序）
+   */
+  getAll(): WeaponConfig[] {
+    return Array.from(this.configs.values());
+  }
+
+  /**
+   * 获取初始武器类型
+   */
+  getStarterType(): WeaponType {
+    return this.starterType;
+  }
+
+  /**
+   * 获取可以作为随机物品生成的武器
+   */
+  getSpawnableTypes(): WeaponConfig[] {
+    return this.getAll().filter(config => config.spawnWeight > 0);
+  }
+
+  /**
+   * 按生成权重随机选择一种武器（roll为[0, 1)的随机数）
+   */
+  pickSpawnType(roll: number): WeaponType | null {
+    const spawnable = this.getSpawnableTypes();
+    const totalWeight = spawnable.reduce((sum, config) => sum + config.spawnWeight, 0);
+    let remaining = roll * totalWeight;
+    for (const config of spawnable) {
+      remaining -= config.spawnWeight;
+      if (remaining < 0) {
+        return config.type;
+      }
+    }
+    return spawnable.length > 0 ? spawnable[spawnable.length - 1].type : null;
+  }
 }
 
+/**
+ * 全局武器注册表
+ */
+export const weaponRegistry = new WeaponRegistry(weaponDefinitions);
+
 /**
  * 武器类
  */
@@ -53,63 +227,12 @@ export class Weapon {
 
   constructor(type: WeaponType, reserveAmmo: number = 0) {
     this.type = type;
-    this.config = this.getWeaponConfig(type);
+    this.config = weaponRegistry.get(type);
     this.currentAmmo = this.config.magazineCapacity;
     this.reserveAmmo = reserveAmmo;
     this.fireInterval = 1 / this.config.fireRate;
   }
 
-  /**
-   * 获取武器配置
-   */
-  private getWeaponConfig(type: WeaponType): WeaponConfig {
-    switch (type) {
-      case WeaponType.PISTOL:
-        return {
-          type: WeaponType.PISTOL,
-          damage: 10,
-          fireRate: 5, // 每秒5发
-          range: 300,
-          bulletSpeed: 500,
-          bulletSize: 3,
-          accuracy: 0.9,
-          magazineCapacity: 10,
-          reloadTime: 0.8, // 最快
-          fireMode: FireMode.SEMI_AUTO, // 半自动
-          spread: 0 // 无散射
-        };
-      case WeaponType.RIFLE:
-        return {
-          type: WeaponType.RIFLE,
-          damage: 20,
-          fireRate: 8,
-          range: 500,
-          bulletSpeed: 700,
-          bulletSize: 4,
-          accuracy: 0.95,
-          magazineCapacity: 30,
-          reloadTime: 2.0, // 最慢
-          fireMode: FireMode.FULL_AUTO, // 全自动
-          spread: 15 // 有散射
-        };
-      case WeaponType.SHOTGUN:
-        return {
-          type: WeaponType.SHOTGUN,
-          damage: 15, // 单发伤害较低，但多发
-          fireRate: 1,
-          range: 150,
-          bulletSpeed: 400,
-          bulletSize: 2, // 小子弹
-          accuracy: 0.95, // 高精准度，散射由spread控制
-          magazineCapacity: 6,
-          reloadTime: 1.2, // 中等
-          fireMode: FireMode.SEMI_AUTO, // 半自动
-          spread: 15, // 散射角度15度（±7.5度）
-          pelletsPerShot: 8 // 每次射击8发子弹
-        };
-    }
-  }
-
   /**
    * 检查是否可以射击
    */
@@ -229,6 +352,15 @@ export class Weapon {
     this.reserveAmmo += amount;
   }
 
+  /**
+   * 设置弹药数（读档用）
+   */
+  setAmmo(currentAmmo: number, reserveAmmo: number): void {
+    this.currentAmmo = Math.max(0, Math.min(currentAmmo, this.config.magazineCapacity));
+    this.reserveAmmo = Math.max(0, reserveAmmo);
+    this.isReloading = false;
+  }
+
   /**
    * 获取总弹药数（当前+备弹）
    */
@@ -254,22 +386,56 @@ export class Weapon {
    * 获取武器名称
    */
   getName(): string {
-    switch (this.type) {
-      case WeaponType.PISTOL:
-        return '手枪';
-      case WeaponType.RIFLE:
-        return '步枪';
-      case WeaponType.SHOTGUN:
-        return '霰弹枪';
-    }
+    return this.config.name;
   }
 }
 
+/**
+ * 按武器的弹丸数、散射和精准度生成一次射击的所有子弹
+ */
+export function createShotBullets(
+  config: WeaponConfig,
+  position: Vector2,
+  direction: Vector2,
+  random: Random,
+  ownerId: string
+): Bullet[] {
+  const bullets: Bullet[] = [];
+  for (let i = 0; i < config.pelletsPerShot; i++) {
+    // 计算散射角度（每发子弹都有随机散射）
+    // 散射范围：-spread/2 到 +spread/2
+    const spreadAngle = (random.next() - 0.5) * config.spread * (Math.PI / 180);
+
+    // 对于有散射的武器（步枪、散弹枪），添加精准度偏差
+    let totalAngle = spreadAngle;
+    if (config.spread > 0 && config.accuracy < 1) {
+      const accuracyAngle = random.next() * (1 - config.accuracy) * Math.PI * 2;
+      totalAngle += accuracyAngle;
+    }
+
+    // 应用散射和精准度偏差
+    const rotatedX = direction.x * Math.cos(totalAngle) - direction.y * Math.sin(totalAngle);
+    const rotatedY = direction.x * Math.sin(totalAngle) + direction.y * Math.cos(totalAngle);
+
+    bullets.push(new Bullet(
+      position,
+      new Vector2(rotatedX, rotatedY),
+      config.damage,
+      config.bulletSpeed,
+      config.range,
+      config.bulletSize,
+      ownerId
+    ));
+  }
+  return bullets;
+}
+
 /**
  * 子弹类
  */
 export class Bullet {
   private position: Vector2;
+  private previousPosition: Vector2; // 上一个模拟步的位置（用于渲染插值）
   private velocity: Vector2;
   private damage: number;
   private range: number;
@@ -288,6 +454,7 @@ export class Bullet {
     ownerId: string
   ) {
     this.position = position.clone();
+    this.previousPosition = position.clone();
     this.velocity = direction.normalize().multiply(bulletSpeed);
     this.damage = damage;
     this.range = range;
@@ -295,6 +462,13 @@ export class Bullet {
     this.ownerId = ownerId;
   }
 
+  /**
+   * 记录当前位置，作为下一个模拟步的插值起点
+   */
+  savePreviousState(): void {
+    this.previousPosition = this.position.clone();
+  }
+
   /**
    * 更新子弹
    */
@@ -314,8 +488,8 @@ export class Bullet {
   /**
    * 渲染子弹
    */
-  render(renderer: Renderer, camera: Camera): void {
-    const screenPos = camera.worldToScreen(this.position);
+  render(renderer: Renderer, camera: Camera, alpha: number = 1): void {
+    const screenPos = camera.worldToScreen(this.previousPosition.lerp(this.position, alpha));
     renderer.drawCircle(screenPos, this.size * camera.getZoom(), this.color, true);
   }
 
@@ -383,12 +557,21 @@ export class BulletManager {
     }
   }
 
+  /**
+   * 记录所有子弹的位置（用于渲染插值）
+   */
+  savePreviousStates(): void {
+    for (const bullet of this.bullets) {
+      bullet.savePreviousState();
+    }
+  }
+
   /**
    * 渲染所有子弹
    */
-  render(renderer: Renderer, camera: Camera): void {
+  render(renderer: Renderer, camera: Camera, alpha: number = 1): void {
     for (const bullet of this.bullets) {
-      bullet.render(renderer, camera);
+      bullet.render(renderer, camera, alpha);
     }
   }
 
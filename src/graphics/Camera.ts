@@ -5,6 +5,8 @@ import { Vector2 } from '../utils/Vector2';
  */
 export class Camera {
   private position: Vector2;
+  private previousPosition: Vector2; // 上一个模拟步的位置
+  private renderPosition: Vector2; // 渲染用的插值位置
   private zoom: number;
   private width: number;
   private height: number;
@@ -13,6 +15,8 @@ export class Camera {
 
   constructor(width: number, height: number) {
     this.position = new Vector2(0, 0);
+    this.previousPosition = new Vector2(0, 0);
+    this.renderPosition = new Vector2(0, 0);
     this.zoom = 1;
     this.width = width;
     this.height = height;
@@ -23,6 +27,8 @@ export class Camera {
    */
   setPosition(position: Vector2): void {
     this.position = position.clone();
+    this.previousPosition = position.clone();
+    this.renderPosition = position.clone();
   }
 
   /**
@@ -40,6 +46,20 @@ export class Camera {
     this.position = this.position.add(diff.multiply(smoothness));
   }
 
+  /**
+   * 记录当前位置，作为下一个模拟步的插值起点
+   */
+  savePreviousState(): void {
+    this.previousPosition = this.position.clone();
+  }
+
+  /**
+   * 根据插值系数计算渲染位置（alpha为0-1）
+   */
+  interpolate(alpha: number): void {
+    this.renderPosition = this.previousPosition.lerp(this.position, alpha);
+  }
+
   /**
    * 设置缩放级别
    */
@@ -72,8 +92,8 @@ export class Camera {
    * 将世界坐标转换为屏幕坐标
    */
   worldToScreen(worldPos: Vector2): Vector2 {
-    const screenX = (worldPos.x - this.position.x) * this.zoom + this.width / 2;
-    const screenY = (worldPos.y - this.position.y) * this.zoom + this.height / 2;
+    const screenX = (worldPos.x - this.renderPosition.x) * this.zoom + this.width / 2;
+    const screenY = (worldPos.y - this.renderPosition.y) * this.zoom + this.height / 2;
     return new Vector2(screenX, screenY);
   }
 
@@ -81,8 +101,8 @@ export class Camera {
    * 将屏幕坐标转换为世界坐标
    */
   screenToWorld(screenPos: Vector2): Vector2 {
-    const worldX = (screenPos.x - this.width / 2) / this.zoom + this.position.x;
-    const worldY = (screenPos.y - this.height / 2) / this.zoom + this.position.y;
+    const worldX = (screenPos.x - this.width / 2) / this.zoom + this.renderPosition.x;
+    const worldY = (screenPos.y - this.height / 2) / this.zoom + this.renderPosition.y;
     return new Vector2(worldX, worldY);
   }
 
@@ -93,8 +113,8 @@ export class Camera {
     const viewWidth = this.width / this.zoom;
     const viewHeight = this.height / this.zoom;
     return {
-      x: this.position.x - viewWidth / 2,
-      y: this.position.y - viewHeight / 2,
+      x: this.renderPosition.x - viewWidth / 2,
+      y: this.renderPosition.y - viewHeight / 2,
       width: viewWidth,
       height: viewHeight
     };
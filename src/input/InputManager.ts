@@ -6,6 +6,7 @@ export class InputManager {
   private keysJustPressed: Set<string> = new Set();
   private mousePosition: { x: number; y: number } = { x: 0, y: 0 };
   private mouseButtons: Map<number, boolean> = new Map();
+  private mouseButtonsJustPressed: Set<number> = new Set();
 
   constructor() {
     this.setupKeyboardListeners();
@@ -18,6 +19,10 @@ export class InputManager {
   private setupKeyboardListeners(): void {
     window.addEventListener('keydown', (e) => {
       const key = e.key.toLowerCase();
+      // 空格是手刹，阻止页面滚动
+      if (key === ' ') {
+        e.preventDefault();
+      }
       // 只在按键从未按下变为按下时，标记为刚按下
       if (!this.keys.get(key)) {
         this.keysJustPressed.add(key);
@@ -39,12 +44,18 @@ export class InputManager {
     });
 
     window.addEventListener('mousedown', (e) => {
+      this.mouseButtonsJustPressed.add(e.button);
       this.mouseButtons.set(e.button, true);
     });
 
     window.addEventListener('mouseup', (e) => {
       this.mouseButtons.set(e.button, false);
     });
+
+    // 右键用于近战，屏蔽浏览器右键菜单
+    window.addEventListener('contextmenu', (e) => {
+      e.preventDefault();
+    });
   }
 
   /**
@@ -66,6 +77,7 @@ export class InputManager {
    */
   clearJustPressedKeys(): void {
     this.keysJustPressed.clear();
+    this.mouseButtonsJustPressed.clear();
   }
 
   /**
@@ -75,6 +87,13 @@ export class InputManager {
     return this.mouseButtons.get(button) ?? false;
   }
 
+  /**
+   * 检查鼠标按钮是否刚被按下（快速点击时也能捕获到）
+   */
+  isMouseButtonJustPressed(button: number = 0): boolean {
+    return this.mouseButtonsJustPressed.has(button);
+  }
+
   /**
    * 获取鼠标位置
    */
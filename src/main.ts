@@ -1,7 +1,14 @@
 import { Game } from './core/Game';
 
+// 读取URL中的世界种子（例如 ?seed=12345），便于复现问题
+const seedParam = new URLSearchParams(window.location.search).get('seed');
+const seed = seedParam !== null && !isNaN(Number(seedParam)) ? Number(seedParam) : undefined;
+
+// ?hardcore=1 开启硬核模式：死亡后游戏结束，而不是在医院复活
+const hardcore = new URLSearchParams(window.location.search).get('hardcore') === '1';
+
 // 创建游戏实例
-const game = new Game();
+const game = new Game(seed, hardcore);
 
 // 启动游戏
 game.start();
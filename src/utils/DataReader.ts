@@ -0,0 +1,211 @@
+import { isFiniteNumber, isRecord } from './TypeGuards';
+
+/**
+ * 数值字段的取值要求
+ */
+export interface NumberRule {
+  min?: number; // 最小值（含）
+  max?: number; // 最大值（含）
+  positive?: boolean; // 是否必须大于0
+  integer?: boolean; // 是否必须为整数
+}
+
+/**
+ * 数值是否满足取值要求
+ */
+export function isValidNumber(value: unknown, rule: NumberRule = {}): value is number {
+  return (
+    isFiniteNumber(value) &&
+    (!rule.integer || Number.isInteger(value)) &&
+    (!rule.positive || value > 0) &&
+    (rule.min === undefined || value >= rule.min) &&
+    (rule.max === undefined || value <= rule.max)
+  );
+}
+
+/**
+ * 数据读取器 - 从JSON等未知来源的对象中按类型读取字段，不符合要求时抛出带上下文的错误
+ */
+export class DataReader {
+  private data: Record<string, unknown>;
+  private context: string; // 错误信息的前缀（如 "Weapon pistol"）
+
+  constructor(raw: unknown, context: string) {
+    if (!isRecord(raw)) {
+      throw new Error(`${context} is not an object`);
+    }
+    this.data = raw;
+    this.context = context;
+  }
+
+  /**
+   * 读取带非空字符串id的定义，之后的错误信息以"类别 id"开头
+   */
+  static forDefinition(raw: unknown, label: string): DataReader {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || raw.id === '') {
+      throw new Error(`${label} definition is missing an id`);
+    }
+    return new DataReader(raw, `${label} ${raw.id}`);
+  }
+
+  /**
+   * 抛出带上下文的错误
+   */
+  fail(message: string): never {
+    throw new Error(`${this.context} ${message}`);
+  }
+
+  /**
+   * 字段是否存在（不为undefined）
+   */
+  has(field: string): boolean {
+    return this.data[field] !== undefined;
+  }
+
+  /**
+   * 获取对象中的所有字段名
+   */
+  keys(): string[] {
+    return Object.keys(this.data);
+  }
+
+  /**
+   * 读取原始字段值（由调用方自行检查）
+   */
+  raw(field: string): unknown {
+    return this.data[field];
+  }
+
+  /**
+   * 读取字符串字段
+   */
+  string(field: string): string {
+    const value = this.data[field];
+    if (typeof value !== 'string') {
+      this.fail(`has invalid ${field}`);
+    }
+    return value;
+  }
+
+  /**
+   * 读取可省略的字符串字段
+   */
+  optionalString(field: string): string | undefined {
+    return this.has(field) ? this.string(field) : undefined;
+  }
+
+  /**
+   * 读取数值字段
+   */
+  number(field: string, rule: NumberRule = {}): number {
+    const value = this.data[field];
+    if (!isValidNumber(value, rule)) {
+      this.fail(`has invalid ${field}`);
+    }
+    return value;
+  }
+
+  /**
+   * 读取可省略的数值字段
+   */
+  optionalNumber(field: string, rule: NumberRule = {}): number | undefined {
+    return this.has(field) ? this.number(field, rule) : undefined;
+  }
+
+  /**
+   * 读取可省略的布尔字段
+   */
+  boolean(field: string, defaultValue: boolean = false): boolean {
+    const value = this.data[field];
+    if (value === undefined) {
+      return defaultValue;
+    }
+    if (typeof value !== 'boolean') {
+      this.fail(`has invalid ${field}`);
+    }
+    return value;
+  }
+
+  /**
+   * 读取取值为枚举成员的字段
+   */
+  enumValue<T extends string>(field: string, values: Record<string, T>): T {
+    const value = this.data[field];
+    const match = Object.values(values).find(member => member === value);
+    if (match === undefined) {
+      this.fail(`has unknown ${field} ${String(value)}`);
+    }
+    return match;
+  }
+
+  /**
+   * 读取{x, y}坐标字段
+   */
+  point(field: string): { x: number; y: number } {
+    const value = this.data[field];
+    if (!isRecord(value) || !isValidNumber(value.x) || !isValidNumber(value.y)) {
+      this.fail(`has invalid ${field}`);
+    }
+    return { x: value.x, y: value.y };
+  }
+
+  /**
+   * 读取可省略的{x, y}坐标字段
+   */
+  optionalPoint(field: string): { x: number; y: number } | undefined {
+    return this.has(field) ? this.point(field) : undefined;
+  }
+
+  /**
+   * 读取数组字段（元素由调用方检查）
+   */
+  array(field: string, nonEmpty: boolean = false): unknown[] {
+    const value = this.data[field];
+    if (!Array.isArray(value)) {
+      this.fail(`has invalid ${field}`);
+    }
+    if (nonEmpty && value.length === 0) {
+      this.fail(`needs a non-empty ${field}`);
+    }
+    return value;
+  }
+
+  /**
+   * 读取非空的数值数组字段
+   */
+  numbers(field: string, rule: NumberRule = {}): number[] {
+    const values = this.array(field, true);
+    if (!values.every(value => isValidNumber(value, rule))) {
+      this.fail(`has invalid ${field}`);
+    }
+    return values as number[];
+  }
+
+  /**
+   * 读取非空的字符串数组字段
+   */
+  strings(field: string): string[] {
+    const values = this.array(field, true);
+    if (!values.every(value => typeof value === 'string')) {
+      this.fail(`has invalid ${field}`);
+    }
+    return values as string[];
+  }
+
+  /**
+   * 读取对象字段，返回该对象的读取器
+   */
+  object(field: string): DataReader {
+    if (!isRecord(this.data[field])) {
+      this.fail(`has invalid ${field}`);
+    }
+    return new DataReader(this.data[field], `${this.context} ${field}`);
+  }
+
+  /**
+   * 读取可省略的对象字段
+   */
+  optionalObject(field: string): DataReader | undefined {
+    return this.has(field) ? this.object(field) : undefined;
+  }
+}
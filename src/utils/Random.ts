@@ -0,0 +1,83 @@
+/**
+ * 可设置种子的伪随机数生成器（mulberry32）
+ */
+export class Random {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * 生成一个新的随机种子（仅用于未指定种子时）
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  /**
+   * 根据种子和整数坐标生成确定性的随机数 [0, 1)
+   */
+  static hash(seed: number, x: number, y: number, salt: number = 0): number {
+    let h = (seed ^ Math.imul(x | 0, 73856093) ^ Math.imul(y | 0, 19349663) ^ Math.imul(salt | 0, 83492791)) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+    h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+    h ^= h >>> 16;
+    return (h >>> 0) / 4294967296;
+  }
+
+  /**
+   * 获取初始种子
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * 获取当前内部状态（用于存档）
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * 恢复内部状态（用于读档）
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * 生成 [0, 1) 的随机数
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * 生成 [min, max) 的随机浮点数
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * 生成 [min, max] 的随机整数
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * 从数组中随机选择一个元素
+   */
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
@@ -54,6 +54,13 @@ export class Vector2 {
     return this.subtract(other).length();
   }
 
+  /**
+   * 线性插值（t=0返回自身，t=1返回other）
+   */
+  lerp(other: Vector2, t: number): Vector2 {
+    return new Vector2(this.x + (other.x - this.x) * t, this.y + (other.y - this.y) * t);
+  }
+
   /**
    * 克隆向量
    */
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { Vector2 } from '../utils/Vector2';
+import { Collider, CollisionSystem } from './Collision';
+
+/**
+ * 旋转矩形碰撞体（position为中心）
+ */
+function obb(x: number, y: number, width: number, height: number, rotation: number = 0): Collider {
+  return { position: new Vector2(x, y), radius: Math.hypot(width, height) / 2, type: 'obb', width, height, rotation };
+}
+
+/**
+ * 轴对齐矩形碰撞体（position为左上角）
+ */
+function rect(x: number, y: number, width: number, height: number): Collider {
+  return { position: new Vector2(x, y), radius: Math.hypot(width, height) / 2, type: 'rect', width, height };
+}
+
+/**
+ * 圆形碰撞体
+ */
+function circle(x: number, y: number, radius: number): Collider {
+  return { position: new Vector2(x, y), radius, type: 'circle' };
+}
+
+/**
+ * 注册碰撞体a和b
+ */
+function createSystem(a: Collider, b?: Collider): CollisionSystem {
+  const system = new CollisionSystem();
+  system.register('a', a);
+  if (b) {
+    system.register('b', b);
+  }
+  return system;
+}
+
+/**
+ * 接触用例：期望值为[法向量x, 法向量y, 穿透深度]，null表示不相交
+ */
+interface ContactCase {
+  name: string;
+  a: Collider;
+  b: Collider;
+  expected: [number, number, number] | null;
+}
+
+const quarterTurn = Math.PI / 4;
+const diagonal = 5 * Math.SQRT2; // 边长10的正方形旋转45度后中心到顶点的距离
+
+const contactCases: ContactCase[] = [
+  {
+    name: '矩形与矩形沿x轴重叠',
+    a: obb(0, 0, 20, 10),
+    b: obb(15, 0, 20, 10),
+    expected: [-1, 0, 5]
+  },
+  {
+    name: '旋转45度的矩形从左侧插入矩形',
+    a: obb(0, 0, 10, 10, quarterTurn),
+    b: obb(10, 0, 10, 10),
+    expected: [-1, 0, diagonal + 5 - 10]
+  },
+  {
+    name: '两个旋转矩形的外接框重叠但沿对角线分离',
+    a: obb(0, 0, 10, 10, quarterTurn),
+    b: obb(8, 8, 10, 10, quarterTurn),
+    expected: null
+  },
+  {
+    name: '圆形与矩形的边相交',
+    a: circle(12, 0, 5),
+    b: obb(0, 0, 20, 10),
+    expected: [1, 0, 3]
+  },
+  {
+    name: '矩形与圆形相交时法向量反向',
+    a: obb(0, 0, 20, 10),
+    b: circle(12, 0, 5),
+    expected: [-1, 0, 3]
+  },
+  {
+    name: '圆心在旋转矩形内时从最近的边推出',
+    a: circle(0, 8, 2),
+    b: obb(0, 0, 20, 10, Math.PI / 2),
+    expected: [0, 1, 4]
+  },
+  {
+    name: '圆形在旋转矩形的外接框内但不相交',
+    a: circle(6, 6, 1),
+    b: obb(0, 0, 10, 10, quarterTurn),
+    expected: null
+  },
+  {
+    name: '旋转矩形的顶点从下方插入轴对齐矩形',
+    a: rect(0, 0, 10, 10),
+    b: obb(5, 14, 10, 10, quarterTurn),
+    expected: [0, -1, 5 + diagonal - 9]
+  },
+  {
+    name: '轴对齐矩形之间不相交',
+    a: rect(0, 0, 10, 10),
+    b: rect(11, 0, 10, 10),
+    expected: null
+  }
+];
+
+describe('CollisionSystem', () => {
+  it.each(contactCases)('$name', ({ a, b, expected }) => {
+    const contact = createSystem(a, b).getContact('a', 'b');
+    if (expected === null) {
+      expect(contact).toBeNull();
+      return;
+    }
+
+    expect(contact).not.toBeNull();
+    const [normalX, normalY, penetration] = expected;
+    expect(contact!.normal.x).toBeCloseTo(normalX, 6);
+    expect(contact!.normal.y).toBeCloseTo(normalY, 6);
+    expect(contact!.penetration).toBeCloseTo(penetration, 6);
+  });
+
+  it('射线命中旋转矩形的表面并返回世界坐标的法向量', () => {
+    const system = createSystem(obb(50, 0, 20, 10, Math.PI / 2));
+
+    const hit = system.raycast(new Vector2(0, 0), new Vector2(100, 0))!;
+    expect(hit.id).toBe('a');
+    expect(hit.point.x).toBeCloseTo(45, 6);
+    expect(hit.point.y).toBeCloseTo(0, 6);
+    expect(hit.normal.x).toBeCloseTo(-1, 6);
+    expect(hit.normal.y).toBeCloseTo(0, 6);
+    expect(hit.distance).toBeCloseTo(45, 6);
+  });
+
+  it('射线起点在旋转矩形内时在起点命中，忽略该碰撞体后不命中', () => {
+    const system = createSystem(obb(100, 100, 20, 10, Math.PI / 6));
+    const from = new Vector2(100, 100);
+    const to = new Vector2(200, 100);
+
+    const hit = system.raycast(from, to)!;
+    expect(hit.id).toBe('a');
+    expect(hit.distance).toBe(0);
+    expect(hit.point).toEqual(from);
+    expect(hit.normal).toEqual(new Vector2(0, 0));
+
+    expect(system.raycast(from, to, undefined, 'a')).toBeNull();
+  });
+});
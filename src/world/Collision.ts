@@ -1,33 +1,97 @@
 import { Vector2 } from '../utils/Vector2';
 
 /**
- * 碰撞体接口
+ * 碰撞层（位标志，用于射线检测过滤）
+ */
+export enum CollisionLayer {
+  DEFAULT = 1,
+  BUILDING = 2,
+  CHARACTER = 4,
+  VEHICLE = 8,
+  ALL = 0xffff
+}
+
+/**
+ * 碰撞体接口（rect的position为左上角，circle和obb的position为中心）
  */
 export interface Collider {
   position: Vector2;
   radius: number;
-  type: 'circle' | 'rect';
+  type: 'circle' | 'rect' | 'obb';
   width?: number;
   height?: number;
+  rotation?: number; // obb的旋转角度（弧度），width沿旋转后的x轴
+  layer?: CollisionLayer; // 所属碰撞层，未设置时为DEFAULT
+  mass?: number; // 可被推动的碰撞体的质量，未设置时视为不可推动
+}
+
+/**
+ * 碰撞接触信息
+ */
+export interface Contact {
+  id: string; // 接触的另一个碰撞体ID
+  normal: Vector2; // 把本碰撞体推出另一个碰撞体的单位方向
+  penetration: number; // 穿透深度（沿normal移动该距离即可分离）
+}
+
+/**
+ * 矩形的中心、两个局部轴和半边长（AABB和OBB统一用此形式做分离轴检测）
+ */
+interface Box {
+  center: Vector2;
+  axes: [Vector2, Vector2];
+  halfExtents: [number, number];
+}
+
+/**
+ * 射线检测结果
+ */
+export interface RaycastHit {
+  id: string; // 命中的碰撞体ID
+  point: Vector2; // 命中点
+  normal: Vector2; // 命中表面的法向量
+  distance: number; // 起点到命中点的距离
 }
 
 /**
- * 碰撞检测系统
+ * 碰撞体占据的网格范围（包含两端）
+ */
+interface CellRange {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * 碰撞检测系统（使用空间哈希网格做粗检测）
  */
 export class CollisionSystem {
   private colliders: Map<string, Collider> = new Map();
+  private cellSize: number;
+  private cells: Map<string, Set<string>> = new Map(); // 网格key -> 该格内的碰撞体ID
+  private colliderCells: Map<string, CellRange> = new Map(); // 碰撞体ID -> 占据的网格范围
+
+  constructor(cellSize: number = 64) {
+    this.cellSize = cellSize;
+  }
 
   /**
    * 注册碰撞体
    */
   register(id: string, collider: Collider): void {
+    if (this.colliders.has(id)) {
+      this.removeFromCells(id);
+    }
     this.colliders.set(id, collider);
+    this.insertIntoCells(id, this.getCellRange(collider));
   }
 
   /**
    * 注销碰撞体
    */
   unregister(id: string): void {
+    this.removeFromCells(id);
     this.colliders.delete(id);
   }
 
@@ -38,7 +102,136 @@ export class CollisionSystem {
     const collider = this.colliders.get(id);
     if (collider) {
       collider.position = position.clone();
+
+      // 只有跨越网格时才更新网格索引
+      const oldRange = this.colliderCells.get(id);
+      const newRange = this.getCellRange(collider);
+      if (
+        !oldRange ||
+        oldRange.minX !== newRange.minX ||
+        oldRange.minY !== newRange.minY ||
+        oldRange.maxX !== newRange.maxX ||
+        oldRange.maxY !== newRange.maxY
+      ) {
+        this.removeFromCells(id);
+        this.insertIntoCells(id, newRange);
+      }
+    }
+  }
+
+  /**
+   * 更新碰撞体位置和旋转角度（用于obb）
+   */
+  updateTransform(id: string, position: Vector2, rotation: number): void {
+    const collider = this.colliders.get(id);
+    if (collider) {
+      collider.rotation = rotation;
+      this.updatePosition(id, position);
+    }
+  }
+
+  /**
+   * 获取网格key
+   */
+  private getCellKey(cellX: number, cellY: number): string {
+    return `${cellX},${cellY}`;
+  }
+
+  /**
+   * 计算AABB覆盖的网格范围
+   */
+  private getRangeForBounds(x: number, y: number, width: number, height: number): CellRange {
+    return {
+      minX: Math.floor(x / this.cellSize),
+      minY: Math.floor(y / this.cellSize),
+      maxX: Math.floor((x + width) / this.cellSize),
+      maxY: Math.floor((y + height) / this.cellSize)
+    };
+  }
+
+  /**
+   * 计算碰撞体覆盖的网格范围
+   */
+  private getCellRange(collider: Collider): CellRange {
+    if (collider.type === 'circle') {
+      return this.getRangeForBounds(
+        collider.position.x - collider.radius,
+        collider.position.y - collider.radius,
+        collider.radius * 2,
+        collider.radius * 2
+      );
+    }
+    if (collider.type === 'obb') {
+      // 旋转后矩形的外接AABB
+      const box = this.getBox(collider);
+      const extentX = Math.abs(box.axes[0].x) * box.halfExtents[0] + Math.abs(box.axes[1].x) * box.halfExtents[1];
+      const extentY = Math.abs(box.axes[0].y) * box.halfExtents[0] + Math.abs(box.axes[1].y) * box.halfExtents[1];
+      return this.getRangeForBounds(box.center.x - extentX, box.center.y - extentY, extentX * 2, extentY * 2);
+    }
+    return this.getRangeForBounds(
+      collider.position.x,
+      collider.position.y,
+      collider.width || 0,
+      collider.height || 0
+    );
+  }
+
+  /**
+   * 将碰撞体加入网格
+   */
+  private insertIntoCells(id: string, range: CellRange): void {
+    for (let cellY = range.minY; cellY <= range.maxY; cellY++) {
+      for (let cellX = range.minX; cellX <= range.maxX; cellX++) {
+        const key = this.getCellKey(cellX, cellY);
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          this.cells.set(key, cell);
+        }
+        cell.add(id);
+      }
     }
+    this.colliderCells.set(id, range);
+  }
+
+  /**
+   * 将碰撞体从网格中移除
+   */
+  private removeFromCells(id: string): void {
+    const range = this.colliderCells.get(id);
+    if (!range) return;
+
+    for (let cellY = range.minY; cellY <= range.maxY; cellY++) {
+      for (let cellX = range.minX; cellX <= range.maxX; cellX++) {
+        const key = this.getCellKey(cellX, cellY);
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.delete(id);
+          if (cell.size === 0) {
+            this.cells.delete(key);
+          }
+        }
+      }
+    }
+    this.colliderCells.delete(id);
+  }
+
+  /**
+   * 收集网格范围内的候选碰撞体ID（粗检测）
+   */
+  private getCandidates(range: CellRange): Set<string> {
+    const candidates = new Set<string>();
+    for (let cellY = range.minY; cellY <= range.maxY; cellY++) {
+      for (let cellX = range.minX; cellX <= range.maxX; cellX++) {
+        const cell = this.cells.get(this.getCellKey(cellX, cellY));
+        if (cell) {
+          for (const id of cell) {
+            candidates.add(id);
+          }
+        }
+      }
+    }
+    return candidates;
   }
 
   /**
@@ -82,6 +275,144 @@ export class CollisionSystem {
     );
   }
 
+  /**
+   * 把rect或obb碰撞体转换为中心、局部轴和半边长
+   */
+  private getBox(collider: Collider): Box {
+    const halfWidth = (collider.width || 0) / 2;
+    const halfHeight = (collider.height || 0) / 2;
+    if (collider.type === 'obb') {
+      const rotation = collider.rotation || 0;
+      const cos = Math.cos(rotation);
+      const sin = Math.sin(rotation);
+      return {
+        center: collider.position.clone(),
+        axes: [new Vector2(cos, sin), new Vector2(-sin, cos)],
+        halfExtents: [halfWidth, halfHeight]
+      };
+    }
+    return {
+      center: new Vector2(collider.position.x + halfWidth, collider.position.y + halfHeight),
+      axes: [new Vector2(1, 0), new Vector2(0, 1)],
+      halfExtents: [halfWidth, halfHeight]
+    };
+  }
+
+  /**
+   * 矩形在某轴上的投影半径
+   */
+  private projectBox(box: Box, axis: Vector2): number {
+    return (
+      box.halfExtents[0] * Math.abs(box.axes[0].x * axis.x + box.axes[0].y * axis.y) +
+      box.halfExtents[1] * Math.abs(box.axes[1].x * axis.x + box.axes[1].y * axis.y)
+    );
+  }
+
+  /**
+   * 矩形与矩形的分离轴检测，返回把a推出b的法向量和穿透深度（不相交时返回null）
+   */
+  private boxToBoxContact(a: Box, b: Box): { normal: Vector2; penetration: number } | null {
+    const offset = a.center.subtract(b.center);
+    let best: { normal: Vector2; penetration: number } | null = null;
+
+    for (const axis of [...a.axes, ...b.axes]) {
+      const distance = offset.x * axis.x + offset.y * axis.y;
+      const overlap = this.projectBox(a, axis) + this.projectBox(b, axis) - Math.abs(distance);
+      if (overlap <= 0) {
+        return null; // 找到分离轴
+      }
+      if (!best || overlap < best.penetration) {
+        best = { normal: distance < 0 ? axis.multiply(-1) : axis.clone(), penetration: overlap };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 圆形与矩形的接触检测（在矩形局部坐标系中找最近点），返回把圆推出矩形的法向量和穿透深度
+   */
+  private circleToBoxContact(center: Vector2, radius: number, box: Box): { normal: Vector2; penetration: number } | null {
+    const offset = center.subtract(box.center);
+    const local = [
+      offset.x * box.axes[0].x + offset.y * box.axes[0].y,
+      offset.x * box.axes[1].x + offset.y * box.axes[1].y
+    ];
+    const clamped = [
+      Math.max(-box.halfExtents[0], Math.min(box.halfExtents[0], local[0])),
+      Math.max(-box.halfExtents[1], Math.min(box.halfExtents[1], local[1]))
+    ];
+    const diff = box.axes[0].multiply(local[0] - clamped[0]).add(box.axes[1].multiply(local[1] - clamped[1]));
+    const distance = diff.length();
+
+    if (distance > 0) {
+      if (distance >= radius) return null;
+      return { normal: diff.multiply(1 / distance), penetration: radius - distance };
+    }
+
+    // 圆心在矩形内：从最近的边推出
+    const depthX = box.halfExtents[0] - Math.abs(local[0]);
+    const depthY = box.halfExtents[1] - Math.abs(local[1]);
+    const axisIndex = depthX < depthY ? 0 : 1;
+    const sign = local[axisIndex] < 0 ? -1 : 1;
+    return {
+      normal: box.axes[axisIndex].multiply(sign),
+      penetration: radius + Math.min(depthX, depthY)
+    };
+  }
+
+  /**
+   * 计算两个碰撞体的接触，返回把a推出b的法向量和穿透深度（不相交时返回null）
+   */
+  private computeContact(a: Collider, b: Collider): { normal: Vector2; penetration: number } | null {
+    if (a.type === 'circle' && b.type === 'circle') {
+      const diff = a.position.subtract(b.position);
+      const distance = diff.length();
+      if (distance >= a.radius + b.radius) return null;
+      return {
+        normal: distance === 0 ? new Vector2(1, 0) : diff.multiply(1 / distance),
+        penetration: a.radius + b.radius - distance
+      };
+    }
+    if (a.type === 'circle') {
+      return this.circleToBoxContact(a.position, a.radius, this.getBox(b));
+    }
+    if (b.type === 'circle') {
+      const contact = this.circleToBoxContact(b.position, b.radius, this.getBox(a));
+      return contact ? { normal: contact.normal.multiply(-1), penetration: contact.penetration } : null;
+    }
+    return this.boxToBoxContact(this.getBox(a), this.getBox(b));
+  }
+
+  /**
+   * 获取两个碰撞体的接触信息（法向量把id1推出id2，不相交时返回null）
+   */
+  getContact(id1: string, id2: string): Contact | null {
+    const collider1 = this.colliders.get(id1);
+    const collider2 = this.colliders.get(id2);
+    if (!collider1 || !collider2) return null;
+
+    const contact = this.computeContact(collider1, collider2);
+    return contact ? { id: id2, ...contact } : null;
+  }
+
+  /**
+   * 获取一个碰撞体与所有其他碰撞体的接触信息
+   */
+  getContacts(id: string): Contact[] {
+    const collider = this.colliders.get(id);
+    if (!collider) return [];
+
+    const contacts: Contact[] = [];
+    for (const otherId of this.getCandidates(this.getCellRange(collider))) {
+      if (otherId === id) continue;
+      const contact = this.getContact(id, otherId);
+      if (contact) {
+        contacts.push(contact);
+      }
+    }
+    return contacts;
+  }
+
   /**
    * 检测两个碰撞体是否碰撞
    */
@@ -91,7 +422,9 @@ export class CollisionSystem {
 
     if (!collider1 || !collider2) return false;
 
-    if (collider1.type === 'circle' && collider2.type === 'circle') {
+    if (collider1.type === 'obb' || collider2.type === 'obb') {
+      return this.computeContact(collider1, collider2) !== null;
+    } else if (collider1.type === 'circle' && collider2.type === 'circle') {
       return this.circleToCircle(collider1, collider2);
     } else if (collider1.type === 'circle' && collider2.type === 'rect') {
       return this.circleToRect(collider1, collider2);
@@ -106,8 +439,11 @@ export class CollisionSystem {
    * 检测一个碰撞体与所有其他碰撞体的碰撞
    */
   getCollisions(id: string): string[] {
+    const collider = this.colliders.get(id);
+    if (!collider) return [];
+
     const collisions: string[] = [];
-    for (const [otherId] of this.colliders) {
+    for (const otherId of this.getCandidates(this.getCellRange(collider))) {
       if (otherId !== id && this.isColliding(id, otherId)) {
         collisions.push(otherId);
       }
@@ -116,76 +452,252 @@ export class CollisionSystem {
   }
 
   /**
-   * 检测点是否在碰撞体内
+   * 查询与矩形区域重叠的碰撞体
    */
-  pointInCollider(point: Vector2, id: string): boolean {
-    const collider = this.colliders.get(id);
-    if (!collider) return false;
+  queryAABB(x: number, y: number, width: number, height: number): string[] {
+    const area: Collider = {
+      position: new Vector2(x, y),
+      radius: 0,
+      type: 'rect',
+      width,
+      height
+    };
 
-    if (collider.type === 'circle') {
-      return point.distance(collider.position) < collider.radius;
-    } else {
-      return (
-        point.x >= collider.position.x &&
-        point.x <= collider.position.x + (collider.width || 0) &&
-        point.y >= collider.position.y &&
-        point.y <= collider.position.y + (collider.height || 0)
-      );
+    const results: string[] = [];
+    for (const id of this.getCandidates(this.getRangeForBounds(x, y, width, height))) {
+      const collider = this.colliders.get(id)!;
+      let overlaps: boolean;
+      if (collider.type === 'circle') {
+        overlaps = this.circleToRect(collider, area);
+      } else if (collider.type === 'obb') {
+        overlaps = this.boxToBoxInclusive(this.getBox(collider), this.getBox(area));
+      } else {
+        overlaps = this.rectToRectInclusive(collider, area);
+      }
+      if (overlaps) {
+        results.push(id);
+      }
     }
+    return results;
   }
 
   /**
-   * 获取碰撞体
+   * 查询与圆形区域重叠的碰撞体
    */
-  getCollider(id: string): Collider | undefined {
-    return this.colliders.get(id);
+  queryRadius(center: Vector2, radius: number): string[] {
+    const area: Collider = {
+      position: center.clone(),
+      radius,
+      type: 'circle'
+    };
+
+    const results: string[] = [];
+    const range = this.getRangeForBounds(center.x - radius, center.y - radius, radius * 2, radius * 2);
+    for (const id of this.getCandidates(range)) {
+      const collider = this.colliders.get(id)!;
+      let overlaps: boolean;
+      if (collider.type === 'circle') {
+        overlaps = this.circleToCircle(area, collider);
+      } else if (collider.type === 'obb') {
+        overlaps = this.circleToBoxContact(center, radius, this.getBox(collider)) !== null;
+      } else {
+        overlaps = this.circleToRect(area, collider);
+      }
+      if (overlaps) {
+        results.push(id);
+      }
+    }
+    return results;
   }
 
   /**
-   * 计算两个圆形碰撞的法向量
+   * 射线检测：返回线段from->to上第一个命中的、属于mask中碰撞层的碰撞体
    */
-  getCollisionNormal(id1: string, id2: string): Vector2 | null {
-    const collider1 = this.colliders.get(id1);
-    const collider2 = this.colliders.get(id2);
+  raycast(from: Vector2, to: Vector2, mask: number = CollisionLayer.ALL, ignoreId?: string): RaycastHit | null {
+    const minX = Math.min(from.x, to.x);
+    const minY = Math.min(from.y, to.y);
+    const range = this.getRangeForBounds(minX, minY, Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+    const segment = to.subtract(from);
 
-    if (!collider1 || !collider2) return null;
+    let nearest: { id: string; t: number; normal: Vector2 } | null = null;
+    for (const id of this.getCandidates(range)) {
+      if (id === ignoreId) continue;
+      const collider = this.colliders.get(id)!;
+      if (((collider.layer ?? CollisionLayer.DEFAULT) & mask) === 0) continue;
 
-    // 从碰撞体1指向碰撞体2的向量
-    const diff = collider2.position.subtract(collider1.position);
-    const distance = diff.length();
+      let hit: { t: number; normal: Vector2 } | null;
+      if (collider.type === 'circle') {
+        hit = this.segmentToCircle(from, segment, collider);
+      } else if (collider.type === 'obb') {
+        hit = this.segmentToOBB(from, segment, collider);
+      } else {
+        hit = this.segmentToRect(from, segment, collider);
+      }
+      if (hit && (!nearest || hit.t < nearest.t)) {
+        nearest = { id, t: hit.t, normal: hit.normal };
+      }
+    }
 
-    if (distance === 0) return new Vector2(1, 0); // 默认法向量
+    if (!nearest) return null;
+    return {
+      id: nearest.id,
+      point: from.add(segment.multiply(nearest.t)),
+      normal: nearest.normal,
+      distance: segment.length() * nearest.t
+    };
+  }
 
-    // 返回单位法向量
-    return diff.normalize();
+  /**
+   * 线段与矩形相交检测（slab法），返回线段参数t∈[0,1]和法向量
+   */
+  private segmentToRect(from: Vector2, segment: Vector2, rect: Collider): { t: number; normal: Vector2 } | null {
+    const min = [rect.position.x, rect.position.y];
+    const max = [rect.position.x + (rect.width || 0), rect.position.y + (rect.height || 0)];
+    return this.segmentToBounds(from, segment, min, max);
   }
 
   /**
-   * 计算圆形与矩形碰撞的法向量
+   * 线段与旋转矩形相交检测：转换到矩形局部坐标系后用slab法，再把法向量转回世界坐标
    */
-  getCollisionNormalCircleRect(circleId: string, rectId: string): Vector2 | null {
-    const circle = this.colliders.get(circleId);
-    const rect = this.colliders.get(rectId);
+  private segmentToOBB(from: Vector2, segment: Vector2, obb: Collider): { t: number; normal: Vector2 } | null {
+    const box = this.getBox(obb);
+    const [axisX, axisY] = box.axes;
+    const offset = from.subtract(box.center);
+    const localFrom = new Vector2(offset.x * axisX.x + offset.y * axisX.y, offset.x * axisY.x + offset.y * axisY.y);
+    const localSegment = new Vector2(
+      segment.x * axisX.x + segment.y * axisX.y,
+      segment.x * axisY.x + segment.y * axisY.y
+    );
+    const [halfWidth, halfHeight] = box.halfExtents;
 
-    if (!circle || !rect) return null;
+    const hit = this.segmentToBounds(localFrom, localSegment, [-halfWidth, -halfHeight], [halfWidth, halfHeight]);
+    if (!hit) return null;
+    return { t: hit.t, normal: axisX.multiply(hit.normal.x).add(axisY.multiply(hit.normal.y)) };
+  }
 
-    const rectLeft = rect.position.x;
-    const rectRight = rect.position.x + (rect.width || 0);
-    const rectTop = rect.position.y;
-    const rectBottom = rect.position.y + (rect.height || 0);
+  /**
+   * 线段与轴对齐边界相交检测（slab法），返回线段参数t∈[0,1]和法向量
+   */
+  private segmentToBounds(
+    from: Vector2,
+    segment: Vector2,
+    min: number[],
+    max: number[]
+  ): { t: number; normal: Vector2 } | null {
+    const origin = [from.x, from.y];
+    const delta = [segment.x, segment.y];
 
-    // 找到圆心到矩形最近的点
-    const closestX = Math.max(rectLeft, Math.min(circle.position.x, rectRight));
-    const closestY = Math.max(rectTop, Math.min(circle.position.y, rectBottom));
+    let tEnter = 0;
+    let tExit = 1;
+    let normal = new Vector2(0, 0); // 起点在矩形内时法向量为零
 
-    // 从最近点指向圆心的向量
-    const diff = new Vector2(circle.position.x - closestX, circle.position.y - closestY);
-    const distance = diff.length();
+    for (let axis = 0; axis < 2; axis++) {
+      if (delta[axis] === 0) {
+        // 与该轴平行，起点必须在slab内
+        if (origin[axis] < min[axis] || origin[axis] > max[axis]) return null;
+        continue;
+      }
+
+      let t1 = (min[axis] - origin[axis]) / delta[axis];
+      let t2 = (max[axis] - origin[axis]) / delta[axis];
+      let sign = -1; // 从min一侧进入
+      if (t1 > t2) {
+        [t1, t2] = [t2, t1];
+        sign = 1;
+      }
+
+      if (t1 > tEnter) {
+        tEnter = t1;
+        normal = axis === 0 ? new Vector2(sign, 0) : new Vector2(0, sign);
+      }
+      tExit = Math.min(tExit, t2);
+      if (tEnter > tExit) return null;
+    }
+
+    return { t: tEnter, normal };
+  }
+
+  /**
+   * 线段与圆形相交检测，返回线段参数t∈[0,1]和法向量
+   */
+  private segmentToCircle(from: Vector2, segment: Vector2, circle: Collider): { t: number; normal: Vector2 } | null {
+    const offset = from.subtract(circle.position);
+    const c = offset.x * offset.x + offset.y * offset.y - circle.radius * circle.radius;
+    if (c <= 0) {
+      // 起点在圆内
+      return { t: 0, normal: new Vector2(0, 0) };
+    }
+
+    const a = segment.x * segment.x + segment.y * segment.y;
+    if (a === 0) return null;
+    const b = 2 * (offset.x * segment.x + offset.y * segment.y);
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) return null;
+
+    const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+    if (t < 0 || t > 1) return null;
+
+    const point = from.add(segment.multiply(t));
+    return { t, normal: point.subtract(circle.position).normalize() };
+  }
+
+  /**
+   * 矩形与矩形的分离轴重叠检测（边界相接也算重叠，用于区域查询）
+   */
+  private boxToBoxInclusive(a: Box, b: Box): boolean {
+    const offset = a.center.subtract(b.center);
+    for (const axis of [...a.axes, ...b.axes]) {
+      const distance = Math.abs(offset.x * axis.x + offset.y * axis.y);
+      if (distance > this.projectBox(a, axis) + this.projectBox(b, axis)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 矩形与矩形重叠检测（边界相接也算重叠，用于区域查询）
+   */
+  private rectToRectInclusive(a: Collider, b: Collider): boolean {
+    return (
+      a.position.x <= b.position.x + (b.width || 0) &&
+      a.position.x + (a.width || 0) >= b.position.x &&
+      a.position.y <= b.position.y + (b.height || 0) &&
+      a.position.y + (a.height || 0) >= b.position.y
+    );
+  }
 
-    if (distance === 0) return new Vector2(1, 0); // 默认法向量
+  /**
+   * 检测点是否在碰撞体内
+   */
+  pointInCollider(point: Vector2, id: string): boolean {
+    const collider = this.colliders.get(id);
+    if (!collider) return false;
 
-    // 返回单位法向量
-    return diff.normalize();
+    if (collider.type === 'circle') {
+      return point.distance(collider.position) < collider.radius;
+    } else if (collider.type === 'obb') {
+      const box = this.getBox(collider);
+      const offset = point.subtract(box.center);
+      return (
+        Math.abs(offset.x * box.axes[0].x + offset.y * box.axes[0].y) <= box.halfExtents[0] &&
+        Math.abs(offset.x * box.axes[1].x + offset.y * box.axes[1].y) <= box.halfExtents[1]
+      );
+    } else {
+      return (
+        point.x >= collider.position.x &&
+        point.x <= collider.position.x + (collider.width || 0) &&
+        point.y >= collider.position.y &&
+        point.y <= collider.position.y + (collider.height || 0)
+      );
+    }
+  }
+
+  /**
+   * 获取碰撞体
+   */
+  getCollider(id: string): Collider | undefined {
+    return this.colliders.get(id);
   }
 
   /**
@@ -193,5 +705,7 @@ export class CollisionSystem {
    */
   clear(): void {
     this.colliders.clear();
+    this.cells.clear();
+    this.colliderCells.clear();
   }
 }
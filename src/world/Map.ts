@@ -1,7 +1,10 @@
 import { Vector2 } from '../utils/Vector2';
 import { Renderer } from '../graphics/Renderer';
 import { Camera } from '../graphics/Camera';
-import { CollisionSystem } from './Collision';
+import { CollisionSystem, CollisionLayer } from './Collision';
+import { Random } from '../utils/Random';
+import { RoadNetwork, RoadPoint } from './RoadNetwork';
+import { Pathfinder } from './Pathfinding';
 
 /**
  * 地图元素接口
@@ -11,11 +14,37 @@ interface MapElement {
   y: number;
   width: number;
   height: number;
-  type: 'road' | 'building' | 'grass';
+  type: 'road' | 'building' | 'grass' | 'respray' | 'shop' | 'hospital';
   color: string;
   id?: string;
 }
 
+/**
+ * 商店位置（建筑门口的瓦片）
+ */
+export interface ShopLocation {
+  id: string; // 由瓦片坐标生成，chunk重新生成后不变
+  position: Vector2; // 门口瓦片中心的世界坐标
+  roll: number; // [0, 1)的伪随机数，用于决定商店种类
+}
+
+/**
+ * 医院位置（建筑门口的瓦片，玩家死亡后在此复活）
+ */
+export interface HospitalLocation {
+  id: string; // 由瓦片坐标生成，chunk重新生成后不变
+  position: Vector2; // 门口瓦片中心的世界坐标
+}
+
+/**
+ * 街区类型（决定交通车辆的构成等）
+ */
+export enum District {
+  DOWNTOWN = 'downtown', // 市中心
+  INDUSTRIAL = 'industrial', // 工业区
+  SUBURBS = 'suburbs' // 郊区
+}
+
 /**
  * 游戏地图类 - 支持无限延展
  */
@@ -25,11 +54,33 @@ export class GameMap {
   private collisionSystem: CollisionSystem;
   private chunkSize: number = 10; // 每个chunk包含10x10个瓦片
   private generatedChunks: Set<string> = new Set(); // 已生成的chunk
-  private buildingIdCounter: number = 0;
-
-  constructor(width: number, height: number, tileSize: number = 32) {
+  private buildingIds: Set<string> = new Set(); // 所有建筑碰撞体ID
+  private chunkBuildingIds: Map<string, string[]> = new Map(); // chunk -> 该chunk内的建筑碰撞体ID
+  private chunkLoadRadius: number = 1600; // 与玩家距离在此范围内（像素）的chunk会被生成
+  private chunkUnloadRadius: number = 2000; // 超出玩家此距离（像素）的chunk会被卸载（需大于生成半径，避免反复生成）
+  private seed: number; // 世界种子，决定城市布局
+  private roadSpacing: number = 8; // 道路间隔（瓦片）
+  private roadNetwork: RoadNetwork = new RoadNetwork(); // 道路网络图
+  private chunkRoadNodeIds: Map<string, string[]> = new Map(); // chunk -> 该chunk内的路口ID
+  private pathfinder: Pathfinder; // 步行寻路服务
+  private resprayChance: number = 0.1; // 路口成为喷漆店的概率
+  private shopChance: number = 0.3; // 建筑开设商店的概率
+  private hospitalChance: number = 0.1; // 非商店建筑成为医院的概率
+  private districtSize: number = 4; // 每个街区包含4x4个chunk
+
+  constructor(width: number, height: number, tileSize: number = 32, seed: number = 0) {
     this.tileSize = tileSize;
+    this.seed = seed;
     this.collisionSystem = new CollisionSystem();
+    // 建筑布局只由种子决定，未加载的chunk也能寻路
+    this.pathfinder = new Pathfinder(tileSize, (tileX, tileY) => !this.isBuildingTile(tileX, tileY));
+  }
+
+  /**
+   * 获取世界种子
+   */
+  getSeed(): number {
+    return this.seed;
   }
 
   /**
@@ -49,6 +100,41 @@ export class GameMap {
     };
   }
 
+  /**
+   * 设置chunk生成半径（像素）
+   */
+  setChunkLoadRadius(radius: number): void {
+    this.chunkLoadRadius = radius;
+  }
+
+  /**
+   * 获取chunk生成半径（像素）
+   */
+  getChunkLoadRadius(): number {
+    return this.chunkLoadRadius;
+  }
+
+  /**
+   * 设置chunk卸载半径（像素）
+   */
+  setChunkUnloadRadius(radius: number): void {
+    this.chunkUnloadRadius = radius;
+  }
+
+  /**
+   * 获取chunk卸载半径（像素）
+   */
+  getChunkUnloadRadius(): number {
+    return this.chunkUnloadRadius;
+  }
+
+  /**
+   * 获取已加载的chunk数量
+   */
+  getLoadedChunkCount(): number {
+    return this.generatedChunks.size;
+  }
+
   /**
    * 生成指定chunk的地图
    */
@@ -59,6 +145,7 @@ export class GameMap {
     }
 
     this.generatedChunks.add(chunkKey);
+    this.chunkBuildingIds.set(chunkKey, []);
 
     const startTileX = chunkX * this.chunkSize;
     const startTileY = chunkY * this.chunkSize;
@@ -84,7 +171,88 @@ export class GameMap {
     this.generateRoadsInChunk(startTileX, startTileY, endTileX, endTileY);
 
     // 生成建筑
-    this.generateBuildingsInChunk(startTileX, startTileY, endTileX, endTileY);
+    this.generateBuildingsInChunk(chunkKey, chunkX, chunkY);
+
+    // 标记商店门口
+    const shopTile = this.getShopEntranceTile(chunkX, chunkY);
+    const shopElement = shopTile ? this.elementMap.get(`${shopTile.tileX},${shopTile.tileY}`) : undefined;
+    if (shopElement) {
+      shopElement.type = 'shop';
+      shopElement.color = '#ffb300';
+    }
+
+    // 标记医院门口
+    const hospitalTile = this.getHospitalEntranceTile(chunkX, chunkY);
+    const hospitalElement = hospitalTile ? this.elementMap.get(`${hospitalTile.tileX},${hospitalTile.tileY}`) : undefined;
+    if (hospitalElement) {
+      hospitalElement.type = 'hospital';
+      hospitalElement.color = '#e53935';
+    }
+
+    // 扩展道路网络
+    this.addChunkToRoadNetwork(chunkKey, startTileX, startTileY, endTileX, endTileY);
+  }
+
+  /**
+   * 卸载指定chunk，移除其瓦片和建筑碰撞体
+   */
+  private unloadChunk(chunkKey: string): void {
+    const [chunkX, chunkY] = chunkKey.split(',').map(Number);
+    const startTileX = chunkX * this.chunkSize;
+    const startTileY = chunkY * this.chunkSize;
+
+    for (let tileY = startTileY; tileY < startTileY + this.chunkSize; tileY++) {
+      for (let tileX = startTileX; tileX < startTileX + this.chunkSize; tileX++) {
+        this.elementMap.delete(`${tileX},${tileY}`);
+      }
+    }
+
+    for (const buildingId of this.chunkBuildingIds.get(chunkKey) || []) {
+      this.collisionSystem.unregister(buildingId);
+      this.buildingIds.delete(buildingId);
+    }
+
+    for (const nodeId of this.chunkRoadNodeIds.get(chunkKey) || []) {
+      this.roadNetwork.removeNode(nodeId);
+    }
+
+    this.chunkBuildingIds.delete(chunkKey);
+    this.chunkRoadNodeIds.delete(chunkKey);
+    this.generatedChunks.delete(chunkKey);
+  }
+
+  /**
+   * 以中心点（玩家位置）生成附近的chunk并卸载远处的chunk，由模拟步调用
+   */
+  updateChunks(center: Vector2): void {
+    this.ensureChunksGenerated(center);
+    this.unloadDistantChunks(center);
+  }
+
+  /**
+   * 卸载距离中心点超出卸载半径的chunk（重新生成时布局保持一致）
+   */
+  private unloadDistantChunks(center: Vector2): void {
+    const chunkWorldSize = this.chunkSize * this.tileSize;
+
+    for (const chunkKey of Array.from(this.generatedChunks)) {
+      const [chunkX, chunkY] = chunkKey.split(',').map(Number);
+      const chunkCenter = new Vector2(
+        (chunkX + 0.5) * chunkWorldSize,
+        (chunkY + 0.5) * chunkWorldSize
+      );
+
+      if (chunkCenter.distance(center) > this.chunkUnloadRadius) {
+        this.unloadChunk(chunkKey);
+      }
+    }
+  }
+
+  /**
+   * 判断某行/列是否为道路线
+   */
+  private isRoadLine(tileIndex: number): boolean {
+    return ((tileIndex % this.roadSpacing) + this.roadSpacing) % this.roadSpacing === 0;
   }
 
   /**
@@ -96,9 +264,9 @@ export class GameMap {
     endTileX: number,
     endTileY: number
   ): void {
-    // 水平道路（每8个瓦片一条）
+    // 水平道路（每roadSpacing个瓦片一条）
     for (let tileY = startTileY; tileY < endTileY; tileY++) {
-      if (tileY % 8 === 0) {
+      if (this.isRoadLine(tileY)) {
         for (let tileX = startTileX; tileX < endTileX; tileX++) {
           const key = `${tileX},${tileY}`;
           const element = this.elementMap.get(key);
@@ -110,9 +278,9 @@ export class GameMap {
       }
     }
 
-    // 竖直道路（每8个瓦片一条）
+    // 竖直道路（每roadSpacing个瓦片一条）
     for (let tileX = startTileX; tileX < endTileX; tileX++) {
-      if (tileX % 8 === 0) {
+      if (this.isRoadLine(tileX)) {
         for (let tileY = startTileY; tileY < endTileY; tileY++) {
           const key = `${tileX},${tileY}`;
           const element = this.elementMap.get(key);
@@ -123,99 +291,259 @@ export class GameMap {
         }
       }
     }
+
+    // 部分路口设为喷漆店
+    for (let tileY = startTileY; tileY < endTileY; tileY++) {
+      for (let tileX = startTileX; tileX < endTileX; tileX++) {
+        const element = this.elementMap.get(`${tileX},${tileY}`);
+        if (element && this.isResprayTile(tileX, tileY)) {
+          element.type = 'respray';
+          element.color = '#1e88e5';
+        }
+      }
+    }
+  }
+
+  /**
+   * 检查瓦片是否为喷漆店（只依赖世界种子和坐标）
+   */
+  private isResprayTile(tileX: number, tileY: number): boolean {
+    return (
+      this.isRoadLine(tileX) &&
+      this.isRoadLine(tileY) &&
+      !this.isBuildingTile(tileX, tileY) &&
+      Random.hash(this.seed, tileX, tileY, 2) < this.resprayChance
+    );
+  }
+
+  /**
+   * 计算chunk内建筑的占地范围（只依赖世界种子和坐标，chunk未加载时也可查询）
+   */
+  private getBuildingFootprint(chunkX: number, chunkY: number): {
+    tileX: number;
+    tileY: number;
+    width: number;
+    height: number;
+    colorRandom: number;
+  } {
+    // 建筑位于chunk内偏移2个瓦片处
+    const tileX = chunkX * this.chunkSize + 2;
+    const tileY = chunkY * this.chunkSize + 2;
+
+    // 使用世界种子和坐标生成伪随机数
+    const random1 = Random.hash(this.seed, tileX, tileY, 0);
+    const random2 = Random.hash(this.seed, tileX, tileY, 1);
+
+    return {
+      tileX,
+      tileY,
+      width: (2 + random1 * 3) | 0,
+      height: (2 + random2 * 3) | 0,
+      colorRandom: random1
+    };
+  }
+
+  /**
+   * 获取chunk内商店门口的瓦片（建筑底边中间的下方一格，没有商店时返回null）
+   */
+  private getShopEntranceTile(chunkX: number, chunkY: number): { tileX: number; tileY: number } | null {
+    if (!this.isShopBuilding(chunkX, chunkY)) {
+      return null;
+    }
+    return this.getEntranceTile(chunkX, chunkY);
+  }
+
+  /**
+   * chunk内的建筑是否开设商店
+   */
+  private isShopBuilding(chunkX: number, chunkY: number): boolean {
+    const footprint = this.getBuildingFootprint(chunkX, chunkY);
+    return Random.hash(this.seed, footprint.tileX, footprint.tileY, 3) < this.shopChance;
+  }
+
+  /**
+   * chunk内的建筑是否为医院（商店建筑不会是医院）
+   */
+  private isHospitalBuilding(chunkX: number, chunkY: number): boolean {
+    const footprint = this.getBuildingFootprint(chunkX, chunkY);
+    return (
+      !this.isShopBuilding(chunkX, chunkY) &&
+      Random.hash(this.seed, footprint.tileX, footprint.tileY, 5) < this.hospitalChance
+    );
+  }
+
+  /**
+   * 获取chunk内医院门口的瓦片（没有医院时返回null）
+   */
+  private getHospitalEntranceTile(chunkX: number, chunkY: number): { tileX: number; tileY: number } | null {
+    if (!this.isHospitalBuilding(chunkX, chunkY)) {
+      return null;
+    }
+    return this.getEntranceTile(chunkX, chunkY);
+  }
+
+  /**
+   * 获取chunk内建筑门口的瓦片（建筑底边中间的下方一格，与喷漆店重叠时返回null）
+   */
+  private getEntranceTile(chunkX: number, chunkY: number): { tileX: number; tileY: number } | null {
+    const footprint = this.getBuildingFootprint(chunkX, chunkY);
+    const tileX = footprint.tileX + Math.floor(footprint.width / 2);
+    const tileY = footprint.tileY + footprint.height;
+    // 不与喷漆店重叠
+    if (this.isResprayTile(tileX, tileY)) {
+      return null;
+    }
+    return { tileX, tileY };
+  }
+
+  /**
+   * 检查瓦片是否被建筑占据
+   */
+  private isBuildingTile(tileX: number, tileY: number): boolean {
+    const footprint = this.getBuildingFootprint(
+      Math.floor(tileX / this.chunkSize),
+      Math.floor(tileY / this.chunkSize)
+    );
+    return (
+      tileX >= footprint.tileX &&
+      tileX < footprint.tileX + footprint.width &&
+      tileY >= footprint.tileY &&
+      tileY < footprint.tileY + footprint.height
+    );
+  }
+
+  /**
+   * 检查瓦片是否为可通行的道路
+   */
+  private isRoadTile(tileX: number, tileY: number): boolean {
+    return (this.isRoadLine(tileX) || this.isRoadLine(tileY)) && !this.isBuildingTile(tileX, tileY);
   }
 
   /**
    * 在chunk中生成建筑
    */
   private generateBuildingsInChunk(
+    chunkKey: string,
+    chunkX: number,
+    chunkY: number
+  ): void {
+    const buildingColors = ['#8b4513', '#a0522d', '#cd853f', '#daa520'];
+    const footprint = this.getBuildingFootprint(chunkX, chunkY);
+    const hospital = this.isHospitalBuilding(chunkX, chunkY);
+
+    for (let by = 0; by < footprint.height; by++) {
+      for (let bx = 0; bx < footprint.width; bx++) {
+        const buildingTileX = footprint.tileX + bx;
+        const buildingTileY = footprint.tileY + by;
+        const key = `${buildingTileX},${buildingTileY}`;
+        const element = this.elementMap.get(key);
+
+        if (element) {
+          // 使用瓦片坐标作为ID，保证chunk重新生成后ID不变
+          const buildingId = `building_${buildingTileX}_${buildingTileY}`;
+          this.buildingIds.add(buildingId);
+          this.chunkBuildingIds.get(chunkKey)!.push(buildingId);
+          element.type = 'building';
+          element.color = hospital
+            ? '#eceff1'
+            : buildingColors[Math.floor(footprint.colorRandom * buildingColors.length)];
+          element.id = buildingId;
+
+          // 为建筑添加碰撞体
+          this.collisionSystem.register(buildingId, {
+            position: new Vector2(element.x, element.y),
+            radius: 0,
+            type: 'rect',
+            width: element.width,
+            height: element.height,
+            layer: CollisionLayer.BUILDING
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * 将chunk内的路口加入道路网络，并连接已加载的相邻路口
+   */
+  private addChunkToRoadNetwork(
+    chunkKey: string,
     startTileX: number,
     startTileY: number,
     endTileX: number,
     endTileY: number
   ): void {
-    const buildingColors = ['#8b4513', '#a0522d', '#cd853f', '#daa520'];
+    const nodeIds: string[] = [];
 
-    // 使用种子生成确定性的建筑位置
-    for (let tileY = startTileY + 2; tileY < endTileY - 2; tileY += 10) {
-      for (let tileX = startTileX + 2; tileX < endTileX - 2; tileX += 10) {
-        // 使用坐标作为种子生成伪随机数
-        const seed = tileX * 73856093 ^ tileY * 19349663;
-        const random1 = Math.abs(Math.sin(seed) * 10000) % 1;
-        const random2 = Math.abs(Math.sin(seed + 1) * 10000) % 1;
-
-        const buildingWidth = (2 + random1 * 3) | 0;
-        const buildingHeight = (2 + random2 * 3) | 0;
-
-        for (let by = 0; by < buildingHeight; by++) {
-          for (let bx = 0; bx < buildingWidth; bx++) {
-            const buildingTileX = tileX + bx;
-            const buildingTileY = tileY + by;
-
-            if (buildingTileX < endTileX && buildingTileY < endTileY) {
-              const key = `${buildingTileX},${buildingTileY}`;
-              const element = this.elementMap.get(key);
-
-              if (element) {
-                const buildingId = `building_${this.buildingIdCounter++}`;
-                element.type = 'building';
-                element.color =
-                  buildingColors[Math.floor(random1 * buildingColors.length)];
-                element.id = buildingId;
-
-                // 为建筑添加碰撞体
-                this.collisionSystem.register(buildingId, {
-                  position: new Vector2(element.x, element.y),
-                  radius: 0,
-                  type: 'rect',
-                  width: element.width,
-                  height: element.height
-                });
-
-              }
+    for (let tileY = startTileY; tileY < endTileY; tileY++) {
+      if (!this.isRoadLine(tileY)) continue;
+      for (let tileX = startTileX; tileX < endTileX; tileX++) {
+        if (!this.isRoadLine(tileX) || !this.isRoadTile(tileX, tileY)) continue;
+
+        const node = this.roadNetwork.addNode(tileX, tileY, this.getTileCenter(tileX, tileY));
+        nodeIds.push(node.id);
+
+        // 连接四个方向上相邻的路口（路段上不能有建筑阻挡）
+        const directions = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+        for (const [dx, dy] of directions) {
+          const neighborTileX = tileX + dx * this.roadSpacing;
+          const neighborTileY = tileY + dy * this.roadSpacing;
+          const neighborId = RoadNetwork.getNodeId(neighborTileX, neighborTileY);
+          if (!this.roadNetwork.getNode(neighborId)) continue;
+
+          let blocked = false;
+          for (let step = 1; step < this.roadSpacing; step++) {
+            if (!this.isRoadTile(tileX + dx * step, tileY + dy * step)) {
+              blocked = true;
+              break;
             }
           }
+          if (!blocked) {
+            this.roadNetwork.addEdge(node.id, neighborId);
+          }
         }
       }
     }
+
+    this.chunkRoadNodeIds.set(chunkKey, nodeIds);
   }
 
   /**
-   * 确保指定区域的chunk已生成
+   * 获取瓦片中心的世界坐标
    */
-  private ensureChunksGenerated(viewport: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  }): void {
-    const startTileX = Math.floor(viewport.x / this.tileSize);
-    const startTileY = Math.floor(viewport.y / this.tileSize);
-    const endTileX = Math.ceil((viewport.x + viewport.width) / this.tileSize);
-    const endTileY = Math.ceil((viewport.y + viewport.height) / this.tileSize);
-
-    const startChunkX = Math.floor(startTileX / this.chunkSize);
-    const startChunkY = Math.floor(startTileY / this.chunkSize);
-    const endChunkX = Math.ceil(endTileX / this.chunkSize);
-    const endChunkY = Math.ceil(endTileY / this.chunkSize);
-
-    for (let chunkY = startChunkY; chunkY < endChunkY; chunkY++) {
-      for (let chunkX = startChunkX; chunkX < endChunkX; chunkX++) {
-        this.generateChunk(chunkX, chunkY);
+  private getTileCenter(tileX: number, tileY: number): Vector2 {
+    return new Vector2((tileX + 0.5) * this.tileSize, (tileY + 0.5) * this.tileSize);
+  }
+
+  /**
+   * 确保与中心点距离在生成半径内的chunk已生成
+   */
+  private ensureChunksGenerated(center: Vector2): void {
+    const chunkWorldSize = this.chunkSize * this.tileSize;
+    const startChunkX = Math.floor((center.x - this.chunkLoadRadius) / chunkWorldSize);
+    const startChunkY = Math.floor((center.y - this.chunkLoadRadius) / chunkWorldSize);
+    const endChunkX = Math.floor((center.x + this.chunkLoadRadius) / chunkWorldSize);
+    const endChunkY = Math.floor((center.y + this.chunkLoadRadius) / chunkWorldSize);
+
+    for (let chunkY = startChunkY; chunkY <= endChunkY; chunkY++) {
+      for (let chunkX = startChunkX; chunkX <= endChunkX; chunkX++) {
+        // chunk上离中心点最近的点在生成半径内
+        const nearestX = Math.max(chunkX * chunkWorldSize, Math.min(center.x, (chunkX + 1) * chunkWorldSize));
+        const nearestY = Math.max(chunkY * chunkWorldSize, Math.min(center.y, (chunkY + 1) * chunkWorldSize));
+        if (center.distance(new Vector2(nearestX, nearestY)) <= this.chunkLoadRadius) {
+          this.generateChunk(chunkX, chunkY);
+        }
       }
     }
   }
 
   /**
-   * 渲染地图
+   * 渲染地图（只绘制已生成的chunk，chunk的生成和卸载在模拟步中进行）
    */
   render(renderer: Renderer, camera: Camera): void {
     const viewport = camera.getViewport();
     const zoom = camera.getZoom();
 
-    // 确保需要的chunk已生成
-    this.ensureChunksGenerated(viewport);
-
     // 只渲染视口内的元素
     for (const element of this.elementMap.values()) {
       // 检查元素是否在视口内
@@ -261,21 +589,118 @@ export class GameMap {
   }
 
   /**
-   * 检查点是否与建筑物碰撞
+   * 获取道路网络图
    */
-  isPointInBuilding(point: Vector2): boolean {
-    const buildings = this.getBuildings();
-    for (const building of buildings) {
-      if (
-        point.x >= building.x &&
-        point.x <= building.x + building.width &&
-        point.y >= building.y &&
-        point.y <= building.y + building.height
-      ) {
-        return true;
+  getRoadNetwork(): RoadNetwork {
+    return this.roadNetwork;
+  }
+
+  /**
+   * 获取步行寻路服务
+   */
+  getPathfinder(): Pathfinder {
+    return this.pathfinder;
+  }
+
+  /**
+   * 检查点是否在道路上
+   */
+  isPointOnRoad(point: Vector2): boolean {
+    return this.isRoadTile(Math.floor(point.x / this.tileSize), Math.floor(point.y / this.tileSize));
+  }
+
+  /**
+   * 获取点所在的街区（只依赖世界种子和坐标）
+   */
+  getDistrict(point: Vector2): District {
+    const districtWorldSize = this.districtSize * this.chunkSize * this.tileSize;
+    const districtX = Math.floor(point.x / districtWorldSize);
+    const districtY = Math.floor(point.y / districtWorldSize);
+    const districts = Object.values(District);
+    return districts[Math.floor(Random.hash(this.seed, districtX, districtY, 6) * districts.length)];
+  }
+
+  /**
+   * 检查点是否在喷漆店内
+   */
+  isPointInRespray(point: Vector2): boolean {
+    return this.isResprayTile(Math.floor(point.x / this.tileSize), Math.floor(point.y / this.tileSize));
+  }
+
+  /**
+   * 查找距离某点radius以内的商店门口（只依赖世界种子和坐标，chunk未加载时也可查询）
+   */
+  findShopNear(point: Vector2, radius: number): ShopLocation | null {
+    const chunkWorldSize = this.chunkSize * this.tileSize;
+    const centerChunkX = Math.floor(point.x / chunkWorldSize);
+    const centerChunkY = Math.floor(point.y / chunkWorldSize);
+    let nearest: ShopLocation | null = null;
+    let nearestDistance = radius;
+
+    for (let chunkY = centerChunkY - 1; chunkY <= centerChunkY + 1; chunkY++) {
+      for (let chunkX = centerChunkX - 1; chunkX <= centerChunkX + 1; chunkX++) {
+        const tile = this.getShopEntranceTile(chunkX, chunkY);
+        if (!tile) continue;
+        const position = this.getTileCenter(tile.tileX, tile.tileY);
+        const distance = position.distance(point);
+        if (distance <= nearestDistance) {
+          nearestDistance = distance;
+          nearest = {
+            id: `shop_${tile.tileX}_${tile.tileY}`,
+            position,
+            roll: Random.hash(this.seed, tile.tileX, tile.tileY, 4)
+          };
+        }
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * 查找离某点最近的医院（在chunkRadius个chunk范围内搜索，找不到时返回null）
+   */
+  findNearestHospital(point: Vector2, chunkRadius: number = 6): HospitalLocation | null {
+    const chunkWorldSize = this.chunkSize * this.tileSize;
+    const centerChunkX = Math.floor(point.x / chunkWorldSize);
+    const centerChunkY = Math.floor(point.y / chunkWorldSize);
+    let nearest: HospitalLocation | null = null;
+    let nearestDistance = Infinity;
+
+    for (let chunkY = centerChunkY - chunkRadius; chunkY <= centerChunkY + chunkRadius; chunkY++) {
+      for (let chunkX = centerChunkX - chunkRadius; chunkX <= centerChunkX + chunkRadius; chunkX++) {
+        const tile = this.getHospitalEntranceTile(chunkX, chunkY);
+        if (!tile) continue;
+        const position = this.getTileCenter(tile.tileX, tile.tileY);
+        const distance = position.distance(point);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearest = { id: `hospital_${tile.tileX}_${tile.tileY}`, position };
+        }
       }
     }
-    return false;
+    return nearest;
+  }
+
+  /**
+   * 获取离某点最近的道路中心点（仅限已加载的道路网络）
+   */
+  getNearestRoadPoint(point: Vector2): RoadPoint | null {
+    return this.roadNetwork.getNearestRoadPoint(point);
+  }
+
+  /**
+   * 计算两点之间沿道路的路线
+   */
+  findRoute(from: Vector2, to: Vector2): Vector2[] | null {
+    return this.roadNetwork.findRoute(from, to);
+  }
+
+  /**
+   * 检查点是否与建筑物碰撞
+   */
+  isPointInBuilding(point: Vector2): boolean {
+    const colliderIds = this.collisionSystem.queryAABB(point.x, point.y, 0, 0);
+    return colliderIds.some(id => this.buildingIds.has(id));
   }
 
 }
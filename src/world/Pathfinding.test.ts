@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { Vector2 } from '../utils/Vector2';
+import { Pathfinder } from './Pathfinding';
+
+const tileSize = 32;
+
+/**
+ * 用字符画创建寻路器（'#'为建筑，网格外不可通行），并统计可通行查询次数
+ */
+function createPathfinder(rows: string[]): { pathfinder: Pathfinder; queries: () => number } {
+  let queryCount = 0;
+  const pathfinder = new Pathfinder(tileSize, (tileX, tileY) => {
+    queryCount++;
+    const row = rows[tileY];
+    return row !== undefined && tileX >= 0 && tileX < row.length && row[tileX] !== '#';
+  });
+  return { pathfinder, queries: () => queryCount };
+}
+
+/**
+ * 瓦片中心的世界坐标
+ */
+function tileCenter(tileX: number, tileY: number): Vector2 {
+  return new Vector2((tileX + 0.5) * tileSize, (tileY + 0.5) * tileSize);
+}
+
+describe('Pathfinder', () => {
+  it('空地上平滑为直达终点', () => {
+    const { pathfinder } = createPathfinder([
+      '..........',
+      '..........',
+      '..........'
+    ]);
+
+    const to = new Vector2(270, 40);
+    expect(pathfinder.findPath(tileCenter(1, 1), to)).toEqual([to]);
+  });
+
+  it('绕开建筑到达终点，每一段都不穿过建筑', () => {
+    const { pathfinder } = createPathfinder([
+      '..........',
+      '....#.....',
+      '....#.....',
+      '....#.....',
+      '....#.....',
+      '....#.....'
+    ]);
+
+    const from = tileCenter(1, 4);
+    const to = tileCenter(8, 4);
+    const path = pathfinder.findPath(from, to)!;
+
+    expect(path.length).toBeGreaterThan(1);
+    expect(path[path.length - 1]).toEqual(to);
+    // 只能从墙上方的第0行绕过
+    expect(path.some(point => pathfinder.worldToTile(point).y === 0)).toBe(true);
+    let previous = from;
+    for (const point of path) {
+      expect(pathfinder.hasClearPath(previous, point)).toBe(true);
+      previous = point;
+    }
+  });
+
+  it('起点和终点被建筑隔开时没有路径', () => {
+    const { pathfinder } = createPathfinder([
+      '....#.....',
+      '....#.....',
+      '....#.....'
+    ]);
+
+    expect(pathfinder.findPath(tileCenter(1, 1), tileCenter(8, 1))).toBeNull();
+  });
+
+  it('相同起止瓦片的路径命中缓存，不再重新搜索', () => {
+    const { pathfinder, queries } = createPathfinder([
+      '..........',
+      '....#.....',
+      '....#.....',
+      '..........'
+    ]);
+
+    const first = pathfinder.findPath(tileCenter(1, 2), tileCenter(8, 2));
+    expect(pathfinder.getCacheSize()).toBe(1);
+
+    const queriesAfterSearch = queries();
+    // 同一瓦片内的其他起点使用缓存的路径
+    const second = pathfinder.findPath(new Vector2(40, 70), tileCenter(8, 2));
+    expect(second).toEqual(first);
+    expect(pathfinder.getCacheSize()).toBe(1);
+    // 只检查了终点瓦片是否可通行
+    expect(queries() - queriesAfterSearch).toBe(1);
+
+    pathfinder.clearCache();
+    expect(pathfinder.getCacheSize()).toBe(0);
+  });
+
+  it('终点在建筑内时改为最近的可通行位置', () => {
+    const { pathfinder } = createPathfinder([
+      '......',
+      '..###.',
+      '..###.',
+      '......'
+    ]);
+
+    expect(pathfinder.findNearestWalkable(tileCenter(0, 0))).toEqual(tileCenter(0, 0));
+    expect(pathfinder.findNearestWalkable(tileCenter(3, 1))).toEqual(tileCenter(3, 0));
+
+    const path = pathfinder.findPath(tileCenter(0, 3), tileCenter(3, 1))!;
+    expect(path[path.length - 1]).toEqual(tileCenter(3, 0));
+  });
+
+  it('附近没有可通行瓦片时找不到位置', () => {
+    const { pathfinder } = createPathfinder([
+      '#####',
+      '#####',
+      '#####'
+    ]);
+
+    expect(pathfinder.findNearestWalkable(tileCenter(2, 1), 1)).toBeNull();
+  });
+});
@@ -0,0 +1,295 @@
+import { Vector2 } from '../utils/Vector2';
+
+/**
+ * 瓦片坐标
+ */
+export interface TilePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A*搜索节点
+ */
+interface SearchNode {
+  x: number;
+  y: number;
+  g: number; // 起点到该节点的代价
+  f: number; // g + 启发值
+  parent: SearchNode | null;
+}
+
+/**
+ * A*开放列表（按f值排序的二叉堆）
+ */
+class OpenList {
+  private heap: SearchNode[] = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(node: SearchNode): void {
+    this.heap.push(node);
+    let index = this.heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.heap[parent].f <= this.heap[index].f) break;
+      [this.heap[parent], this.heap[index]] = [this.heap[index], this.heap[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): SearchNode | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length > 0 && last) {
+      this.heap[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.heap.length && this.heap[left].f < this.heap[smallest].f) smallest = left;
+        if (right < this.heap.length && this.heap[right].f < this.heap[smallest].f) smallest = right;
+        if (smallest === index) break;
+        [this.heap[smallest], this.heap[index]] = [this.heap[index], this.heap[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * 寻路服务 - 在地图瓦片网格上进行A*寻路，并缓存计算结果
+ */
+export class Pathfinder {
+  private tileSize: number;
+  private isTileWalkable: (tileX: number, tileY: number) => boolean;
+  private maxSearchNodes: number = 2000; // 单次搜索最多展开的节点数
+  private clearance: number = 8; // 路径平滑时与建筑保持的距离（像素）
+  private cache: Map<string, Vector2[] | null> = new Map(); // 起点瓦片|终点瓦片 -> 平滑后的路径
+  private maxCacheSize: number = 256;
+
+  constructor(tileSize: number, isTileWalkable: (tileX: number, tileY: number) => boolean) {
+    this.tileSize = tileSize;
+    this.isTileWalkable = isTileWalkable;
+  }
+
+  /**
+   * 获取瓦片大小
+   */
+  getTileSize(): number {
+    return this.tileSize;
+  }
+
+  /**
+   * 世界坐标转瓦片坐标
+   */
+  worldToTile(point: Vector2): TilePoint {
+    return { x: Math.floor(point.x / this.tileSize), y: Math.floor(point.y / this.tileSize) };
+  }
+
+  /**
+   * 获取瓦片中心的世界坐标
+   */
+  tileToWorld(tileX: number, tileY: number): Vector2 {
+    return new Vector2((tileX + 0.5) * this.tileSize, (tileY + 0.5) * this.tileSize);
+  }
+
+  /**
+   * 检查点是否可通行
+   */
+  isWalkable(point: Vector2): boolean {
+    const tile = this.worldToTile(point);
+    return this.isTileWalkable(tile.x, tile.y);
+  }
+
+  /**
+   * 查找离某点最近的可通行位置（点本身可通行时直接返回）
+   */
+  findNearestWalkable(point: Vector2, maxRadius: number = 4): Vector2 | null {
+    if (this.isWalkable(point)) {
+      return point.clone();
+    }
+
+    const tile = this.worldToTile(point);
+    for (let radius = 1; radius <= maxRadius; radius++) {
+      let best: Vector2 | null = null;
+      let bestDistance = Infinity;
+      // 只检查当前半径的外圈
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          if (Math.abs(dx) !== radius && Math.abs(dy) !== radius) continue;
+          if (!this.isTileWalkable(tile.x + dx, tile.y + dy)) continue;
+          const center = this.tileToWorld(tile.x + dx, tile.y + dy);
+          const distance = center.distance(point);
+          if (distance < bestDistance) {
+            best = center;
+            bestDistance = distance;
+          }
+        }
+      }
+      if (best) return best;
+    }
+    return null;
+  }
+
+  /**
+   * 计算两点之间绕开建筑的路径，返回途经的世界坐标点（不含起点，终点为to）
+   */
+  findPath(from: Vector2, to: Vector2): Vector2[] | null {
+    const start = this.worldToTile(from);
+    let goal = this.worldToTile(to);
+    let goalPosition = to;
+
+    // 终点在建筑内时改为最近的可通行瓦片
+    if (!this.isTileWalkable(goal.x, goal.y)) {
+      const nearest = this.findNearestWalkable(to);
+      if (!nearest) return null;
+      goal = this.worldToTile(nearest);
+      goalPosition = nearest;
+    }
+
+    if (start.x === goal.x && start.y === goal.y) {
+      return [goalPosition.clone()];
+    }
+
+    const key = `${start.x},${start.y}|${goal.x},${goal.y}`;
+    let path = this.cache.get(key);
+    if (path === undefined) {
+      path = this.search(start, goal);
+      this.cache.set(key, path);
+      if (this.cache.size > this.maxCacheSize) {
+        // 淘汰最久未使用的路径
+        this.cache.delete(this.cache.keys().next().value as string);
+      }
+    } else {
+      // 命中缓存，移到末尾表示最近使用
+      this.cache.delete(key);
+      this.cache.set(key, path);
+    }
+
+    if (!path) return null;
+
+    // 去掉起点瓦片，终点替换为精确位置
+    const waypoints = path.slice(1, -1).map(p => p.clone());
+    waypoints.push(goalPosition.clone());
+    return waypoints;
+  }
+
+  /**
+   * 检查两点之间的直线是否不经过建筑
+   */
+  hasClearPath(from: Vector2, to: Vector2): boolean {
+    const segment = to.subtract(from);
+    const length = segment.length();
+    if (length === 0) return this.isWalkable(from);
+
+    const direction = segment.normalize();
+    const side = new Vector2(-direction.y, direction.x).multiply(this.clearance);
+    const steps = Math.ceil(length / (this.tileSize / 4));
+    for (let i = 0; i <= steps; i++) {
+      const point = from.add(segment.multiply(i / steps));
+      if (!this.isWalkable(point) || !this.isWalkable(point.add(side)) || !this.isWalkable(point.subtract(side))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 清空路径缓存
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * 获取缓存的路径数量
+   */
+  getCacheSize(): number {
+    return this.cache.size;
+  }
+
+  /**
+   * A*搜索（8方向，不允许斜穿建筑角），返回平滑后的瓦片中心路径
+   */
+  private search(start: TilePoint, goal: TilePoint): Vector2[] | null {
+    const heuristic = (x: number, y: number): number => {
+      // 八方向距离
+      const dx = Math.abs(x - goal.x);
+      const dy = Math.abs(y - goal.y);
+      return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+    };
+
+    const open = new OpenList();
+    const bestG: Map<string, number> = new Map();
+    const closed: Set<string> = new Set();
+
+    open.push({ x: start.x, y: start.y, g: 0, f: heuristic(start.x, start.y), parent: null });
+    bestG.set(`${start.x},${start.y}`, 0);
+
+    while (open.size > 0 && closed.size < this.maxSearchNodes) {
+      const current = open.pop()!;
+      const currentKey = `${current.x},${current.y}`;
+      if (closed.has(currentKey)) continue;
+      closed.add(currentKey);
+
+      if (current.x === goal.x && current.y === goal.y) {
+        const tiles: Vector2[] = [];
+        for (let node: SearchNode | null = current; node; node = node.parent) {
+          tiles.unshift(this.tileToWorld(node.x, node.y));
+        }
+        return this.smoothPath(tiles);
+      }
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          const x = current.x + dx;
+          const y = current.y + dy;
+          if (!this.isTileWalkable(x, y)) continue;
+          // 斜向移动时两侧瓦片都必须可通行
+          if (dx !== 0 && dy !== 0 &&
+            (!this.isTileWalkable(current.x + dx, current.y) || !this.isTileWalkable(current.x, current.y + dy))) {
+            continue;
+          }
+
+          const key = `${x},${y}`;
+          if (closed.has(key)) continue;
+          const g = current.g + (dx !== 0 && dy !== 0 ? Math.SQRT2 : 1);
+          if (g < (bestG.get(key) ?? Infinity)) {
+            bestG.set(key, g);
+            open.push({ x, y, g, f: g + heuristic(x, y), parent: current });
+          }
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 路径平滑：跳过可直线到达的中间点
+   */
+  private smoothPath(tiles: Vector2[]): Vector2[] {
+    if (tiles.length <= 2) return tiles;
+
+    const smoothed: Vector2[] = [tiles[0]];
+    let anchor = 0;
+    while (anchor < tiles.length - 1) {
+      let next = anchor + 1;
+      for (let i = tiles.length - 1; i > anchor + 1; i--) {
+        if (this.hasClearPath(tiles[anchor], tiles[i])) {
+          next = i;
+          break;
+        }
+      }
+      smoothed.push(tiles[next]);
+      anchor = next;
+    }
+    return smoothed;
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Vector2 } from '../utils/Vector2';
+import { RoadNetwork } from './RoadNetwork';
+
+/**
+ * 按瓦片坐标创建路口（每格100像素）
+ */
+function addNodes(network: RoadNetwork, tiles: [number, number][]): void {
+  for (const [tileX, tileY] of tiles) {
+    network.addNode(tileX, tileY, new Vector2(tileX * 100, tileY * 100));
+  }
+}
+
+/**
+ * 连接两个路口
+ */
+function connect(network: RoadNetwork, a: [number, number], b: [number, number]): void {
+  network.addEdge(RoadNetwork.getNodeId(...a), RoadNetwork.getNodeId(...b));
+}
+
+/**
+ * 将路线转换为坐标元组便于比较
+ */
+function toPoints(route: Vector2[] | null): [number, number][] | null {
+  return route && route.map(point => [point.x, point.y]);
+}
+
+describe('RoadNetwork', () => {
+  it('沿路段连接的路口规划最短路线', () => {
+    // 0,0 - 1,0 - 2,0
+    //  |           |
+    // 0,1 ------- 2,1 (经过下方更远)
+    const network = new RoadNetwork();
+    addNodes(network, [[0, 0], [1, 0], [2, 0], [0, 1], [2, 1]]);
+    connect(network, [0, 0], [1, 0]);
+    connect(network, [1, 0], [2, 0]);
+    connect(network, [0, 0], [0, 1]);
+    connect(network, [0, 1], [2, 1]);
+    connect(network, [2, 1], [2, 0]);
+
+    const route = network.findRoute(new Vector2(10, 0), new Vector2(200, 90));
+    expect(toPoints(route)).toEqual([[10, 0], [100, 0], [200, 0], [200, 90]]);
+  });
+
+  it('起点和终点在同一路段上时直接到达', () => {
+    const network = new RoadNetwork();
+    addNodes(network, [[0, 0], [1, 0]]);
+    connect(network, [0, 0], [1, 0]);
+
+    const route = network.findRoute(new Vector2(20, 5), new Vector2(80, -5));
+    expect(toPoints(route)).toEqual([[20, 0], [80, 0]]);
+  });
+
+  it('起点和终点不连通时没有路线', () => {
+    const network = new RoadNetwork();
+    addNodes(network, [[0, 0], [1, 0], [5, 0], [6, 0]]);
+    connect(network, [0, 0], [1, 0]);
+    connect(network, [5, 0], [6, 0]);
+
+    expect(network.findRoute(new Vector2(50, 0), new Vector2(550, 0))).toBeNull();
+  });
+
+  it('移除路口后绕行其他道路', () => {
+    const network = new RoadNetwork();
+    addNodes(network, [[0, 0], [1, 0], [2, 0], [0, 1], [1, 1], [2, 1]]);
+    connect(network, [0, 0], [1, 0]);
+    connect(network, [1, 0], [2, 0]);
+    connect(network, [0, 0], [0, 1]);
+    connect(network, [0, 1], [1, 1]);
+    connect(network, [1, 1], [2, 1]);
+    connect(network, [2, 1], [2, 0]);
+
+    network.removeNode(RoadNetwork.getNodeId(1, 0));
+    expect(network.getEdge(RoadNetwork.getNodeId(0, 0), RoadNetwork.getNodeId(1, 0))).toBeUndefined();
+
+    const route = network.findRoute(new Vector2(0, 10), new Vector2(200, 10));
+    expect(toPoints(route)).toEqual([[0, 10], [0, 100], [100, 100], [200, 100], [200, 10]]);
+  });
+
+  it('车道向行驶方向右侧偏移', () => {
+    const network = new RoadNetwork(8);
+    addNodes(network, [[0, 0], [1, 0]]);
+    connect(network, [0, 0], [1, 0]);
+
+    const east = network.getLane(RoadNetwork.getNodeId(0, 0), RoadNetwork.getNodeId(1, 0))!;
+    const west = network.getLane(RoadNetwork.getNodeId(1, 0), RoadNetwork.getNodeId(0, 0))!;
+    expect([east.start.y, east.end.y, east.direction.x]).toEqual([8, 8, 1]);
+    expect([west.start.y, west.end.y, west.direction.x]).toEqual([-8, -8, -1]);
+  });
+});
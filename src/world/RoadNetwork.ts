@@ -0,0 +1,305 @@
+import { Vector2 } from '../utils/Vector2';
+
+/**
+ * 路口节点
+ */
+export interface RoadNode {
+  id: string;
+  tileX: number;
+  tileY: number;
+  position: Vector2; // 路口中心（世界坐标）
+  neighbors: string[]; // 相连路口ID
+}
+
+/**
+ * 单向车道（靠右行驶）
+ */
+export interface RoadLane {
+  from: string; // 起点路口ID
+  to: string; // 终点路口ID
+  start: Vector2; // 车道起点（世界坐标）
+  end: Vector2; // 车道终点（世界坐标）
+  direction: Vector2; // 行驶方向（单位向量）
+}
+
+/**
+ * 路段（连接两个相邻路口的双向道路）
+ */
+export interface RoadEdge {
+  id: string;
+  nodeA: string;
+  nodeB: string;
+  lanes: [RoadLane, RoadLane]; // A->B 和 B->A 两条车道
+}
+
+/**
+ * 道路上的最近点
+ */
+export interface RoadPoint {
+  position: Vector2;
+  edge: RoadEdge;
+  distance: number;
+}
+
+/**
+ * 道路网络图 - 路口为节点，路段为边
+ */
+export class RoadNetwork {
+  private nodes: Map<string, RoadNode> = new Map();
+  private edges: Map<string, RoadEdge> = new Map();
+  private laneOffset: number; // 车道中心线距道路中心的偏移（像素）
+
+  constructor(laneOffset: number = 8) {
+    this.laneOffset = laneOffset;
+  }
+
+  /**
+   * 获取节点ID
+   */
+  static getNodeId(tileX: number, tileY: number): string {
+    return `${tileX},${tileY}`;
+  }
+
+  /**
+   * 获取路段ID（与方向无关）
+   */
+  private getEdgeId(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  /**
+   * 添加路口
+   */
+  addNode(tileX: number, tileY: number, position: Vector2): RoadNode {
+    const id = RoadNetwork.getNodeId(tileX, tileY);
+    let node = this.nodes.get(id);
+    if (!node) {
+      node = { id, tileX, tileY, position: position.clone(), neighbors: [] };
+      this.nodes.set(id, node);
+    }
+    return node;
+  }
+
+  /**
+   * 移除路口及其相连的路段
+   */
+  removeNode(id: string): void {
+    const node = this.nodes.get(id);
+    if (!node) return;
+
+    for (const neighborId of node.neighbors) {
+      this.edges.delete(this.getEdgeId(id, neighborId));
+      const neighbor = this.nodes.get(neighborId);
+      if (neighbor) {
+        neighbor.neighbors = neighbor.neighbors.filter(n => n !== id);
+      }
+    }
+    this.nodes.delete(id);
+  }
+
+  /**
+   * 连接两个路口
+   */
+  addEdge(a: string, b: string): RoadEdge | null {
+    const nodeA = this.nodes.get(a);
+    const nodeB = this.nodes.get(b);
+    if (!nodeA || !nodeB || a === b) return null;
+
+    const id = this.getEdgeId(a, b);
+    const existing = this.edges.get(id);
+    if (existing) return existing;
+
+    const edge: RoadEdge = {
+      id,
+      nodeA: a,
+      nodeB: b,
+      lanes: [this.createLane(nodeA, nodeB), this.createLane(nodeB, nodeA)]
+    };
+    this.edges.set(id, edge);
+    nodeA.neighbors.push(b);
+    nodeB.neighbors.push(a);
+    return edge;
+  }
+
+  /**
+   * 创建单向车道（向行驶方向右侧偏移）
+   */
+  private createLane(from: RoadNode, to: RoadNode): RoadLane {
+    const direction = to.position.subtract(from.position).normalize();
+    const right = new Vector2(-direction.y, direction.x).multiply(this.laneOffset);
+    return {
+      from: from.id,
+      to: to.id,
+      start: from.position.add(right),
+      end: to.position.add(right),
+      direction
+    };
+  }
+
+  /**
+   * 获取路口
+   */
+  getNode(id: string): RoadNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  /**
+   * 获取所有路口
+   */
+  getNodes(): RoadNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  /**
+   * 获取所有路段
+   */
+  getEdges(): RoadEdge[] {
+    return Array.from(this.edges.values());
+  }
+
+  /**
+   * 获取两个路口之间的路段
+   */
+  getEdge(a: string, b: string): RoadEdge | undefined {
+    return this.edges.get(this.getEdgeId(a, b));
+  }
+
+  /**
+   * 获取从from驶向to的车道
+   */
+  getLane(from: string, to: string): RoadLane | null {
+    const edge = this.getEdge(from, to);
+    if (!edge) return null;
+    return edge.nodeA === from ? edge.lanes[0] : edge.lanes[1];
+  }
+
+  /**
+   * 获取从某路口驶出的所有车道
+   */
+  getOutgoingLanes(nodeId: string): RoadLane[] {
+    const node = this.nodes.get(nodeId);
+    if (!node) return [];
+    return node.neighbors
+      .map(neighborId => this.getLane(nodeId, neighborId))
+      .filter((lane): lane is RoadLane => lane !== null);
+  }
+
+  /**
+   * 获取离某点最近的路口
+   */
+  getNearestNode(point: Vector2): RoadNode | null {
+    let nearest: RoadNode | null = null;
+    let nearestDistance = Infinity;
+    for (const node of this.nodes.values()) {
+      const distance = node.position.distance(point);
+      if (distance < nearestDistance) {
+        nearest = node;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * 获取道路中心线上离某点最近的点
+   */
+  getNearestRoadPoint(point: Vector2): RoadPoint | null {
+    let best: RoadPoint | null = null;
+
+    for (const edge of this.edges.values()) {
+      const a = this.nodes.get(edge.nodeA)!.position;
+      const b = this.nodes.get(edge.nodeB)!.position;
+      const ab = b.subtract(a);
+      const lengthSq = ab.x * ab.x + ab.y * ab.y;
+      const t = lengthSq === 0
+        ? 0
+        : Math.max(0, Math.min(1, ((point.x - a.x) * ab.x + (point.y - a.y) * ab.y) / lengthSq));
+      const projected = a.add(ab.multiply(t));
+      const distance = projected.distance(point);
+
+      if (!best || distance < best.distance) {
+        best = { position: projected, edge, distance };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * 计算两点之间沿道路的路线（A*），返回途经的世界坐标点
+   */
+  findRoute(from: Vector2, to: Vector2): Vector2[] | null {
+    const startPoint = this.getNearestRoadPoint(from);
+    const endPoint = this.getNearestRoadPoint(to);
+    if (!startPoint || !endPoint) return null;
+
+    // 同一路段上直接到达
+    if (startPoint.edge.id === endPoint.edge.id) {
+      return [startPoint.position, endPoint.position];
+    }
+
+    const startCandidates = [startPoint.edge.nodeA, startPoint.edge.nodeB];
+    const goalCandidates = new Set([endPoint.edge.nodeA, endPoint.edge.nodeB]);
+    const goalPosition = endPoint.position;
+
+    const gScore: Map<string, number> = new Map();
+    const cameFrom: Map<string, string> = new Map();
+    const open: Set<string> = new Set();
+    const fScore: Map<string, number> = new Map();
+
+    for (const id of startCandidates) {
+      const node = this.nodes.get(id)!;
+      const g = node.position.distance(startPoint.position);
+      gScore.set(id, g);
+      fScore.set(id, g + node.position.distance(goalPosition));
+      open.add(id);
+    }
+
+    while (open.size > 0) {
+      // 取f值最小的节点
+      let current = '';
+      let currentF = Infinity;
+      for (const id of open) {
+        const f = fScore.get(id)!;
+        if (f < currentF) {
+          current = id;
+          currentF = f;
+        }
+      }
+
+      if (goalCandidates.has(current)) {
+        const route: Vector2[] = [endPoint.position];
+        let nodeId: string | undefined = current;
+        while (nodeId !== undefined) {
+          route.unshift(this.nodes.get(nodeId)!.position.clone());
+          nodeId = cameFrom.get(nodeId);
+        }
+        route.unshift(startPoint.position);
+        return route;
+      }
+
+      open.delete(current);
+      const currentNode = this.nodes.get(current)!;
+      for (const neighborId of currentNode.neighbors) {
+        const neighbor = this.nodes.get(neighborId)!;
+        const tentative = gScore.get(current)! + currentNode.position.distance(neighbor.position);
+        if (tentative < (gScore.get(neighborId) ?? Infinity)) {
+          cameFrom.set(neighborId, current);
+          gScore.set(neighborId, tentative);
+          fScore.set(neighborId, tentative + neighbor.position.distance(goalPosition));
+          open.add(neighborId);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 清空道路网络
+   */
+  clear(): void {
+    this.nodes.clear();
+    this.edges.clear();
+  }
+}